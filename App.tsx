@@ -7,10 +7,14 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import StudentDashboard from "@/pages/student-dashboard";
 import TeacherDashboard from "@/pages/teacher-dashboard";
+import JoinClassroom from "@/pages/join-classroom";
+import ClassLogin from "@/pages/class-login";
+import Auctioneer from "@/pages/auctioneer";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, can } = useAuth();
+  const hasActiveClassroom = !!user?.classrooms?.some(classroom => classroom.enrollmentStatus === "active");
 
   if (isLoading) {
     return (
@@ -27,14 +31,26 @@ function Router() {
 
   return (
     <Switch>
+      <Route path="/class-login/:loginKey" component={ClassLogin} />
       {!isAuthenticated ? (
-        <Route path="/" component={Landing} />
+        <>
+          <Route path="/" component={Landing} />
+          <Route path="/join" component={Landing} />
+        </>
       ) : (
         <>
           {user?.role === "student" ? (
-            <Route path="/" component={StudentDashboard} />
-          ) : user?.role === "teacher" ? (
-            <Route path="/" component={TeacherDashboard} />
+            <>
+              <Route path="/" component={hasActiveClassroom ? StudentDashboard : JoinClassroom} />
+              <Route path="/join" component={JoinClassroom} />
+              {can("view_students") && <Route path="/bank" component={TeacherDashboard} />}
+              {can("view_students") && <Route path="/auctions/:auctionId" component={Auctioneer} />}
+            </>
+          ) : can("view_students") ? (
+            <>
+              <Route path="/" component={TeacherDashboard} />
+              <Route path="/auctions/:auctionId" component={Auctioneer} />
+            </>
           ) : (
             <Route path="/" component={Landing} />
           )}
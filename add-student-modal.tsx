@@ -11,9 +11,10 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 interface AddStudentModalProps {
   isOpen: boolean;
   onClose: () => void;
+  classroomId: number | null;
 }
 
-export default function AddStudentModal({ isOpen, onClose }: AddStudentModalProps) {
+export default function AddStudentModal({ isOpen, onClose, classroomId }: AddStudentModalProps) {
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
@@ -23,26 +24,23 @@ export default function AddStudentModal({ isOpen, onClose }: AddStudentModalProp
     mutationFn: async ({ firstName, lastName, email }: { 
       firstName: string; 
       lastName: string; 
-      email: string;
+      email?: string;
     }) => {
-      // Generate a simple student ID based on name
-      const studentId = `student_${firstName.toLowerCase()}_${lastName.toLowerCase()}_${Date.now()}`;
-      
       const response = await apiRequest("POST", "/api/add-student", {
-        id: studentId,
+        classroomId,
         firstName,
         lastName,
         email,
-        role: "student",
       });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       toast({
         title: "Success",
-        description: `Student ${firstName} ${lastName} has been added successfully!`,
+        description: data.message,
       });
       handleClose();
     },
@@ -157,7 +155,7 @@ export default function AddStudentModal({ isOpen, onClose }: AddStudentModalProp
               placeholder="Enter email address"
             />
             <p className="text-sm text-gray-500 mt-1">
-              Email is optional but helpful for student identification
+              If the student logs in with this email, they'll get this account automatically
             </p>
           </div>
 
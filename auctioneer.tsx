@@ -0,0 +1,93 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import type { AuctionLot } from "@/components/auctions-tab";
+import { useServerNow, formatCountdown } from "@/hooks/useCountdown";
+
+interface AuctionView {
+  id: number;
+  title: string;
+  classroomName: string;
+  endsAt: string;
+  settledAt: string | null;
+  serverTime: string;
+  lots: AuctionLot[];
+}
+
+// Full-screen view for the projector while the auction runs: big countdown, current bids and who leads each lot
+export default function Auctioneer() {
+  const { auctionId } = useParams<{ auctionId: string }>();
+
+  const { data: auction, isLoading } = useQuery<AuctionView>({
+    queryKey: [`/api/auctions/${auctionId}`],
+    refetchInterval: 2000,
+    retry: false,
+  });
+
+  const now = useServerNow(auction?.serverTime);
+  const remaining = auction ? new Date(auction.endsAt).getTime() - now : 0;
+  const isClosed = !!auction?.settledAt;
+
+  if (isLoading || !auction) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-600 to-indigo-800">
+        <p className="text-white text-3xl">{isLoading ? "Loading..." : "Auction not found"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-600 to-indigo-800 p-10 text-white">
+      <div className="flex items-start justify-between mb-10">
+        <div>
+          <p className="text-2xl text-purple-200">{auction.classroomName}</p>
+          <h1 className="text-6xl font-bold">🔨 {auction.title}</h1>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl text-purple-200">{isClosed ? "Bidding is over" : remaining > 0 ? "Bidding closes in" : "Closing..."}</p>
+          <p className={`text-8xl font-bold tabular-nums ${!isClosed && remaining < 60000 ? "text-yellow-300" : ""}`}>
+            {isClosed ? "SOLD" : formatCountdown(remaining)}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8">
+        {auction.lots.map((lot) => (
+          <div key={lot.id} className="bg-white text-gray-800 rounded-3xl shadow-2xl p-8 space-y-4">
+            {lot.imageUrl && (
+              <img src={lot.imageUrl} alt={lot.description} className="w-full h-56 rounded-2xl object-cover" />
+            )}
+            <p className="text-3xl font-bold">{lot.description}</p>
+            {isClosed ? (
+              lot.winner ? (
+                <div>
+                  <p className="text-5xl font-bold text-green-600">${lot.winningBid}</p>
+                  <p className="text-2xl">🎉 {lot.winner}</p>
+                </div>
+              ) : (
+                <p className="text-3xl text-gray-500">No winner</p>
+              )
+            ) : lot.leadingBid ? (
+              <div>
+                <p className="text-5xl font-bold text-purple-600">${lot.leadingBid.amount}</p>
+                <p className="text-2xl">{lot.leadingBid.bidder}</p>
+                <p className="text-xl text-gray-500">
+                  {lot.bidCount} {lot.bidCount === 1 ? "bid" : "bids"} • next bid ${lot.minimumBid}
+                </p>
+              </div>
+            ) : (
+              <div>
+                <p className="text-5xl font-bold text-gray-400">${lot.startingBid}</p>
+                <p className="text-2xl text-gray-500">No bids yet</p>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={() => window.history.back()} variant="outline" className="mt-10 text-gray-800">
+        ← Back
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+export interface AuctionLot {
+  id: number;
+  description: string;
+  imageUrl: string | null;
+  startingBid: string;
+  increment: string;
+  bidCount: number;
+  minimumBid: string;
+  leadingBid: { amount: string; userId: string; bidder: string } | null;
+  winner: string | null;
+  winningBid: string | null;
+}
+
+interface Auction {
+  id: number;
+  title: string;
+  endsAt: string;
+  settledAt: string | null;
+  lots: AuctionLot[];
+}
+
+interface LotForm {
+  description: string;
+  imageUrl: string;
+  startingBid: string;
+  increment: string;
+}
+
+const emptyLot: LotForm = { description: "", imageUrl: "", startingBid: "", increment: "1.00" };
+
+export default function AuctionsTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [lots, setLots] = useState<LotForm[]>([emptyLot]);
+
+  const { data: auctions, isLoading } = useQuery<Auction[]>({
+    queryKey: ["/api/auctions", { classroomId }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Closing charges the winners, so balances refresh too
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auctions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createAuctionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auctions", {
+        classroomId,
+        title,
+        endsAt: new Date(endsAt).toISOString(),
+        lots: lots.map(lot => ({
+          description: lot.description,
+          imageUrl: lot.imageUrl.trim() || null,
+          startingBid: parseFloat(lot.startingBid).toFixed(2),
+          increment: parseFloat(lot.increment).toFixed(2),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      handleSuccess(data.message);
+      setTitle("");
+      setEndsAt("");
+      setLots([emptyLot]);
+    },
+    onError: (error) => handleError(error, "Failed to create auction"),
+  });
+
+  const closeAuctionMutation = useMutation({
+    mutationFn: async (auctionId: number) => {
+      const response = await apiRequest("POST", `/api/auctions/${auctionId}/close`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to close auction"),
+  });
+
+  const updateLot = (index: number, changes: Partial<LotForm>) =>
+    setLots(lots.map((lot, i) => (i === index ? { ...lot, ...changes } : lot)));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lotsValid = lots.every(lot =>
+      lot.description.trim() && parseFloat(lot.startingBid) >= 0 && parseFloat(lot.increment) > 0
+    );
+    if (!title.trim() || !endsAt || !lotsValid) {
+      toast({
+        title: "Missing Information",
+        description: "Give the auction a title and a closing time, and each lot a description, a starting bid and a bid increment.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (new Date(endsAt) <= new Date()) {
+      toast({
+        title: "Check the time",
+        description: "Pick a closing time in the future.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createAuctionMutation.mutate();
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Auction House</h3>
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="auction-title">Auction</Label>
+              <Input
+                id="auction-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="End of Quarter Auction"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="auction-ends">Bidding closes</Label>
+              <Input
+                id="auction-ends"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {lots.map((lot, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="md:col-span-2">
+                <Label htmlFor={`lot-description-${index}`}>Lot {index + 1}</Label>
+                <Input
+                  id={`lot-description-${index}`}
+                  value={lot.description}
+                  onChange={(e) => updateLot(index, { description: e.target.value })}
+                  placeholder="Lunch with the teacher"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`lot-starting-${index}`}>Starting bid</Label>
+                <Input
+                  id={`lot-starting-${index}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={lot.startingBid}
+                  onChange={(e) => updateLot(index, { startingBid: e.target.value })}
+                  placeholder="5.00"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`lot-increment-${index}`}>Raise by at least</Label>
+                <Input
+                  id={`lot-increment-${index}`}
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={lot.increment}
+                  onChange={(e) => updateLot(index, { increment: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex items-end space-x-2">
+                <Input
+                  type="url"
+                  value={lot.imageUrl}
+                  onChange={(e) => updateLot(index, { imageUrl: e.target.value })}
+                  placeholder="Picture link"
+                  aria-label={`Lot ${index + 1} picture link`}
+                />
+                {lots.length > 1 && (
+                  <Button
+                    type="button"
+                    onClick={() => setLots(lots.filter((_, i) => i !== index))}
+                    variant="outline"
+                    size="sm"
+                  >
+                    ✕
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex space-x-3">
+            <Button type="button" onClick={() => setLots([...lots, emptyLot])} variant="outline">
+              + Add Lot
+            </Button>
+            <Button
+              type="submit"
+              disabled={createAuctionMutation.isPending}
+              className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+            >
+              {createAuctionMutation.isPending ? "Saving..." : "🔨 Open Auction"}
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : auctions && auctions.length > 0 ? (
+        <div className="space-y-4">
+          {auctions.map((auction) => (
+            <div key={auction.id} className="bg-gray-50 rounded-xl p-6 space-y-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-semibold text-gray-800 text-lg">{auction.title}</p>
+                  <p className="text-gray-500 text-sm">
+                    {auction.settledAt ? `Closed ${formatDateTime(auction.settledAt)}` : `Closes ${formatDateTime(auction.endsAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {auction.settledAt ? (
+                    <Badge className="bg-gray-100 text-gray-600">Closed</Badge>
+                  ) : (
+                    <>
+                      <Badge className="bg-green-100 text-green-800">Open</Badge>
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/auctions/${auction.id}`}>📽️ Auctioneer View</Link>
+                      </Button>
+                      <Button
+                        onClick={() => closeAuctionMutation.mutate(auction.id)}
+                        disabled={closeAuctionMutation.isPending}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Close Now
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {auction.lots.map((lot) => (
+                  <div key={lot.id} className="flex items-center justify-between p-3 bg-white rounded-lg">
+                    <p className="text-gray-800">{lot.description}</p>
+                    <p className="text-gray-600 text-sm">
+                      {auction.settledAt
+                        ? lot.winner ? `Sold to ${lot.winner} for $${lot.winningBid}` : "Not sold"
+                        : lot.leadingBid
+                          ? `$${lot.leadingBid.amount} by ${lot.leadingBid.bidder} • ${lot.bidCount} ${lot.bidCount === 1 ? "bid" : "bids"}`
+                          : `Starts at $${lot.startingBid}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">🔨</span>
+          <p className="text-lg">No auctions yet. Open one above!</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
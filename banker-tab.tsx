@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { PERMISSION_DESCRIPTIONS, STUDENT_BANKER_POWERS } from "@shared/permissions";
+
+type BankerPower = typeof STUDENT_BANKER_POWERS[number];
+
+interface Student {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface StaffGrant {
+  userId: string;
+  role: string;
+  permissions: string[] | null;
+  withdrawalLimit: string | null;
+  startsOn: string | null;
+  endsOn: string | null;
+  user: Student;
+}
+
+interface BankerActivity {
+  id: number;
+  amount: string;
+  description: string;
+  reversesTransactionId: number | null;
+  reversedByTransactionId: number | null;
+  createdAt: string;
+  student: Student;
+  banker: Student;
+}
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export default function BankerTab({ classroomId, canReverse }: { classroomId: number; canReverse: boolean }) {
+  const { toast } = useToast();
+  const [studentId, setStudentId] = useState("");
+  const [powers, setPowers] = useState<BankerPower[]>(["view_students"]);
+  const [withdrawalLimit, setWithdrawalLimit] = useState("");
+  const [startsOn, setStartsOn] = useState(today);
+  const [endsOn, setEndsOn] = useState(today);
+  const staffUrl = `/api/classrooms/${classroomId}/staff`;
+  const activityUrl = `/api/classrooms/${classroomId}/banker-activity`;
+
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students", { classroomId }],
+  });
+
+  const { data: staff } = useQuery<StaffGrant[]>({
+    queryKey: [staffUrl],
+  });
+
+  const { data: activity, isLoading: activityLoading } = useQuery<BankerActivity[]>({
+    queryKey: [activityUrl],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/classrooms/${classroomId}/bankers`, {
+        studentId,
+        permissions: powers,
+        withdrawalLimit: powers.includes("approve_withdrawals") && withdrawalLimit ? withdrawalLimit : null,
+        startsOn,
+        endsOn,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [staffUrl] });
+      setStudentId("");
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to make banker"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `${staffUrl}/${userId}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [staffUrl] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to remove banker"),
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: async (transactionId: number) => {
+      const response = await apiRequest("POST", `/api/transactions/${transactionId}/reverse`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [activityUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to reverse transaction"),
+  });
+
+  const togglePower = (power: BankerPower, checked: boolean) => {
+    setPowers(checked ? [...powers, power] : powers.filter(existing => existing !== power));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!studentId) {
+      toast({
+        title: "Missing Information",
+        description: "Pick a student.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    grantMutation.mutate();
+  };
+
+  const bankers = staff?.filter(grant => grant.role === "student-banker") || [];
+
+  const formatAmount = (amount: string) => {
+    const value = parseFloat(amount);
+    return `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+  };
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Student Bankers</h3>
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Student</Label>
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Pick a student" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students?.map((student) => (
+                    <SelectItem key={student.id} value={student.id}>
+                      {student.firstName} {student.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="banker-starts-on">First day</Label>
+              <Input
+                id="banker-starts-on"
+                type="date"
+                value={startsOn}
+                onChange={(e) => setStartsOn(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="banker-ends-on">Last day</Label>
+              <Input
+                id="banker-ends-on"
+                type="date"
+                value={endsOn}
+                onChange={(e) => setEndsOn(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {/* Every banker can view students; without it they couldn't reach the Bank Desk */}
+            {STUDENT_BANKER_POWERS.map((power) => (
+              <div key={power} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`banker-${power}`}
+                  checked={power === "view_students" || powers.includes(power)}
+                  disabled={power === "view_students"}
+                  onCheckedChange={(checked) => togglePower(power, checked === true)}
+                />
+                <Label htmlFor={`banker-${power}`} className="capitalize">{PERMISSION_DESCRIPTIONS[power]}</Label>
+              </div>
+            ))}
+          </div>
+
+          {powers.includes("approve_withdrawals") && (
+            <div className="max-w-xs">
+              <Label htmlFor="banker-limit">Largest withdrawal they can approve</Label>
+              <Input
+                id="banker-limit"
+                type="number"
+                step="0.01"
+                min="0"
+                value={withdrawalLimit}
+                onChange={(e) => setWithdrawalLimit(e.target.value)}
+                placeholder="No limit"
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            disabled={grantMutation.isPending}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+          >
+            {grantMutation.isPending ? "Saving..." : "🏦 Make Banker"}
+          </Button>
+        </form>
+      </div>
+
+      {bankers.length > 0 && (
+        <div className="space-y-3">
+          {bankers.map((grant) => (
+            <div key={grant.userId} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+              <div>
+                <p className="font-semibold text-gray-800">{grant.user.firstName} {grant.user.lastName}</p>
+                <p className="text-gray-600 text-sm">
+                  {grant.startsOn} to {grant.endsOn} •{" "}
+                  {(grant.permissions || STUDENT_BANKER_POWERS)
+                    .map(power => PERMISSION_DESCRIPTIONS[power as BankerPower])
+                    .join(", ")}
+                  {grant.withdrawalLimit && ` • up to $${grant.withdrawalLimit}`}
+                </p>
+              </div>
+              <Button
+                onClick={() => removeMutation.mutate(grant.userId)}
+                disabled={removeMutation.isPending}
+                variant="outline"
+                size="sm"
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Banker Activity</h3>
+        {activityLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg">Loading...</p>
+          </div>
+        ) : activity && activity.length > 0 ? (
+          <div className="space-y-3">
+            {activity.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-semibold text-gray-800">
+                      {transaction.student.firstName} {transaction.student.lastName}: {transaction.description}
+                    </p>
+                    {transaction.reversedByTransactionId !== null && (
+                      <Badge variant="outline">Reversed</Badge>
+                    )}
+                  </div>
+                  <p className="text-gray-600 text-sm">
+                    By {transaction.banker.firstName} {transaction.banker.lastName} •{" "}
+                    {new Date(transaction.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`font-bold text-lg ${parseFloat(transaction.amount) >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    {formatAmount(transaction.amount)}
+                  </span>
+                  {canReverse && transaction.reversedByTransactionId === null && transaction.reversesTransactionId === null && (
+                    <Button
+                      onClick={() => reverseMutation.mutate(transaction.id)}
+                      disabled={reverseMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                    >
+                      ↩️ Reverse
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <span className="text-4xl mb-4 block">📭</span>
+            <p className="text-lg">No banker activity yet</p>
+          </div>
+        )}
+      </div>
+    </CardContent>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Batch {
+  id: number;
+  type: string;
+  amount: string | null;
+  description: string;
+  studentsAffected: number;
+  totalAmount: string;
+  rolledBackAt: string | null;
+  reversedCount: number;
+  createdAt: string;
+  createdByUser: {
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+}
+
+interface BatchDetail {
+  id: number;
+  transactions: {
+    id: number;
+    amount: string;
+    reversedByTransactionId: number | null;
+    user: {
+      firstName: string;
+      lastName: string;
+    };
+  }[];
+}
+
+function BatchTransactions({ batchId }: { batchId: number }) {
+  const { data: batch, isLoading } = useQuery<BatchDetail>({
+    queryKey: [`/api/batches/${batchId}`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-gray-500 text-sm mt-4">Loading...</p>;
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      {batch?.transactions.map((transaction) => (
+        <div key={transaction.id} className="flex items-center justify-between px-4 py-2 bg-white rounded-lg">
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-800">
+              {transaction.user.firstName} {transaction.user.lastName}
+            </span>
+            {transaction.reversedByTransactionId !== null && (
+              <Badge variant="outline">Reversed</Badge>
+            )}
+          </div>
+          <span className={`font-semibold ${parseFloat(transaction.amount) >= 0 ? "text-green-600" : "text-red-600"}`}>
+            ${transaction.amount}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function BatchHistoryTab({ classroomId, canRollBack }: { classroomId: number; canRollBack: boolean }) {
+  const { toast } = useToast();
+  const [expandedBatchId, setExpandedBatchId] = useState<number | null>(null);
+  const [batchToRollBack, setBatchToRollBack] = useState<Batch | null>(null);
+
+  const { data: batches, isLoading } = useQuery<Batch[]>({
+    queryKey: ["/api/batches", { classroomId }],
+    retry: false,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (batchId: number) => {
+      const response = await apiRequest("POST", `/api/batches/${batchId}/rollback`);
+      return response.json();
+    },
+    onSuccess: (data, batchId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${batchId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      const skippedNames = data.skipped
+        .map((s: { user: { firstName: string; lastName: string } }) => `${s.user.firstName} ${s.user.lastName}`)
+        .join(", ");
+      toast({
+        title: "Success",
+        description: skippedNames ? `${data.message}: ${skippedNames}` : data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back batch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  };
+
+  const getBatchIcon = (type: string) => {
+    return type === "rent" ? "🏠" : type === "interest" ? "📈" : "💰";
+  };
+
+  return (
+    <CardContent className="p-6">
+      <h3 className="text-2xl font-bold text-gray-800 mb-6">Paycheck & Rent History</h3>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : batches && batches.length > 0 ? (
+        <div className="space-y-4">
+          {batches.map((batch) => (
+            <div key={batch.id} className="bg-gray-50 rounded-xl p-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <div className="w-12 h-12 bg-white rounded-full flex items-center justify-center">
+                    <span className="text-xl">{getBatchIcon(batch.type)}</span>
+                  </div>
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-semibold text-gray-800">
+                        {batch.description} • {batch.amount ? `$${batch.amount} each` : batch.type === "rent" ? "by housing" : batch.type === "interest" ? "by savings balance" : "by job"}
+                      </p>
+                      {batch.rolledBackAt && (
+                        <Badge variant="outline">
+                          {batch.reversedCount < batch.studentsAffected ? "Partly rolled back" : "Rolled back"}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-gray-600 text-sm">
+                      {formatDate(batch.createdAt)}
+                      {batch.createdByUser && ` by ${batch.createdByUser.firstName || ""} ${batch.createdByUser.lastName || ""}`}
+                      {" "}• {batch.studentsAffected} students • Total ${batch.totalAmount}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-3">
+                  <Button
+                    onClick={() => setExpandedBatchId(expandedBatchId === batch.id ? null : batch.id)}
+                    variant="outline"
+                  >
+                    {expandedBatchId === batch.id ? "Hide" : "Details"}
+                  </Button>
+                  {canRollBack && (
+                    <Button
+                      onClick={() => setBatchToRollBack(batch)}
+                      disabled={rollbackMutation.isPending || batch.reversedCount >= batch.studentsAffected}
+                      variant="destructive"
+                      className="font-semibold"
+                    >
+                      ↩️ Roll Back
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {expandedBatchId === batch.id && <BatchTransactions batchId={batch.id} />}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">📭</span>
+          <p className="text-lg">No paycheck or rent runs yet</p>
+        </div>
+      )}
+
+      <AlertDialog open={!!batchToRollBack} onOpenChange={(open) => !open && setBatchToRollBack(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this run?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every transaction from "{batchToRollBack?.description}" will be reversed. Students who no longer
+              have enough money will be skipped and listed afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (batchToRollBack) {
+                  rollbackMutation.mutate(batchToRollBack.id);
+                }
+                setBatchToRollBack(null);
+              }}
+            >
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </CardContent>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface CdProduct {
+  id: number;
+  name: string;
+  termDays: number;
+  interestRate: string;
+  penaltyRate: string;
+}
+
+interface ClassroomCd {
+  id: number;
+  productName: string;
+  principal: string;
+  maturesAt: string;
+  status: string; // 'open', 'matured' or 'broken'
+  payout: string | null;
+  projectedValue: string;
+  student: { id: string; firstName: string | null; lastName: string | null };
+}
+
+export const CD_STATUS: Record<string, { label: string; className: string }> = {
+  open: { label: "Locked", className: "bg-blue-100 text-blue-800" },
+  matured: { label: "Matured", className: "bg-green-100 text-green-800" },
+  broken: { label: "Broken early", className: "bg-gray-100 text-gray-600" },
+};
+
+export default function CdsTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [termDays, setTermDays] = useState("");
+  const [interestRate, setInterestRate] = useState("");
+  const [penaltyRate, setPenaltyRate] = useState("");
+
+  const { data: products, isLoading: productsLoading } = useQuery<CdProduct[]>({
+    queryKey: ["/api/cd-products", { classroomId }],
+  });
+
+  const { data: cds, isLoading: cdsLoading } = useQuery<ClassroomCd[]>({
+    queryKey: ["/api/classroom-cds", { classroomId }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cd-products"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/cd-products", {
+        classroomId,
+        name,
+        termDays: parseInt(termDays),
+        interestRate: parseFloat(interestRate).toFixed(2),
+        penaltyRate: parseFloat(penaltyRate || "0").toFixed(2),
+      });
+      return response.json();
+    },
+    onSuccess: (product) => {
+      handleSuccess(`${product.name} is now offered 🔒`);
+      setName("");
+      setTermDays("");
+      setInterestRate("");
+      setPenaltyRate("");
+    },
+    onError: (error) => handleError(error, "Failed to add CD"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/cd-products/${id}`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to remove CD"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const days = parseInt(termDays);
+    const rate = parseFloat(interestRate);
+    const penalty = parseFloat(penaltyRate || "0");
+    if (!name.trim() || isNaN(days) || days < 1 || days > 365 || isNaN(rate) || rate < 0 || isNaN(penalty) || penalty < 0 || penalty > 100) {
+      toast({
+        title: "Missing Information",
+        description: "Give the CD a name, a term of 1 to 365 days, an interest rate and a penalty of at most 100%.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate();
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Certificates of Deposit</h3>
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="cd-name">Name</Label>
+              <Input
+                id="cd-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="4-Week CD"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cd-term">Locked for (days)</Label>
+              <Input
+                id="cd-term"
+                type="number"
+                step="1"
+                min="1"
+                max="365"
+                value={termDays}
+                onChange={(e) => setTermDays(e.target.value)}
+                placeholder="28"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cd-rate">Interest for the term (%)</Label>
+              <Input
+                id="cd-rate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={interestRate}
+                onChange={(e) => setInterestRate(e.target.value)}
+                placeholder="5.00"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cd-penalty">Early withdrawal penalty (%)</Label>
+              <Input
+                id="cd-penalty"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={penaltyRate}
+                onChange={(e) => setPenaltyRate(e.target.value)}
+                placeholder="2.00"
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-gray-600 text-sm">Breaking a CD early pays back the deposit less the penalty, with no interest.</p>
+            <Button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+            >
+              {createMutation.isPending ? "Saving..." : "🔒 Offer CD"}
+            </Button>
+          </div>
+        </form>
+
+        {productsLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg">Loading...</p>
+          </div>
+        ) : products && products.length > 0 ? (
+          <div className="space-y-2 mt-4">
+            {products.map((product) => (
+              <div key={product.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                <div>
+                  <p className="font-semibold text-gray-800">{product.name}</p>
+                  <p className="text-gray-600 text-sm">
+                    {product.termDays} days • {product.interestRate}% interest • {product.penaltyRate}% penalty if broken early
+                  </p>
+                </div>
+                <Button
+                  onClick={() => removeMutation.mutate(product.id)}
+                  disabled={removeMutation.isPending}
+                  variant="outline"
+                  size="sm"
+                >
+                  Stop Offering
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <span className="text-4xl mb-4 block">🔒</span>
+            <p className="text-lg">No CDs offered yet. Add one above!</p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-xl font-bold text-gray-800 mb-4">Students' CDs</h4>
+        {cdsLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg">Loading...</p>
+          </div>
+        ) : cds && cds.length > 0 ? (
+          <div className="space-y-2">
+            {cds.map((cd) => {
+              const status = CD_STATUS[cd.status] ?? CD_STATUS.open;
+              return (
+                <div key={cd.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="text-gray-800">
+                      {`${cd.student.firstName || ""} ${cd.student.lastName || ""}`.trim() || "Student"} • {cd.productName}
+                    </p>
+                    <p className="text-gray-600 text-sm">
+                      ${cd.principal} deposited • {cd.status === "open"
+                        ? `worth $${cd.projectedValue} on ${formatDate(cd.maturesAt)}`
+                        : `paid back $${cd.payout}`}
+                    </p>
+                  </div>
+                  <Badge className={status.className}>{status.label}</Badge>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-center text-gray-500 py-4">No student has opened a CD yet.</p>
+        )}
+      </div>
+    </CardContent>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import PictureGrid from "@/components/picture-grid";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Remembered on the classroom device so logging out returns to this roster instead of the landing page
+export const CLASS_LOGIN_PATH_KEY = "classLoginPath";
+
+interface ClassLoginStudent {
+  id: string;
+  firstName: string;
+  lastInitial: string;
+  kind: "pin" | "picture";
+  length: number;
+}
+
+interface ClassLoginRoster {
+  classroomName: string;
+  students: ClassLoginStudent[];
+}
+
+export default function ClassLogin() {
+  const { loginKey } = useParams<{ loginKey: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [selectedStudent, setSelectedStudent] = useState<ClassLoginStudent | null>(null);
+  const [pin, setPin] = useState("");
+  const [pictureSequence, setPictureSequence] = useState<number[]>([]);
+
+  const { data: roster, isLoading, error } = useQuery<ClassLoginRoster>({
+    queryKey: [`/api/class-login/${loginKey}`],
+    retry: false,
+  });
+
+  useEffect(() => {
+    localStorage.setItem(CLASS_LOGIN_PATH_KEY, window.location.pathname);
+  }, []);
+
+  const loginMutation = useMutation({
+    mutationFn: async ({ studentId, secret }: { studentId: string; secret: string }) => {
+      const response = await apiRequest("POST", `/api/class-login/${loginKey}`, { studentId, secret });
+      return response.json();
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setLocation("/");
+    },
+    onError: (error) => {
+      setPin("");
+      setPictureSequence([]);
+      toast({
+        title: error.message.startsWith("423") ? "Login Locked 🔒" : "Oops!",
+        description: error.message.startsWith("423")
+          ? "Too many tries. Ask your teacher for help or wait a few minutes."
+          : "That's not right. Try again!",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePinChange = (value: string) => {
+    setPin(value);
+    if (selectedStudent && value.length === selectedStudent.length) {
+      loginMutation.mutate({ studentId: selectedStudent.id, secret: value });
+    }
+  };
+
+  const handlePicturePick = (index: number) => {
+    if (!selectedStudent) return;
+    const sequence = [...pictureSequence, index];
+    setPictureSequence(sequence);
+    if (sequence.length === selectedStudent.length) {
+      loginMutation.mutate({ studentId: selectedStudent.id, secret: sequence.join("-") });
+    }
+  };
+
+  const handleBack = () => {
+    setSelectedStudent(null);
+    setPin("");
+    setPictureSequence([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-400 via-purple-500 to-pink-400 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl rounded-3xl shadow-2xl">
+        <CardContent className="p-8">
+          <div className="text-center mb-8">
+            <div className="w-24 h-24 mx-auto bg-gradient-to-br from-pink-400 to-pink-600 rounded-full flex items-center justify-center mb-4">
+              <span className="text-4xl">🐷</span>
+            </div>
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">{roster?.classroomName || "Class Bank"}</h1>
+            <p className="text-gray-600 text-lg">
+              {selectedStudent ? `Hi ${selectedStudent.firstName}! 👋` : "Tap your name"}
+            </p>
+          </div>
+
+          {isLoading ? (
+            <p className="text-center text-gray-500 text-lg">Loading...</p>
+          ) : error || !roster ? (
+            <p className="text-center text-gray-500 text-lg">This class login link doesn't work. Ask your teacher for help.</p>
+          ) : !selectedStudent ? (
+            roster.students.length > 0 ? (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {roster.students.map((student) => (
+                  <Button
+                    key={student.id}
+                    onClick={() => setSelectedStudent(student)}
+                    variant="outline"
+                    className="h-24 flex flex-col rounded-2xl text-lg font-semibold"
+                  >
+                    <span className="text-2xl">{student.kind === "picture" ? "🖼️" : "🔢"}</span>
+                    {student.firstName} {student.lastInitial}.
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 text-lg">Nobody in this class has a PIN yet.</p>
+            )
+          ) : (
+            <div className="max-w-sm mx-auto space-y-6">
+              {selectedStudent.kind === "pin" ? (
+                <div className="flex flex-col items-center space-y-2">
+                  <p className="text-gray-700 text-lg">Type your secret number</p>
+                  <InputOTP
+                    maxLength={selectedStudent.length}
+                    value={pin}
+                    onChange={handlePinChange}
+                    disabled={loginMutation.isPending}
+                    inputMode="numeric"
+                    pattern="^[0-9]*$"
+                    autoFocus
+                  >
+                    <InputOTPGroup>
+                      {[...Array(selectedStudent.length)].map((_, index) => (
+                        <InputOTPSlot key={index} index={index} className="w-14 h-16 text-2xl" />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-gray-700 text-lg text-center">Tap your secret pictures in order</p>
+                  <div className="flex justify-center space-x-2 h-10 text-3xl">
+                    {[...Array(selectedStudent.length)].map((_, index) => (
+                      <span key={index}>{index < pictureSequence.length ? "⭐" : "⚪"}</span>
+                    ))}
+                  </div>
+                  <PictureGrid onPick={handlePicturePick} disabled={loginMutation.isPending} />
+                </div>
+              )}
+
+              <Button onClick={handleBack} variant="ghost" className="w-full text-lg">
+                ← That's not me
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
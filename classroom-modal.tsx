@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Permission } from "@shared/permissions";
+
+interface Classroom {
+  id: number;
+  name: string;
+  period: string | null;
+  permissions?: Permission[];
+}
+
+interface StaffMember {
+  userId: string;
+  role: string;
+  user: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+}
+
+interface UnenrolledStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface ClassroomModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  classroom: Classroom | null;
+  onCreated: (classroom: Classroom) => void;
+}
+
+export default function ClassroomModal({ isOpen, onClose, classroom, onCreated }: ClassroomModalProps) {
+  const [name, setName] = useState("");
+  const [period, setPeriod] = useState("");
+  const [coTeacherEmail, setCoTeacherEmail] = useState("");
+  const { toast } = useToast();
+  const canManageStudents = !!classroom?.permissions?.includes("manage_students");
+  const canManageStaff = !!classroom?.permissions?.includes("manage_classrooms");
+  const staffUrl = `/api/classrooms/${classroom?.id}/staff`;
+
+  const { data: unenrolledStudents = [] } = useQuery<UnenrolledStudent[]>({
+    queryKey: ["/api/unenrolled-students"],
+    enabled: isOpen && canManageStudents,
+  });
+
+  const { data: staff = [] } = useQuery<StaffMember[]>({
+    queryKey: [staffUrl],
+    enabled: isOpen && canManageStaff,
+  });
+  // Student bankers are managed from the dashboard's Student Bankers tab
+  const coTeachers = staff.filter(member => member.role === "co-teacher");
+
+  const createClassroomMutation = useMutation({
+    mutationFn: async ({ name, period }: { name: string; period: string | undefined }) => {
+      // Scheduled paychecks and rent follow the class time zone; start with the teacher's own
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await apiRequest("POST", "/api/classrooms", { name, period, timeZone });
+      return response.json();
+    },
+    onSuccess: (newClassroom: Classroom) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+      toast({
+        title: "Success",
+        description: `${newClassroom.name} created! 🏫`,
+      });
+      setName("");
+      setPeriod("");
+      onCreated(newClassroom);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create class",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enrollMutation = useMutation({
+    mutationFn: async (studentId: string) => {
+      const response = await apiRequest("POST", `/api/classrooms/${classroom!.id}/enrollments`, { studentId });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/unenrolled-students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add student",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addCoTeacherMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", staffUrl, { email });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [staffUrl] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      setCoTeacherEmail("");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add co-teacher",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeStaffMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `${staffUrl}/${userId}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [staffUrl] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove co-teacher",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddCoTeacher = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (coTeacherEmail.trim()) {
+      addCoTeacherMutation.mutate(coTeacherEmail.trim());
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({
+        title: "Missing Name",
+        description: "Please give the class a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createClassroomMutation.mutate({ name: name.trim(), period: period.trim() || undefined });
+  };
+
+  const handleClose = () => {
+    setName("");
+    setPeriod("");
+    setCoTeacherEmail("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md rounded-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center">
+          <div className="w-16 h-16 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">🏫</span>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-gray-800">My Classes</DialogTitle>
+          <p className="text-gray-600">Create a class period and add students to it</p>
+        </DialogHeader>
+
+        {classroom && canManageStudents && (
+          <div>
+            <h4 className="text-md font-semibold text-purple-600 mb-2">
+              Students not in any class yet
+            </h4>
+            {unenrolledStudents.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">Everyone is already in a class.</p>
+            ) : (
+              <div className="space-y-2 mb-4">
+                {unenrolledStudents.map((student) => (
+                  <div key={student.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                    <div>
+                      <p className="font-semibold text-gray-800">{student.firstName} {student.lastName}</p>
+                      <p className="text-gray-600 text-sm">{student.email}</p>
+                    </div>
+                    <Button
+                      onClick={() => enrollMutation.mutate(student.id)}
+                      disabled={enrollMutation.isPending}
+                      size="sm"
+                      className="bg-purple-500 hover:bg-purple-600 text-white"
+                    >
+                      Add to {classroom.name}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {classroom && canManageStaff && (
+          <div>
+            <h4 className="text-md font-semibold text-purple-600 mb-2">
+              Co-teachers for {classroom.name}
+            </h4>
+            {coTeachers.length > 0 && (
+              <div className="space-y-2 mb-3">
+                {coTeachers.map((member) => (
+                  <div key={member.userId} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                    <div>
+                      <p className="font-semibold text-gray-800">{member.user.firstName} {member.user.lastName}</p>
+                      <p className="text-gray-600 text-sm">{member.user.email} • {member.role}</p>
+                    </div>
+                    <Button
+                      onClick={() => removeStaffMutation.mutate(member.userId)}
+                      disabled={removeStaffMutation.isPending}
+                      size="sm"
+                      variant="outline"
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form onSubmit={handleAddCoTeacher} className="flex space-x-2 mb-4">
+              <Input
+                type="email"
+                value={coTeacherEmail}
+                onChange={(e) => setCoTeacherEmail(e.target.value)}
+                placeholder="Co-teacher's email"
+              />
+              <Button
+                type="submit"
+                disabled={addCoTeacherMutation.isPending}
+                className="bg-purple-500 hover:bg-purple-600 text-white"
+              >
+                Add
+              </Button>
+            </form>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h4 className="text-md font-semibold text-purple-600">New Class</h4>
+          <div>
+            <Label htmlFor="classroom-name">Class Name</Label>
+            <Input
+              id="classroom-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Room 12 Math"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="classroom-period">Period (Optional)</Label>
+            <Input
+              id="classroom-period"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              placeholder="e.g., 3rd Period"
+              className="mt-1"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={createClassroomMutation.isPending}
+            className="w-full bg-purple-500 hover:bg-purple-600 text-white"
+          >
+            {createClassroomMutation.isPending ? "Creating..." : "Create Class"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
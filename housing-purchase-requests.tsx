@@ -0,0 +1,120 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface HousingPurchase {
+  id: number;
+  userId: string;
+  price: string;
+  user: { id: string; firstName: string; lastName: string };
+  unit: { id: number; name: string };
+}
+
+// Students' requests to buy housing, reviewed next to withdrawals since approving one takes the price from the
+// buyer. withdrawalLimit is the reviewer's cap in this class; null when uncapped.
+export default function HousingPurchaseRequests({
+  classroomId,
+  withdrawalLimit,
+}: {
+  classroomId: number;
+  withdrawalLimit: string | null;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: purchases } = useQuery<HousingPurchase[]>({
+    queryKey: ["/api/housing-purchases", { classroomId }],
+  });
+
+  // Approving takes the price from the buyer's balance and hands them the unit, so those lists refresh too
+  const reviewMutation = useMutation({
+    mutationFn: async ({ purchaseId, status }: { purchaseId: number; status: "approved" | "rejected" }) => {
+      const response = await apiRequest("PATCH", `/api/housing-purchases/${purchaseId}`, { status });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/housing-purchases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/housing-units"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review purchase request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getApprovalBlocker = (purchase: HousingPurchase) => {
+    if (purchase.userId === user?.id) {
+      return "This is your own request";
+    }
+    if (withdrawalLimit && parseFloat(purchase.price) > parseFloat(withdrawalLimit)) {
+      return `Over your $${withdrawalLimit} limit`;
+    }
+    return null;
+  };
+
+  if (!purchases || purchases.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 mt-8">
+      <h4 className="text-xl font-bold text-gray-800">Housing Purchase Requests</h4>
+      {purchases.map((purchase) => (
+        <div key={purchase.id} className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center">
+                <span className="text-xl">🏠</span>
+              </div>
+              <p className="font-semibold text-gray-800">
+                {purchase.user.firstName} {purchase.user.lastName} wants to buy {purchase.unit.name} for ${purchase.price}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              {getApprovalBlocker(purchase) && (
+                <span className="text-sm text-gray-500">{getApprovalBlocker(purchase)}</span>
+              )}
+              <Button
+                onClick={() => reviewMutation.mutate({ purchaseId: purchase.id, status: "approved" })}
+                disabled={reviewMutation.isPending || !!getApprovalBlocker(purchase)}
+                className="bg-green-500 hover:bg-green-600 text-white font-semibold"
+              >
+                ✓ Approve
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate({ purchaseId: purchase.id, status: "rejected" })}
+                disabled={reviewMutation.isPending}
+                variant="destructive"
+                className="font-semibold"
+              >
+                ✗ Deny
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Student {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface HousingAssignment {
+  id: number;
+  userId: string;
+  startsOn: string;
+  endsOn: string | null;
+  user: Student;
+}
+
+interface HousingUnit {
+  id: number;
+  name: string;
+  rent: string;
+  capacity: number;
+  price: string | null;
+  owner: Student | null;
+  assignments: HousingAssignment[];
+}
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export default function HousingTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [rent, setRent] = useState("");
+  const [capacity, setCapacity] = useState("1");
+  const [price, setPrice] = useState("");
+  // Student picked in each unit's move-in form, keyed by unit id
+  const [residents, setResidents] = useState<Record<number, string>>({});
+
+  const { data: units, isLoading } = useQuery<HousingUnit[]>({
+    queryKey: ["/api/housing-units", { classroomId }],
+  });
+
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students", { classroomId }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/housing-units"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rent-preview"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rent-arrears"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/housing-purchases"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createUnitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/housing-units", {
+        classroomId,
+        name,
+        rent: parseFloat(rent).toFixed(2),
+        capacity: parseInt(capacity),
+        price: price ? parseFloat(price).toFixed(2) : null,
+      });
+      return response.json();
+    },
+    onSuccess: (unit) => {
+      handleSuccess(`${unit.name} is ready for residents`);
+      setName("");
+      setRent("");
+      setCapacity("1");
+      setPrice("");
+    },
+    onError: (error) => handleError(error, "Failed to create housing"),
+  });
+
+  const deleteUnitMutation = useMutation({
+    mutationFn: async (unitId: number) => {
+      const response = await apiRequest("DELETE", `/api/housing-units/${unitId}`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to delete housing"),
+  });
+
+  const moveInMutation = useMutation({
+    mutationFn: async ({ unitId, studentId }: { unitId: number; studentId: string }) => {
+      const response = await apiRequest("POST", `/api/housing-units/${unitId}/assignments`, { studentId, startsOn: today() });
+      return response.json();
+    },
+    onSuccess: (data, { unitId }) => {
+      handleSuccess(data.message);
+      setResidents({ ...residents, [unitId]: "" });
+    },
+    onError: (error) => handleError(error, "Failed to assign housing"),
+  });
+
+  const moveOutMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      const response = await apiRequest("PATCH", `/api/housing-assignments/${assignmentId}`, { endsOn: today() });
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to move student out"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rentNum = parseFloat(rent);
+    const priceNum = parseFloat(price);
+    if (!name.trim() || isNaN(rentNum) || rentNum < 0 || !(parseInt(capacity) >= 1) || (price && !(priceNum >= 0))) {
+      toast({
+        title: "Missing Information",
+        description: "Give the housing a name, a rent, room for at least one student and, if it's for sale, a price.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createUnitMutation.mutate();
+  };
+
+  const formatDays = (assignment: HousingAssignment) => {
+    if (assignment.startsOn > today()) return `moves in ${assignment.startsOn}`;
+    return assignment.endsOn ? `until ${assignment.endsOn}` : `since ${assignment.startsOn}`;
+  };
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Housing</h3>
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="housing-name">Name</Label>
+              <Input
+                id="housing-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Window Seat"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="housing-rent">Rent per rent day</Label>
+              <Input
+                id="housing-rent"
+                type="number"
+                step="0.01"
+                min="0"
+                value={rent}
+                onChange={(e) => setRent(e.target.value)}
+                placeholder="50.00"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="housing-capacity">Room for</Label>
+              <Input
+                id="housing-capacity"
+                type="number"
+                min="1"
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="housing-price">Sale price (optional)</Label>
+              <Input
+                id="housing-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="Not for sale"
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={createUnitMutation.isPending}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+          >
+            {createUnitMutation.isPending ? "Saving..." : "🏠 Add Housing"}
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : units && units.length > 0 ? (
+        <div className="space-y-4">
+          {units.map((unit) => (
+            <div key={unit.id} className="bg-gray-50 rounded-xl p-6 space-y-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-semibold text-gray-800 text-lg">{unit.name} • ${unit.rent}</p>
+                  <p className="text-gray-500 text-sm">
+                    {unit.assignments.length} of {unit.capacity} {unit.capacity === 1 ? "spot" : "spots"} taken
+                  </p>
+                  <p className="text-gray-500 text-sm">
+                    {unit.owner
+                      ? `Owned by ${unit.owner.firstName} ${unit.owner.lastName}`
+                      : unit.price !== null ? `For sale at $${unit.price}` : "Owned by the class"}
+                  </p>
+                </div>
+                <Button
+                  onClick={() => deleteUnitMutation.mutate(unit.id)}
+                  disabled={deleteUnitMutation.isPending}
+                  variant="outline"
+                  size="sm"
+                >
+                  Delete
+                </Button>
+              </div>
+
+              {unit.assignments.map((assignment) => (
+                <div key={assignment.id} className="flex items-center justify-between bg-white rounded-lg p-3">
+                  <p className="text-gray-800">
+                    {assignment.user.firstName} {assignment.user.lastName}
+                    <span className="text-gray-500 text-sm"> • {formatDays(assignment)}</span>
+                  </p>
+                  {assignment.endsOn === null && (
+                    <Button
+                      onClick={() => moveOutMutation.mutate(assignment.id)}
+                      disabled={moveOutMutation.isPending}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      Move Out
+                    </Button>
+                  )}
+                </div>
+              ))}
+
+              {unit.assignments.length < unit.capacity && (
+                <div className="flex items-center space-x-3">
+                  <Select
+                    value={residents[unit.id] || ""}
+                    onValueChange={(studentId) => setResidents({ ...residents, [unit.id]: studentId })}
+                  >
+                    <SelectTrigger className="max-w-xs">
+                      <SelectValue placeholder="Pick a student" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {students?.map((student) => (
+                        <SelectItem key={student.id} value={student.id}>
+                          {student.firstName} {student.lastName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => moveInMutation.mutate({ unitId: unit.id, studentId: residents[unit.id] })}
+                    disabled={!residents[unit.id] || moveInMutation.isPending}
+                    className="bg-purple-500 hover:bg-purple-600 text-white"
+                  >
+                    Move In
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">🏠</span>
+          <p className="text-lg">No housing yet. Add some above!</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
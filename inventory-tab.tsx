@@ -0,0 +1,143 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface InventoryItem {
+  id: number;
+  status: string; // 'owned', 'redeemed' or 'expired'
+  expiresOn: string | null;
+  redeemedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  storeItem: {
+    name: string;
+    kind: string; // 'item' or 'coupon'
+  };
+}
+
+export const INVENTORY_STATUS: Record<string, { label: string; className: string }> = {
+  owned: { label: "Owned", className: "bg-green-100 text-green-800" },
+  redeemed: { label: "Redeemed", className: "bg-gray-100 text-gray-600" },
+  expired: { label: "Expired", className: "bg-red-100 text-red-800" },
+};
+
+export default function InventoryTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+
+  const { data: inventory, isLoading } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory-items", { classroomId }],
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: async (itemId: number) => {
+      const response = await apiRequest("PATCH", `/api/inventory-items/${itemId}`, { status: "redeemed" });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory-items"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to redeem coupon",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+  const usableCoupons = inventory?.filter(item => item.storeItem.kind === "coupon" && item.status === "owned").length ?? 0;
+
+  return (
+    <CardContent className="p-6">
+      <h3 className="text-2xl font-bold text-gray-800 mb-2">Inventory</h3>
+      <p className="text-gray-600 mb-6">
+        What students bought from the store. {usableCoupons} {usableCoupons === 1 ? "coupon is" : "coupons are"} waiting
+        to be used; mark each one redeemed when the student uses the privilege.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : inventory && inventory.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Student</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Bought</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {inventory.map((item) => {
+              const status = INVENTORY_STATUS[item.status] ?? INVENTORY_STATUS.owned;
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>{item.user.firstName} {item.user.lastName}</TableCell>
+                  <TableCell>
+                    {item.storeItem.kind === "coupon" ? "🎟️" : "🎁"} {item.storeItem.name}
+                    {item.status === "owned" && item.expiresOn && (
+                      <span className="text-gray-500 text-sm"> • use by {item.expiresOn}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-gray-600">{formatDate(item.createdAt)}</TableCell>
+                  <TableCell>
+                    <Badge className={status.className}>
+                      {item.status === "redeemed" && item.redeemedAt ? `Redeemed ${formatDate(item.redeemedAt)}` : status.label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {item.storeItem.kind === "coupon" && item.status === "owned" && (
+                      <Button
+                        onClick={() => redeemMutation.mutate(item.id)}
+                        disabled={redeemMutation.isPending}
+                        className="bg-purple-500 hover:bg-purple-600 text-white"
+                        size="sm"
+                      >
+                        Redeem
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">🎒</span>
+          <p className="text-lg">Nobody has bought anything yet</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
@@ -0,0 +1,112 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface JobApplication {
+  id: number;
+  answer: string;
+  createdAt: string;
+  user: {
+    firstName: string;
+    lastName: string;
+  };
+  job: {
+    title: string;
+    wage: string;
+  };
+}
+
+export default function JobApplicationsTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+
+  const { data: applications, isLoading } = useQuery<JobApplication[]>({
+    queryKey: ["/api/job-applications", { classroomId }],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: "hired" | "rejected" }) => {
+      const response = await apiRequest("PATCH", `/api/job-applications/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll-preview"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review application",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <CardContent className="p-6">
+      <h3 className="text-2xl font-bold text-gray-800 mb-6">Job Applications</h3>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : applications && applications.length > 0 ? (
+        <div className="space-y-4">
+          {applications.map((application) => (
+            <div key={application.id} className="bg-gray-50 rounded-xl p-6">
+              <div className="flex items-start justify-between space-x-4">
+                <div>
+                  <p className="font-semibold text-gray-800">
+                    {application.user.firstName} {application.user.lastName} • {application.job.title} (${application.job.wage})
+                  </p>
+                  <p className="text-gray-700 mt-2">"{application.answer}"</p>
+                  <p className="text-gray-500 text-sm mt-2">{new Date(application.createdAt).toLocaleDateString()}</p>
+                </div>
+                <div className="flex space-x-3">
+                  <Button
+                    onClick={() => reviewMutation.mutate({ id: application.id, status: "hired" })}
+                    disabled={reviewMutation.isPending}
+                    className="bg-green-500 hover:bg-green-600 text-white font-semibold"
+                  >
+                    ✓ Hire
+                  </Button>
+                  <Button
+                    onClick={() => reviewMutation.mutate({ id: application.id, status: "rejected" })}
+                    disabled={reviewMutation.isPending}
+                    variant="destructive"
+                    className="font-semibold"
+                  >
+                    ✗ Reject
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">📋</span>
+          <p className="text-lg">No job applications waiting</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
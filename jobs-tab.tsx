@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Student {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface JobAssignment {
+  id: number;
+  userId: string;
+  startsOn: string;
+  endsOn: string | null;
+  user: Student;
+}
+
+interface Job {
+  id: number;
+  title: string;
+  description: string | null;
+  wage: string;
+  slots: number;
+  assignments: JobAssignment[];
+}
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export default function JobsTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [wage, setWage] = useState("");
+  const [slots, setSlots] = useState("1");
+  // Student picked in each job's assign form, keyed by job id
+  const [assignees, setAssignees] = useState<Record<number, string>>({});
+
+  const { data: jobs, isLoading } = useQuery<Job[]>({
+    queryKey: ["/api/jobs", { classroomId }],
+  });
+
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students", { classroomId }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll-preview"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createJobMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs", {
+        classroomId,
+        title,
+        description: description || null,
+        wage: parseFloat(wage).toFixed(2),
+        slots: parseInt(slots),
+      });
+      return response.json();
+    },
+    onSuccess: (job) => {
+      handleSuccess(`${job.title} added to the job board`);
+      setTitle("");
+      setDescription("");
+      setWage("");
+      setSlots("1");
+    },
+    onError: (error) => handleError(error, "Failed to create job"),
+  });
+
+  const deleteJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest("DELETE", `/api/jobs/${jobId}`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to delete job"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ jobId, studentId }: { jobId: number; studentId: string }) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/assignments`, { studentId, startsOn: today() });
+      return response.json();
+    },
+    onSuccess: (data, { jobId }) => {
+      handleSuccess(data.message);
+      setAssignees({ ...assignees, [jobId]: "" });
+    },
+    onError: (error) => handleError(error, "Failed to assign job"),
+  });
+
+  const endAssignmentMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      const response = await apiRequest("PATCH", `/api/job-assignments/${assignmentId}`, { endsOn: today() });
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to end job assignment"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const wageNum = parseFloat(wage);
+    if (!title.trim() || isNaN(wageNum) || wageNum < 0 || !(parseInt(slots) >= 1)) {
+      toast({
+        title: "Missing Information",
+        description: "Give the job a title, a wage and at least one slot.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createJobMutation.mutate();
+  };
+
+  const formatDays = (assignment: JobAssignment) => {
+    if (assignment.startsOn > today()) return `starts ${assignment.startsOn}`;
+    return assignment.endsOn ? `until ${assignment.endsOn}` : `since ${assignment.startsOn}`;
+  };
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Job Board</h3>
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="job-title">Job</Label>
+              <Input
+                id="job-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Librarian"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="job-wage">Pay per payroll</Label>
+              <Input
+                id="job-wage"
+                type="number"
+                step="0.01"
+                min="0"
+                value={wage}
+                onChange={(e) => setWage(e.target.value)}
+                placeholder="15.00"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="job-slots">Openings</Label>
+              <Input
+                id="job-slots"
+                type="number"
+                min="1"
+                value={slots}
+                onChange={(e) => setSlots(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="job-description">What they do</Label>
+            <Textarea
+              id="job-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Keeps the class library tidy and checks books in and out"
+              className="mt-1"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={createJobMutation.isPending}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+          >
+            {createJobMutation.isPending ? "Saving..." : "💼 Add Job"}
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : jobs && jobs.length > 0 ? (
+        <div className="space-y-4">
+          {jobs.map((job) => (
+            <div key={job.id} className="bg-gray-50 rounded-xl p-6 space-y-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-semibold text-gray-800 text-lg">{job.title} • ${job.wage}</p>
+                  {job.description && <p className="text-gray-600 text-sm">{job.description}</p>}
+                  <p className="text-gray-500 text-sm">
+                    {job.assignments.length} of {job.slots} {job.slots === 1 ? "opening" : "openings"} filled
+                  </p>
+                </div>
+                <Button
+                  onClick={() => deleteJobMutation.mutate(job.id)}
+                  disabled={deleteJobMutation.isPending}
+                  variant="outline"
+                  size="sm"
+                >
+                  Delete
+                </Button>
+              </div>
+
+              {job.assignments.map((assignment) => (
+                <div key={assignment.id} className="flex items-center justify-between bg-white rounded-lg p-3">
+                  <p className="text-gray-800">
+                    {assignment.user.firstName} {assignment.user.lastName}
+                    <span className="text-gray-500 text-sm"> • {formatDays(assignment)}</span>
+                  </p>
+                  {assignment.endsOn === null && (
+                    <Button
+                      onClick={() => endAssignmentMutation.mutate(assignment.id)}
+                      disabled={endAssignmentMutation.isPending}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      Fire
+                    </Button>
+                  )}
+                </div>
+              ))}
+
+              {job.assignments.length < job.slots && (
+                <div className="flex items-center space-x-3">
+                  <Select
+                    value={assignees[job.id] || ""}
+                    onValueChange={(studentId) => setAssignees({ ...assignees, [job.id]: studentId })}
+                  >
+                    <SelectTrigger className="max-w-xs">
+                      <SelectValue placeholder="Pick a student" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {students?.map((student) => (
+                        <SelectItem key={student.id} value={student.id}>
+                          {student.firstName} {student.lastName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => assignMutation.mutate({ jobId: job.id, studentId: assignees[job.id] })}
+                    disabled={!assignees[job.id] || assignMutation.isPending}
+                    className="bg-purple-500 hover:bg-purple-600 text-white"
+                  >
+                    Assign
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">💼</span>
+          <p className="text-lg">No jobs yet. Add one above!</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
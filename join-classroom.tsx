@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+// Set by the landing page when a student opens a QR link before logging in
+export const PENDING_JOIN_CODE_KEY = "pendingJoinCode";
+
+export default function JoinClassroom() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [code, setCode] = useState(() => {
+    return new URLSearchParams(window.location.search).get("code")
+      || sessionStorage.getItem(PENDING_JOIN_CODE_KEY)
+      || "";
+  });
+
+  const pendingClassrooms = user?.classrooms?.filter(classroom => classroom.enrollmentStatus === "pending") || [];
+  const hasActiveClassroom = !!user?.classrooms?.some(classroom => classroom.enrollmentStatus === "active");
+
+  const joinMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/join", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      sessionStorage.removeItem(PENDING_JOIN_CODE_KEY);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      setCode("");
+      if (data.enrollment.status === "active") {
+        setLocation("/");
+      }
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to join class",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      toast({
+        title: "Missing Code",
+        description: "Please type the code your teacher gave you.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    joinMutation.mutate(code.trim());
+  };
+
+  const handleLogout = () => {
+    window.location.href = "/api/logout";
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-400 via-purple-500 to-pink-400 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md rounded-3xl shadow-2xl">
+        <CardContent className="p-8">
+          <div className="text-center mb-8">
+            <div className="w-24 h-24 mx-auto bg-gradient-to-br from-purple-400 to-purple-600 rounded-full flex items-center justify-center mb-4">
+              <span className="text-4xl">🏫</span>
+            </div>
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">Join Your Class</h1>
+            <p className="text-gray-600 text-lg">
+              Hi {user?.firstName || "there"}! Type the code your teacher shows you.
+            </p>
+          </div>
+
+          {pendingClassrooms.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-6">
+              {pendingClassrooms.map((classroom) => (
+                <p key={classroom.id} className="text-gray-700">
+                  ⏳ Waiting for your teacher to let you into <span className="font-semibold">{classroom.name}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="ABC123"
+              maxLength={6}
+              autoComplete="off"
+              className="text-center text-3xl font-bold tracking-widest h-16 rounded-xl"
+            />
+            <Button
+              type="submit"
+              disabled={joinMutation.isPending}
+              className="w-full bg-purple-500 hover:bg-purple-600 text-white font-bold py-4 px-6 rounded-xl text-lg"
+              size="lg"
+            >
+              {joinMutation.isPending ? "Joining..." : "Join Class 🎒"}
+            </Button>
+          </form>
+
+          <div className="flex justify-center space-x-3 mt-6">
+            {hasActiveClassroom && (
+              <Button onClick={() => setLocation("/")} variant="outline">
+                Back to My Account
+              </Button>
+            )}
+            <Button onClick={handleLogout} variant="ghost">
+              Logout
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useRef, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Classroom {
+  id: number;
+  name: string;
+  period: string | null;
+  joinCode: string | null;
+  joinCodeExpiresAt: string | null;
+  requireEnrollmentApproval: boolean;
+}
+
+interface EnrollmentRequest {
+  id: number;
+  createdAt: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+}
+
+interface JoinCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  classroom: Classroom | null;
+}
+
+export default function JoinCodeModal({ isOpen, onClose, classroom }: JoinCodeModalProps) {
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const qrRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const enrollmentRequestsUrl = `/api/classrooms/${classroom?.id}/enrollment-requests`;
+
+  const { data: enrollmentRequests = [] } = useQuery<EnrollmentRequest[]>({
+    queryKey: [enrollmentRequestsUrl],
+    enabled: isOpen && !!classroom,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (days: number | null) => {
+      const response = await apiRequest("POST", `/api/classrooms/${classroom!.id}/join-code`, { expiresInDays: days });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create join code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/classrooms/${classroom!.id}/join-code`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+      toast({
+        title: "Success",
+        description: "Join code turned off. Students can no longer use it.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke join code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const approvalSettingMutation = useMutation({
+    mutationFn: async (requireEnrollmentApproval: boolean) => {
+      const response = await apiRequest("PATCH", `/api/classrooms/${classroom!.id}`, { requireEnrollmentApproval });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update class",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ studentId, approve }: { studentId: string; approve: boolean }) => {
+      const response = approve
+        ? await apiRequest("POST", `/api/classrooms/${classroom!.id}/enrollments/${studentId}/approve`)
+        : await apiRequest("DELETE", `/api/classrooms/${classroom!.id}/enrollments/${studentId}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [enrollmentRequestsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!classroom) return null;
+
+  const joinUrl = `${window.location.origin}/join?code=${classroom.joinCode}`;
+  const isExpired = !!classroom.joinCodeExpiresAt && new Date(classroom.joinCodeExpiresAt) < new Date();
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  };
+
+  // Opens a bare page with just the class name, QR code and join code so the teacher can print it for the wall
+  const handlePrint = () => {
+    const qrSvg = qrRef.current?.innerHTML || "";
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <html>
+        <head><title>Join Code</title></head>
+        <body style="font-family: sans-serif; text-align: center; padding: 48px;">
+          <h1 id="classroom-name" style="font-size: 40px; margin-bottom: 8px;"></h1>
+          <p style="font-size: 20px; color: #555;">Scan the code or go to ${window.location.host}/join</p>
+          <div style="margin: 32px auto; width: 320px;">${qrSvg}</div>
+          <p style="font-size: 64px; font-weight: bold; letter-spacing: 12px;">${classroom.joinCode}</p>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    // Set as text so a class name can't inject markup into the print page
+    printWindow.document.getElementById("classroom-name")!.textContent = classroom.name;
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md rounded-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center">
+          <div className="w-16 h-16 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">🔑</span>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-gray-800">Join Code</DialogTitle>
+          <p className="text-gray-600">Students enter this code to join {classroom.name}</p>
+        </DialogHeader>
+
+        {classroom.joinCode ? (
+          <div className="text-center space-y-3">
+            <div ref={qrRef} className="flex justify-center">
+              <QRCodeSVG value={joinUrl} size={200} />
+            </div>
+            <p className="text-4xl font-bold tracking-widest text-gray-800">{classroom.joinCode}</p>
+            <p className={`text-sm ${isExpired ? "text-red-600" : "text-gray-500"}`}>
+              {classroom.joinCodeExpiresAt
+                ? `${isExpired ? "Expired" : "Expires"} ${formatDate(classroom.joinCodeExpiresAt)}`
+                : "Never expires"}
+            </p>
+            <div className="flex justify-center space-x-3">
+              <Button onClick={handlePrint} variant="outline">
+                🖨️ Print
+              </Button>
+              <Button
+                onClick={() => revokeMutation.mutate()}
+                disabled={revokeMutation.isPending}
+                variant="destructive"
+              >
+                🚫 Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-gray-500">This class has no join code right now.</p>
+        )}
+
+        <div className="flex items-end space-x-3">
+          <div className="flex-1">
+            <Label>Code lasts</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 day</SelectItem>
+                <SelectItem value="7">1 week</SelectItem>
+                <SelectItem value="30">30 days</SelectItem>
+                <SelectItem value="never">Until I turn it off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => regenerateMutation.mutate(expiresInDays === "never" ? null : parseInt(expiresInDays))}
+            disabled={regenerateMutation.isPending}
+            className="bg-purple-500 hover:bg-purple-600 text-white"
+          >
+            {classroom.joinCode ? "🔄 New Code" : "Create Code"}
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+          <Label htmlFor="require-approval">Approve students before they join</Label>
+          <Switch
+            id="require-approval"
+            checked={classroom.requireEnrollmentApproval}
+            onCheckedChange={(checked) => approvalSettingMutation.mutate(checked)}
+            disabled={approvalSettingMutation.isPending}
+          />
+        </div>
+
+        {enrollmentRequests.length > 0 && (
+          <div>
+            <h4 className="text-md font-semibold text-purple-600 mb-2">Waiting for approval</h4>
+            <div className="space-y-2">
+              {enrollmentRequests.map((request) => (
+                <div key={request.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                  <div>
+                    <p className="font-semibold text-gray-800">{request.user.firstName} {request.user.lastName}</p>
+                    <p className="text-gray-600 text-sm">{request.user.email}</p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={() => reviewMutation.mutate({ studentId: request.user.id, approve: true })}
+                      disabled={reviewMutation.isPending}
+                      size="sm"
+                      className="bg-secondary hover:bg-green-600 text-white"
+                    >
+                      ✅
+                    </Button>
+                    <Button
+                      onClick={() => reviewMutation.mutate({ studentId: request.user.id, approve: false })}
+                      disabled={reviewMutation.isPending}
+                      size="sm"
+                      variant="destructive"
+                    >
+                      ❌
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,50 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthProvider } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PENDING_JOIN_CODE_KEY } from "@/pages/join-classroom";
 
 export default function Landing() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const authProvider = useAuthProvider();
+  const { toast } = useToast();
+
+  const localLoginMutation = useMutation({
+    mutationFn: async ({ username, password }: { username: string; password: string }) => {
+      const response = await apiRequest("POST", "/api/login/local", { username, password });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: () => {
+      setPassword("");
+      toast({
+        title: "Login Failed",
+        description: "Wrong username or password. Ask your teacher if you forgot it.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLocalLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    localLoginMutation.mutate({ username: username.trim(), password });
+  };
+
   const handleLogin = () => {
+    // Keep a scanned join code across the login redirect
+    const joinCode = new URLSearchParams(window.location.search).get("code");
+    if (joinCode) {
+      sessionStorage.setItem(PENDING_JOIN_CODE_KEY, joinCode);
+    }
     window.location.href = "/api/login";
   };
 
@@ -18,13 +60,48 @@ export default function Landing() {
             <p className="text-gray-600 text-lg">Your Classroom Banking System</p>
           </div>
 
-          <Button 
-            onClick={handleLogin}
-            className="w-full bg-primary hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-lg transition-colors shadow-lg hover:shadow-xl"
-            size="lg"
-          >
-            Login to My Account 🏦
-          </Button>
+          {authProvider === "local" ? (
+            <form onSubmit={handleLocalLogin} className="space-y-4">
+              <div>
+                <Label htmlFor="username" className="text-lg font-semibold text-gray-700">Username</Label>
+                <Input
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoComplete="username"
+                  className="mt-2 text-lg h-12"
+                />
+              </div>
+              <div>
+                <Label htmlFor="password" className="text-lg font-semibold text-gray-700">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className="mt-2 text-lg h-12"
+                />
+              </div>
+              <Button 
+                type="submit"
+                disabled={localLoginMutation.isPending}
+                className="w-full bg-primary hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-lg transition-colors shadow-lg hover:shadow-xl"
+                size="lg"
+              >
+                {localLoginMutation.isPending ? "Logging in..." : "Login to My Account 🏦"}
+              </Button>
+            </form>
+          ) : (
+            <Button 
+              onClick={handleLogin}
+              disabled={!authProvider}
+              className="w-full bg-primary hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-lg transition-colors shadow-lg hover:shadow-xl"
+              size="lg"
+            >
+              Login to My Account 🏦
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
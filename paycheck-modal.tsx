@@ -3,28 +3,50 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 
+interface PayrollLine {
+  student: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  jobs: { id: number; title: string; wage: string }[];
+  amount: string;
+}
+
 interface PaycheckModalProps {
   isOpen: boolean;
   onClose: () => void;
+  classroomId: number | null;
 }
 
-export default function PaycheckModal({ isOpen, onClose }: PaycheckModalProps) {
+export default function PaycheckModal({ isOpen, onClose, classroomId }: PaycheckModalProps) {
+  const [payBy, setPayBy] = useState<"jobs" | "flat">("jobs");
   const [amount, setAmount] = useState("");
+  // One key per intended run, so a double-click or retried request is only applied once
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const { toast } = useToast();
 
+  const { data: payroll, isLoading: payrollLoading } = useQuery<PayrollLine[]>({
+    queryKey: ["/api/payroll-preview", { classroomId }],
+    enabled: isOpen && classroomId !== null && payBy === "jobs",
+  });
+
   const distributePaycheckMutation = useMutation({
-    mutationFn: async (amount: string) => {
-      const response = await apiRequest("POST", "/api/distribute-paycheck", { amount });
+    mutationFn: async (amount?: string) => {
+      const response = await apiRequest("POST", "/api/distribute-paycheck", { classroomId, payBy, amount, idempotencyKey });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/students"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
       toast({
         title: "Success",
         description: data.message,
@@ -53,6 +75,11 @@ export default function PaycheckModal({ isOpen, onClose }: PaycheckModalProps) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (payBy === "jobs") {
+      distributePaycheckMutation.mutate(undefined);
+      return;
+    }
     
     if (!amount) {
       toast({
@@ -77,44 +104,98 @@ export default function PaycheckModal({ isOpen, onClose }: PaycheckModalProps) {
     distributePaycheckMutation.mutate(amountNum.toFixed(2));
   };
 
+  const handlePayByChange = (value: string) => {
+    setPayBy(value as "jobs" | "flat");
+    setIdempotencyKey(crypto.randomUUID());
+  };
+
   const handleClose = () => {
+    setPayBy("jobs");
     setAmount("");
+    setIdempotencyKey(crypto.randomUUID());
     onClose();
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md rounded-3xl">
+      <DialogContent className="sm:max-w-2xl rounded-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader className="text-center">
           <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <span className="text-3xl">💰</span>
           </div>
           <DialogTitle className="text-2xl font-bold text-gray-800">Distribute Paycheck</DialogTitle>
-          <p className="text-gray-600">Give all students their weekly paycheck</p>
+          <p className="text-gray-600">Pay students for their jobs, or give everyone the same amount</p>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <Label htmlFor="amount" className="text-lg font-semibold text-gray-700 flex items-center">
-              💵 Paycheck Amount (per student)
-            </Label>
-            <div className="relative mt-2">
-              <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-xl font-bold text-gray-500">$</span>
-              <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                min="0.01"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                className="pl-10 text-lg h-12"
-                placeholder="15.00"
-              />
-            </div>
-            <p className="text-sm text-gray-500 mt-2">
-              This amount will be added to each student's account.
-            </p>
-          </div>
+          <Tabs value={payBy} onValueChange={handlePayByChange}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="jobs">💼 By Job</TabsTrigger>
+              <TabsTrigger value="flat">💵 Same for Everyone</TabsTrigger>
+            </TabsList>
+            <TabsContent value="jobs">
+              {payrollLoading ? (
+                <p className="text-center text-gray-500 py-4">Loading payroll...</p>
+              ) : payroll && payroll.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Jobs</TableHead>
+                      <TableHead className="text-right">Pay</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payroll.map((line) => (
+                      <TableRow key={line.student.id} className={line.jobs.length === 0 ? "text-gray-400" : undefined}>
+                        <TableCell>{line.student.firstName} {line.student.lastName}</TableCell>
+                        <TableCell>
+                          {line.jobs.length > 0
+                            ? line.jobs.map(job => `${job.title} ($${job.wage})`).join(", ")
+                            : "No job"}
+                        </TableCell>
+                        <TableCell className="text-right">${line.amount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2}>Total</TableCell>
+                      <TableCell className="text-right">
+                        ${payroll.reduce((total, line) => total + parseFloat(line.amount), 0).toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              ) : (
+                <p className="text-center text-gray-500 py-4">No students in this class yet.</p>
+              )}
+            </TabsContent>
+            <TabsContent value="flat">
+              <Label htmlFor="amount" className="text-lg font-semibold text-gray-700 flex items-center">
+                💵 Paycheck Amount (per student)
+              </Label>
+              <div className="relative mt-2">
+                <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-xl font-bold text-gray-500">$</span>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => {
+                    setAmount(e.target.value);
+                    setIdempotencyKey(crypto.randomUUID());
+                  }}
+                  className="pl-10 text-lg h-12"
+                  placeholder="15.00"
+                />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                This amount will be added to each student's account.
+              </p>
+            </TabsContent>
+          </Tabs>
 
           <div className="flex space-x-4">
             <Button 
@@ -0,0 +1,75 @@
+// Roles and the permissions they grant, shared by the server (enforcement) and the client (hiding what a user
+// cannot do). `users.role` holds one of USER_ROLES; classroom staff roles are granted per classroom on top of it.
+
+export const USER_ROLES = ["student", "teacher", "co-teacher", "school-admin", "parent"] as const;
+export const CLASSROOM_STAFF_ROLES = ["co-teacher", "student-banker"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+export type ClassroomStaffRole = typeof CLASSROOM_STAFF_ROLES[number];
+export type Role = UserRole | ClassroomStaffRole;
+
+export const PERMISSIONS = [
+  "manage_classrooms",
+  "manage_students",
+  "view_students",
+  "adjust_balances",
+  "post_quick_actions",
+  "approve_withdrawals",
+  "run_payroll",
+  "view_reports",
+  "manage_roles",
+  "use_own_account",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Finishes the sentence "You don't have permission to ..."
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  manage_classrooms: "manage classes",
+  manage_students: "manage students",
+  view_students: "view students",
+  adjust_balances: "adjust balances",
+  post_quick_actions: "post quick rewards and fines",
+  approve_withdrawals: "approve withdrawals",
+  run_payroll: "run payroll",
+  view_reports: "view reports",
+  manage_roles: "change user roles",
+  use_own_account: "use a student account",
+};
+
+// The powers a teacher can hand to a student banker; each grant picks some of these
+export const STUDENT_BANKER_POWERS = ["view_students", "approve_withdrawals", "post_quick_actions"] as const;
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  "student": ["use_own_account"],
+  "teacher": [
+    "manage_classrooms",
+    "manage_students",
+    "view_students",
+    "adjust_balances",
+    "post_quick_actions",
+    "approve_withdrawals",
+    "run_payroll",
+    "view_reports",
+  ],
+  // Only within the classrooms they were added to
+  "co-teacher": [
+    "manage_students",
+    "view_students",
+    "adjust_balances",
+    "post_quick_actions",
+    "approve_withdrawals",
+    "run_payroll",
+    "view_reports",
+  ],
+  // A student helping run one class; they keep their own account through the student role
+  "student-banker": STUDENT_BANKER_POWERS,
+  // Every classroom in the school, but no money movement
+  "school-admin": ["manage_classrooms", "manage_students", "view_students", "view_reports", "manage_roles"],
+  // No parent-facing features yet
+  "parent": [],
+};
+
+export function getRolePermissions(...roles: Role[]): Permission[] {
+  return Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role] ?? [])));
+}
@@ -0,0 +1,28 @@
+import { Button } from "@/components/ui/button";
+
+// Order matters: picture passwords are stored as indexes into this list
+export const PICTURES = ["🐶", "🐱", "🦊", "🐸", "🐵", "🐼", "🦁", "🐷", "🐰"];
+
+interface PictureGridProps {
+  onPick: (index: number) => void;
+  disabled?: boolean;
+}
+
+export default function PictureGrid({ onPick, disabled }: PictureGridProps) {
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {PICTURES.map((picture, index) => (
+        <Button
+          key={picture}
+          type="button"
+          onClick={() => onPick(index)}
+          disabled={disabled}
+          variant="outline"
+          className="h-20 text-4xl rounded-2xl"
+        >
+          {picture}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -29,7 +29,12 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    // An optional second key segment holds query string params, e.g. ["/api/students", { classroomId }]
+    const [url, params] = queryKey as [string, Record<string, string | number> | undefined];
+    const search = params
+      ? `?${new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]))}`
+      : "";
+    const res = await fetch(url + search, {
       credentials: "include",
     });
 
@@ -6,12 +6,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trash2 } from "lucide-react";
+import { QUICK_REWARDS, QUICK_FINES } from "@shared/quickActions";
 
 interface Student {
   id: string;
@@ -26,6 +28,9 @@ interface QuickActionsModalProps {
   isOpen: boolean;
   onClose: () => void;
   student: Student | null;
+  classroomId: number | null;
+  // Student bankers can only post the built-in and custom actions, not free-form amounts
+  canAdjust: boolean;
 }
 
 interface CustomAction {
@@ -35,21 +40,7 @@ interface CustomAction {
   type: "reward" | "fine";
 }
 
-const QUICK_REWARDS = [
-  { name: "Class Helper", amount: "10.00", icon: "🏆" },
-  { name: "Green Folder Returned", amount: "5.00", icon: "📁" },
-  { name: "All Paperwork Returned", amount: "50.00", icon: "📋" },
-  { name: "Signed Forms Returned", amount: "20.00", icon: "✅" },
-  { name: "Perfect Weekly Attendance", amount: "20.00", icon: "⭐" },
-];
-
-const QUICK_FINES = [
-  { name: "Talking Back", amount: "20.00", icon: "🗣️" },
-  { name: "Removed from Class", amount: "50.00", icon: "🚪" },
-  { name: "Cheating/Fighting/Office", amount: "100.00", icon: "⚠️" },
-];
-
-export default function QuickActionsModal({ isOpen, onClose, student }: QuickActionsModalProps) {
+export default function QuickActionsModal({ isOpen, onClose, student, classroomId, canAdjust }: QuickActionsModalProps) {
   const [customAmount, setCustomAmount] = useState("");
   const [customDescription, setCustomDescription] = useState("");
   const [newActionName, setNewActionName] = useState("");
@@ -59,24 +50,17 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
 
   // Fetch custom actions
   const { data: customActions = [] } = useQuery<CustomAction[]>({
-    queryKey: ["/api/custom-actions"],
-    enabled: isOpen,
+    queryKey: ["/api/custom-actions", { classroomId }],
+    enabled: isOpen && !!classroomId,
   });
 
   const quickActionMutation = useMutation({
-    mutationFn: async ({ amount, description, type }: { 
-      amount: string; 
-      description: string; 
-      type: "add" | "subtract";
-    }) => {
+    mutationFn: async (action: { preset: string } | { customActionId: number } | { amount: string; description: string }) => {
       if (!student) throw new Error("No student selected");
       
-      const response = await apiRequest("POST", "/api/adjust-balance", {
-        userId: student.id,
-        amount,
-        description,
-        type,
-      });
+      const response = "amount" in action
+        ? await apiRequest("POST", "/api/adjust-balance", { studentId: student.id, ...action, type: "add" })
+        : await apiRequest("POST", "/api/quick-actions", { studentId: student.id, classroomId, ...action });
       return response.json();
     },
     onSuccess: (data) => {
@@ -85,6 +69,11 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
       toast({
         title: "Success",
         description: data.message,
+        action: canAdjust ? (
+          <ToastAction altText="Undo" onClick={() => undoMutation.mutate(data.transaction.id)}>
+            Undo
+          </ToastAction>
+        ) : undefined,
       });
       handleClose();
     },
@@ -108,9 +97,43 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
     },
   });
 
+  const undoMutation = useMutation({
+    mutationFn: async (transactionId: number) => {
+      const response = await apiRequest("POST", `/api/transactions/${transactionId}/reverse`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Undone",
+        description: "The last action was reversed.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to undo action",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createCustomActionMutation = useMutation({
     mutationFn: async ({ name, amount, type }: { name: string; amount: string; type: "reward" | "fine" }) => {
       const response = await apiRequest("POST", "/api/custom-actions", {
+        classroomId,
         name,
         amount,
         type,
@@ -179,10 +202,6 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
     },
   });
 
-  const handleQuickAction = (amount: string, description: string, type: "add" | "subtract") => {
-    quickActionMutation.mutate({ amount, description, type });
-  };
-
   const handleCustomAction = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -208,7 +227,6 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
     quickActionMutation.mutate({
       amount: amountNum.toFixed(2),
       description: customDescription,
-      type: "add",
     });
   };
 
@@ -272,11 +290,11 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
         </DialogHeader>
 
         <Tabs defaultValue="rewards" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className={`grid w-full ${canAdjust ? "grid-cols-4" : "grid-cols-3"}`}>
             <TabsTrigger value="rewards">💰 Rewards</TabsTrigger>
             <TabsTrigger value="fines">📉 Fines</TabsTrigger>
-            <TabsTrigger value="my-actions">⭐ My Actions</TabsTrigger>
-            <TabsTrigger value="custom">✏️ Custom</TabsTrigger>
+            <TabsTrigger value="my-actions">⭐ {canAdjust ? "My Actions" : "Class Actions"}</TabsTrigger>
+            {canAdjust && <TabsTrigger value="custom">✏️ Custom</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="rewards" className="space-y-4 mt-6">
@@ -294,7 +312,7 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
                         </div>
                       </div>
                       <Button
-                        onClick={() => handleQuickAction(reward.amount, reward.name, "add")}
+                        onClick={() => quickActionMutation.mutate({ preset: reward.name })}
                         disabled={quickActionMutation.isPending}
                         className="bg-green-500 hover:bg-green-600 text-white"
                       >
@@ -322,7 +340,7 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
                         </div>
                       </div>
                       <Button
-                        onClick={() => handleQuickAction(fine.amount, fine.name, "subtract")}
+                        onClick={() => quickActionMutation.mutate({ preset: fine.name })}
                         disabled={quickActionMutation.isPending}
                         className="bg-red-500 hover:bg-red-600 text-white"
                       >
@@ -337,7 +355,7 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
 
           <TabsContent value="my-actions" className="space-y-4 mt-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-purple-600">Your Custom Actions</h3>
+              <h3 className="text-lg font-semibold text-purple-600">Custom Actions</h3>
               <p className="text-sm text-gray-500">{customActions.length} custom actions</p>
             </div>
 
@@ -364,20 +382,22 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
                             </div>
                             <div className="flex space-x-2">
                               <Button
-                                onClick={() => handleQuickAction(action.amount, action.name, "add")}
+                                onClick={() => quickActionMutation.mutate({ customActionId: action.id })}
                                 disabled={quickActionMutation.isPending}
                                 className="bg-green-500 hover:bg-green-600 text-white"
                               >
                                 Add
                               </Button>
-                              <Button
-                                onClick={() => deleteCustomActionMutation.mutate(action.id)}
-                                disabled={deleteCustomActionMutation.isPending}
-                                variant="outline"
-                                size="sm"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {canAdjust && (
+                                <Button
+                                  onClick={() => deleteCustomActionMutation.mutate(action.id)}
+                                  disabled={deleteCustomActionMutation.isPending}
+                                  variant="outline"
+                                  size="sm"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardContent>
@@ -402,20 +422,22 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
                             </div>
                             <div className="flex space-x-2">
                               <Button
-                                onClick={() => handleQuickAction(action.amount, action.name, "subtract")}
+                                onClick={() => quickActionMutation.mutate({ customActionId: action.id })}
                                 disabled={quickActionMutation.isPending}
                                 className="bg-red-500 hover:bg-red-600 text-white"
                               >
                                 Deduct
                               </Button>
-                              <Button
-                                onClick={() => deleteCustomActionMutation.mutate(action.id)}
-                                disabled={deleteCustomActionMutation.isPending}
-                                variant="outline"
-                                size="sm"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {canAdjust && (
+                                <Button
+                                  onClick={() => deleteCustomActionMutation.mutate(action.id)}
+                                  disabled={deleteCustomActionMutation.isPending}
+                                  variant="outline"
+                                  size="sm"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardContent>
@@ -426,57 +448,59 @@ export default function QuickActionsModal({ isOpen, onClose, student }: QuickAct
               </div>
             )}
 
-            <Card className="border-dashed border-2 border-purple-300">
-              <CardContent className="p-6">
-                <h4 className="text-md font-semibold text-purple-600 mb-4">Create New Quick Action</h4>
-                <form onSubmit={handleCreateCustomAction} className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="action-name">Action Name</Label>
-                      <Input
-                        id="action-name"
-                        value={newActionName}
-                        onChange={(e) => setNewActionName(e.target.value)}
-                        placeholder="e.g., Homework Complete"
-                        className="mt-1"
-                      />
+            {canAdjust && (
+              <Card className="border-dashed border-2 border-purple-300">
+                <CardContent className="p-6">
+                  <h4 className="text-md font-semibold text-purple-600 mb-4">Create New Quick Action</h4>
+                  <form onSubmit={handleCreateCustomAction} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="action-name">Action Name</Label>
+                        <Input
+                          id="action-name"
+                          value={newActionName}
+                          onChange={(e) => setNewActionName(e.target.value)}
+                          placeholder="e.g., Homework Complete"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="action-amount">Amount ($)</Label>
+                        <Input
+                          id="action-amount"
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={newActionAmount}
+                          onChange={(e) => setNewActionAmount(e.target.value)}
+                          placeholder="0.00"
+                          className="mt-1"
+                        />
+                      </div>
                     </div>
                     <div>
-                      <Label htmlFor="action-amount">Amount ($)</Label>
-                      <Input
-                        id="action-amount"
-                        type="number"
-                        step="0.01"
-                        min="0.01"
-                        value={newActionAmount}
-                        onChange={(e) => setNewActionAmount(e.target.value)}
-                        placeholder="0.00"
-                        className="mt-1"
-                      />
+                      <Label htmlFor="action-type">Action Type</Label>
+                      <Select value={newActionType} onValueChange={(value: "reward" | "fine") => setNewActionType(value)}>
+                        <SelectTrigger className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="reward">💰 Reward (Add Money)</SelectItem>
+                          <SelectItem value="fine">📉 Fine (Subtract Money)</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
-                  </div>
-                  <div>
-                    <Label htmlFor="action-type">Action Type</Label>
-                    <Select value={newActionType} onValueChange={(value: "reward" | "fine") => setNewActionType(value)}>
-                      <SelectTrigger className="mt-1">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="reward">💰 Reward (Add Money)</SelectItem>
-                        <SelectItem value="fine">📉 Fine (Subtract Money)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <Button
-                    type="submit"
-                    disabled={createCustomActionMutation.isPending || !newActionName || !newActionAmount}
-                    className="w-full bg-purple-500 hover:bg-purple-600 text-white"
-                  >
-                    {createCustomActionMutation.isPending ? "Creating..." : "Create Quick Action"}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                    <Button
+                      type="submit"
+                      disabled={createCustomActionMutation.isPending || !newActionName || !newActionAmount}
+                      className="w-full bg-purple-500 hover:bg-purple-600 text-white"
+                    >
+                      {createCustomActionMutation.isPending ? "Creating..." : "Create Quick Action"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           <TabsContent value="custom" className="space-y-4 mt-6">
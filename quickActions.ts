@@ -0,0 +1,15 @@
+// Built-in rewards and fines offered in every classroom. Student bankers may only post these and the
+// classroom's custom actions, so the server looks them up by name rather than trusting a posted amount.
+export const QUICK_REWARDS = [
+  { name: "Class Helper", amount: "10.00", icon: "🏆" },
+  { name: "Green Folder Returned", amount: "5.00", icon: "📁" },
+  { name: "All Paperwork Returned", amount: "50.00", icon: "📋" },
+  { name: "Signed Forms Returned", amount: "20.00", icon: "✅" },
+  { name: "Perfect Weekly Attendance", amount: "20.00", icon: "⭐" },
+];
+
+export const QUICK_FINES = [
+  { name: "Talking Back", amount: "20.00", icon: "🗣️" },
+  { name: "Removed from Class", amount: "50.00", icon: "🚪" },
+  { name: "Cheating/Fighting/Office", amount: "100.00", icon: "⚠️" },
+];
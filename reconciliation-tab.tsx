@@ -0,0 +1,151 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface ReconciliationAccount {
+  accountId: number;
+  kind: string;
+  userId: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  cachedBalance: string;
+  ledgerBalance: string;
+  difference: string;
+}
+
+interface ReconciliationReport {
+  accounts: ReconciliationAccount[];
+  mismatchedAccounts: number;
+  unbalancedEntries: { journalEntryId: number; total: string }[];
+}
+
+export default function ReconciliationTab({
+  classroomId,
+  canRepair,
+  canRepairTreasury,
+}: {
+  classroomId: number;
+  canRepair: boolean;
+  canRepairTreasury: boolean;
+}) {
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<ReconciliationReport>({
+    queryKey: ["/api/reconciliation", { classroomId }],
+    retry: false,
+  });
+
+  const repairMutation = useMutation({
+    mutationFn: async (accountId: number) => {
+      const response = await apiRequest("POST", `/api/reconciliation/${accountId}/repair`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reconciliation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to repair balance",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getAccountName = (account: ReconciliationAccount) => {
+    if (account.kind === "treasury") return "Classroom Treasury";
+    const name = `${account.firstName || ""} ${account.lastName || ""}`.trim() || "Student";
+    return account.kind === "savings" ? `${name} (Savings)` : name;
+  };
+
+  const mismatches = report?.accounts.filter(account => parseFloat(account.difference) !== 0) || [];
+
+  return (
+    <CardContent className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-gray-800">Reconciliation</h3>
+        <Button
+          onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/reconciliation"] })}
+          variant="outline"
+        >
+          🔄 Re-check
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Checking the ledger...</p>
+        </div>
+      ) : !report ? null : (
+        <div className="space-y-6">
+          <p className="text-gray-600">
+            {report.accounts.length} accounts checked • {report.mismatchedAccounts} mismatched •{" "}
+            {report.unbalancedEntries.length} unbalanced entries
+          </p>
+
+          {mismatches.length > 0 ? (
+            <div className="space-y-4">
+              {mismatches.map((account) => (
+                <div key={account.accountId} className="bg-red-50 border border-red-200 rounded-xl p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-semibold text-gray-800">{getAccountName(account)}</p>
+                      <p className="text-gray-600 text-sm">
+                        Shown balance: ${account.cachedBalance} • Ledger total: ${account.ledgerBalance} • Off by ${account.difference}
+                      </p>
+                    </div>
+                    {(account.kind === "treasury" ? canRepairTreasury : canRepair) && (
+                      <Button
+                        onClick={() => repairMutation.mutate(account.accountId)}
+                        disabled={repairMutation.isPending}
+                        className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                      >
+                        🔧 Repair
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              <span className="text-4xl mb-4 block">✅</span>
+              <p className="text-lg">All balances match the ledger</p>
+            </div>
+          )}
+
+          {report.unbalancedEntries.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
+              <p className="font-semibold text-gray-800 mb-2">Unbalanced journal entries</p>
+              {report.unbalancedEntries.map((entry) => (
+                <p key={entry.journalEntryId} className="text-gray-600 text-sm">
+                  Entry #{entry.journalEntryId} is off by ${entry.total}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </CardContent>
+  );
+}
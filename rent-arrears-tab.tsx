@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface RentArrears {
+  student: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  balance: string;
+  unit: { id: number; name: string; rent: string } | null;
+  owed: string;
+}
+
+export default function RentArrearsTab({ classroomId }: { classroomId: number }) {
+  const { data: arrears, isLoading } = useQuery<RentArrears[]>({
+    queryKey: ["/api/rent-arrears", { classroomId }],
+  });
+
+  const totalOwed = arrears?.reduce((total, line) => total + parseFloat(line.owed), 0) ?? 0;
+
+  return (
+    <CardContent className="p-6">
+      <h3 className="text-2xl font-bold text-gray-800 mb-2">Owed Rent</h3>
+      <p className="text-gray-600 mb-6">
+        Rent students couldn't pay when it was due. Each rent run tries to collect it along with the new rent.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : arrears && arrears.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Student</TableHead>
+              <TableHead>Lives in</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+              <TableHead className="text-right">Owes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {arrears.map((line) => (
+              <TableRow key={line.student.id}>
+                <TableCell>{line.student.firstName} {line.student.lastName}</TableCell>
+                <TableCell className="text-gray-600">{line.unit ? line.unit.name : "—"}</TableCell>
+                <TableCell className="text-right">${line.balance}</TableCell>
+                <TableCell className="text-right font-semibold text-red-600">${line.owed}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={3}>Total owed</TableCell>
+              <TableCell className="text-right">${totalOwed.toFixed(2)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">🧾</span>
+          <p className="text-lg">Everyone is paid up</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
@@ -4,28 +4,56 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 
+interface RentRollLine {
+  student: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  unit: { id: number; name: string; rent: string; ownerId: string | null } | null;
+  owed: string;
+}
+
+// Students who own the housing they live in don't pay rent for it
+const rentDue = (line: RentRollLine) =>
+  line.unit && line.unit.ownerId !== line.student.id ? line.unit.rent : "0.00";
+
 interface RentCollectionModalProps {
   isOpen: boolean;
   onClose: () => void;
+  classroomId: number | null;
 }
 
-export default function RentCollectionModal({ isOpen, onClose }: RentCollectionModalProps) {
+export default function RentCollectionModal({ isOpen, onClose, classroomId }: RentCollectionModalProps) {
+  const [chargeBy, setChargeBy] = useState<"housing" | "flat">("housing");
   const [rentAmount, setRentAmount] = useState("50.00");
+  // Reused across retries of the same collection so nobody is charged twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const { toast } = useToast();
 
+  const { data: rentRoll, isLoading: rentRollLoading } = useQuery<RentRollLine[]>({
+    queryKey: ["/api/rent-preview", { classroomId }],
+    enabled: isOpen && classroomId !== null,
+  });
+
   const collectRentMutation = useMutation({
-    mutationFn: async (amount: string) => {
-      const response = await apiRequest("POST", "/api/collect-rent", { amount });
+    mutationFn: async (amount?: string) => {
+      const response = await apiRequest("POST", "/api/collect-rent", { classroomId, chargeBy, amount, idempotencyKey });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/students"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rent-preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rent-arrears"] });
       toast({
         title: "Success",
         description: data.message,
@@ -54,6 +82,11 @@ export default function RentCollectionModal({ isOpen, onClose }: RentCollectionM
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (chargeBy === "housing") {
+      collectRentMutation.mutate(undefined);
+      return;
+    }
     
     if (!rentAmount) {
       toast({
@@ -78,20 +111,27 @@ export default function RentCollectionModal({ isOpen, onClose }: RentCollectionM
     collectRentMutation.mutate(amountNum.toFixed(2));
   };
 
+  const handleChargeByChange = (value: string) => {
+    setChargeBy(value as "housing" | "flat");
+    setIdempotencyKey(crypto.randomUUID());
+  };
+
   const handleClose = () => {
+    setChargeBy("housing");
     setRentAmount("50.00");
+    setIdempotencyKey(crypto.randomUUID());
     onClose();
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md rounded-3xl">
+      <DialogContent className="sm:max-w-2xl rounded-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader className="text-center">
           <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <span className="text-3xl">🏠</span>
           </div>
           <DialogTitle className="text-2xl font-bold text-gray-800">Collect Monthly Rent</DialogTitle>
-          <p className="text-gray-600">Deduct rent from all student accounts</p>
+          <p className="text-gray-600">Charge each student for their housing, or everyone the same amount</p>
         </DialogHeader>
         
         <Card className="bg-orange-50 border-orange-200">
@@ -99,35 +139,86 @@ export default function RentCollectionModal({ isOpen, onClose }: RentCollectionM
             <div className="text-center">
               <p className="text-orange-800 font-semibold">⚠️ Important</p>
               <p className="text-orange-700 text-sm mt-1">
-                This will deduct the rent amount from ALL student accounts at once. 
-                Students with insufficient funds will have their balance go to $0.00.
+                This will deduct rent, plus any rent still owed, from ALL student accounts at once.
+                Students with insufficient funds will have their balance go to $0.00 and owe the rest.
               </p>
             </div>
           </CardContent>
         </Card>
         
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <Label htmlFor="rentAmount" className="text-lg font-semibold text-gray-700 flex items-center">
-              🏠 Monthly Rent Amount
-            </Label>
-            <div className="relative mt-2">
-              <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-xl font-bold text-gray-500">$</span>
-              <Input
-                id="rentAmount"
-                type="number"
-                step="0.01"
-                min="0.01"
-                value={rentAmount}
-                onChange={(e) => setRentAmount(e.target.value)}
-                className="pl-10 text-lg h-12"
-                placeholder="50.00"
-              />
-            </div>
-            <p className="text-sm text-gray-500 mt-2">
-              Typical classroom rent is $50.00 per month
-            </p>
-          </div>
+          <Tabs value={chargeBy} onValueChange={handleChargeByChange}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="housing">🏠 By Housing</TabsTrigger>
+              <TabsTrigger value="flat">💵 Same for Everyone</TabsTrigger>
+            </TabsList>
+            <TabsContent value="housing">
+              {rentRollLoading ? (
+                <p className="text-center text-gray-500 py-4">Loading rent...</p>
+              ) : rentRoll && rentRoll.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Lives in</TableHead>
+                      <TableHead className="text-right">Rent</TableHead>
+                      <TableHead className="text-right">Owed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rentRoll.map((line) => (
+                      <TableRow key={line.student.id} className={line.unit ? undefined : "text-gray-400"}>
+                        <TableCell>{line.student.firstName} {line.student.lastName}</TableCell>
+                        <TableCell>{line.unit ? line.unit.name : "No housing"}</TableCell>
+                        <TableCell className="text-right">
+                          ${rentDue(line)}
+                          {line.unit?.ownerId === line.student.id && <span className="text-gray-500 text-sm"> (owns it)</span>}
+                        </TableCell>
+                        <TableCell className={`text-right ${parseFloat(line.owed) > 0 ? "text-red-600" : ""}`}>${line.owed}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2}>Total</TableCell>
+                      <TableCell className="text-right">
+                        ${rentRoll.reduce((total, line) => total + parseFloat(rentDue(line)), 0).toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        ${rentRoll.reduce((total, line) => total + parseFloat(line.owed), 0).toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              ) : (
+                <p className="text-center text-gray-500 py-4">No students in this class yet.</p>
+              )}
+            </TabsContent>
+            <TabsContent value="flat">
+              <Label htmlFor="rentAmount" className="text-lg font-semibold text-gray-700 flex items-center">
+                🏠 Monthly Rent Amount
+              </Label>
+              <div className="relative mt-2">
+                <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-xl font-bold text-gray-500">$</span>
+                <Input
+                  id="rentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={rentAmount}
+                  onChange={(e) => {
+                    setRentAmount(e.target.value);
+                    setIdempotencyKey(crypto.randomUUID());
+                  }}
+                  className="pl-10 text-lg h-12"
+                  placeholder="50.00"
+                />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                Typical classroom rent is $50.00 per month
+              </p>
+            </TabsContent>
+          </Tabs>
 
           <div className="flex space-x-4">
             <Button 
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface RosterPreviewRow {
+  line: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  startingBalance: string | null;
+  period: string | null;
+  errors: string[];
+  duplicate: string | null;
+}
+
+interface RosterPreview {
+  rows: RosterPreviewRow[];
+  errorCount: number;
+  duplicateCount: number;
+  importCount: number;
+}
+
+interface RosterImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  classroomId: number | null;
+}
+
+export default function RosterImportModal({ isOpen, onClose, classroomId }: RosterImportModalProps) {
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<RosterPreview | null>(null);
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const response = await apiRequest("POST", "/api/roster/preview", { classroomId, csv });
+      return response.json();
+    },
+    onSuccess: (data: RosterPreview) => {
+      setPreview(data);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const response = await apiRequest("POST", "/api/roster/import", { classroomId, csv });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setCsv(text);
+    previewMutation.mutate(text);
+  };
+
+  const handleClose = () => {
+    setCsv("");
+    setPreview(null);
+    onClose();
+  };
+
+  const getRowStatus = (row: RosterPreviewRow) => {
+    if (row.errors.length > 0) return { className: "bg-red-50", label: `❌ ${row.errors.join("; ")}` };
+    if (row.duplicate) return { className: "bg-yellow-50", label: `⏭️ ${row.duplicate}` };
+    return { className: "", label: "✅ Ready" };
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-3xl rounded-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center">
+          <div className="w-16 h-16 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">📋</span>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-gray-800">Import Roster</DialogTitle>
+          <p className="text-gray-600">
+            Upload a CSV with columns First Name, Last Name, Email, Balance and Period. Only the names are required.
+          </p>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="roster-file">CSV File</Label>
+          <Input
+            id="roster-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            className="mt-1"
+          />
+        </div>
+
+        {previewMutation.isPending && (
+          <p className="text-center text-gray-500">Checking the roster...</p>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              {preview.importCount} to add • {preview.duplicateCount} already on the roster • {preview.errorCount} with problems
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row) => {
+                  const status = getRowStatus(row);
+                  return (
+                    <TableRow key={row.line} className={status.className}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.firstName} {row.lastName}</TableCell>
+                      <TableCell>{row.email}</TableCell>
+                      <TableCell>{row.startingBalance && `$${row.startingBalance}`}</TableCell>
+                      <TableCell>{row.period}</TableCell>
+                      <TableCell>{status.label}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex space-x-4">
+          <Button
+            type="button"
+            onClick={handleClose}
+            variant="outline"
+            className="flex-1 h-12 text-lg"
+            disabled={importMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(csv)}
+            className="flex-1 bg-purple-500 hover:bg-purple-600 text-white h-12 text-lg"
+            disabled={!preview || preview.errorCount > 0 || preview.importCount === 0 || importMutation.isPending}
+          >
+            {importMutation.isPending ? "Importing..." : `Import ${preview?.importCount ?? 0} Students`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface SavingsSettings {
+  interestRate: string;
+  minimumBalance: string | null;
+  withdrawalLimit: number | null;
+  withdrawalPeriod: "week" | "month";
+}
+
+interface InterestPreviewLine {
+  student: { id: string; firstName: string | null; lastName: string | null };
+  balance: string;
+  amount: string;
+}
+
+export default function SavingsTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+  const [interestRate, setInterestRate] = useState("");
+  const [minimumBalance, setMinimumBalance] = useState("");
+  const [withdrawalLimit, setWithdrawalLimit] = useState("");
+  const [withdrawalPeriod, setWithdrawalPeriod] = useState<"week" | "month">("week");
+
+  const { data: settings, isLoading: settingsLoading } = useQuery<SavingsSettings | null>({
+    queryKey: ["/api/savings-settings", { classroomId }],
+  });
+
+  const { data: preview, isLoading: previewLoading } = useQuery<InterestPreviewLine[]>({
+    queryKey: ["/api/interest-preview", { classroomId }],
+  });
+
+  // Start the form from what's saved
+  useEffect(() => {
+    setInterestRate(settings?.interestRate ?? "");
+    setMinimumBalance(settings?.minimumBalance ?? "");
+    setWithdrawalLimit(settings?.withdrawalLimit ? String(settings.withdrawalLimit) : "");
+    setWithdrawalPeriod(settings?.withdrawalPeriod ?? "week");
+  }, [settings]);
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/savings-settings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/interest-preview"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/savings-settings", {
+        classroomId,
+        interestRate: parseFloat(interestRate).toFixed(2),
+        minimumBalance: minimumBalance ? parseFloat(minimumBalance).toFixed(2) : null,
+        withdrawalLimit: withdrawalLimit ? parseInt(withdrawalLimit) : null,
+        withdrawalPeriod,
+      });
+      return response.json();
+    },
+    onSuccess: () => handleSuccess("Savings settings saved 🐖"),
+    onError: (error) => handleError(error, "Failed to save savings settings"),
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pay-interest", { classroomId });
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to pay interest"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(interestRate);
+    if (isNaN(rate) || rate < 0) {
+      toast({
+        title: "Invalid Rate",
+        description: "Enter the interest rate paid each run, in percent.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate();
+  };
+
+  const totalInterest = (preview || []).reduce((sum, line) => sum + parseFloat(line.amount), 0);
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Savings</h3>
+        {settingsLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg">Loading...</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="savings-rate">Interest per run (%)</Label>
+                <Input
+                  id="savings-rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={interestRate}
+                  onChange={(e) => setInterestRate(e.target.value)}
+                  placeholder="2.00"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="savings-minimum">Minimum balance to earn</Label>
+                <Input
+                  id="savings-minimum"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={minimumBalance}
+                  onChange={(e) => setMinimumBalance(e.target.value)}
+                  placeholder="None"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="savings-limit">Withdrawals allowed</Label>
+                <Input
+                  id="savings-limit"
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={withdrawalLimit}
+                  onChange={(e) => setWithdrawalLimit(e.target.value)}
+                  placeholder="No limit"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Per</Label>
+                <Select value={withdrawalPeriod} onValueChange={(value) => setWithdrawalPeriod(value as "week" | "month")}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="week">Week</SelectItem>
+                    <SelectItem value="month">Month</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-gray-600 text-sm">Add a 📈 Savings interest schedule on the Schedules tab to pay interest automatically.</p>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-xl font-bold text-gray-800">Next Interest Run</h4>
+          {settings && (
+            <Button
+              onClick={() => payMutation.mutate()}
+              disabled={payMutation.isPending || totalInterest <= 0}
+              className="bg-secondary hover:bg-green-600 text-white font-semibold"
+            >
+              {payMutation.isPending ? "Paying..." : `📈 Pay $${totalInterest.toFixed(2)} Interest Now`}
+            </Button>
+          )}
+        </div>
+
+        {previewLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg">Loading...</p>
+          </div>
+        ) : preview && preview.length > 0 ? (
+          <div className="space-y-2">
+            {preview.map((line) => (
+              <div key={line.student.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <p className="text-gray-800">{`${line.student.firstName || ""} ${line.student.lastName || ""}`.trim() || "Student"}</p>
+                <p className="text-gray-600 text-sm">
+                  ${line.balance} saved • {settings?.minimumBalance && parseFloat(line.balance) < parseFloat(settings.minimumBalance)
+                    ? "below the minimum"
+                    : `earns $${line.amount}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <span className="text-4xl mb-4 block">🐖</span>
+            <p className="text-lg">No savings accounts yet. Students open them from their dashboard.</p>
+          </div>
+        )}
+      </div>
+    </CardContent>
+  );
+}
@@ -0,0 +1,443 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+export interface PayrollSchedule {
+  id: number;
+  kind: ScheduleKind;
+  payBy: PayBy;
+  amount: string | null;
+  frequency: "weekly" | "monthly";
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  timeOfDay: string;
+  skipDates: string[];
+  noSchoolDays: NoSchoolDays;
+  active: boolean;
+  lastRunOn: string | null;
+  lastBatchId: number | null;
+  lastError: string | null;
+  upcomingRuns: ScheduledRun[];
+}
+
+export interface ScheduledRun {
+  scheduledOn: string;
+  runOn: string;
+  share: number;
+}
+
+type ScheduleKind = "paycheck" | "rent" | "interest";
+type NoSchoolDays = "skip" | "shift" | "prorate";
+// Per student: "jobs" for paychecks and "housing" for rent
+type PayBy = "flat" | "jobs" | "housing";
+
+export interface PayrollSchedules {
+  timeZone: string;
+  schedules: PayrollSchedule[];
+}
+
+interface SchedulesTabProps {
+  classroomId: number;
+  // Changing the class time zone is a classroom setting, so only classroom managers get the button
+  canChangeTimeZone: boolean;
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const NO_SCHOOL_DAY_OPTIONS: Record<NoSchoolDays, string> = {
+  skip: "Skip the run on days off",
+  shift: "Move it to the next school day",
+  prorate: "Pay or charge for school days only",
+};
+
+export function describeSchedule(schedule: PayrollSchedule) {
+  const what = schedule.kind === "interest"
+    ? "📈 Savings interest"
+    : schedule.kind === "rent"
+    ? schedule.payBy === "housing" ? "🏠 Rent by housing" : `🏠 Rent of $${schedule.amount}`
+    : schedule.payBy === "jobs" ? "💼 Job payroll" : `💰 Paycheck of $${schedule.amount}`;
+  const when = schedule.frequency === "weekly"
+    ? `every ${WEEKDAYS[schedule.dayOfWeek ?? 0]}`
+    : `on day ${schedule.dayOfMonth} of every month`;
+  return `${what} ${when} at ${schedule.timeOfDay}`;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+const formatRun = (run: ScheduledRun) => {
+  if (run.runOn !== run.scheduledOn) return `${formatDay(run.runOn)} (moved from ${formatDay(run.scheduledOn)})`;
+  if (run.share < 1) return `${formatDay(run.runOn)} (${Math.round(run.share * 100)}%)`;
+  return formatDay(run.runOn);
+};
+
+export default function SchedulesTab({ classroomId, canChangeTimeZone }: SchedulesTabProps) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<ScheduleKind>("paycheck");
+  const [payBy, setPayBy] = useState<PayBy>("jobs");
+  const [amount, setAmount] = useState("");
+  const [frequency, setFrequency] = useState<"weekly" | "monthly">("weekly");
+  const [dayOfWeek, setDayOfWeek] = useState("5");
+  const [dayOfMonth, setDayOfMonth] = useState("1");
+  const [timeOfDay, setTimeOfDay] = useState("08:00");
+  const [noSchoolDays, setNoSchoolDays] = useState<NoSchoolDays>("shift");
+  // Skip date being typed for each schedule, keyed by schedule id
+  const [skipDateInputs, setSkipDateInputs] = useState<Record<number, string>>({});
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const { data, isLoading } = useQuery<PayrollSchedules>({
+    queryKey: ["/api/payroll-schedules", { classroomId }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll-schedules"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/payroll-schedules", {
+        classroomId,
+        kind,
+        payBy,
+        // Interest is paid at the savings rate, so it has no amount
+        amount: payBy === "flat" && kind !== "interest" ? parseFloat(amount).toFixed(2) : null,
+        frequency,
+        dayOfWeek: frequency === "weekly" ? parseInt(dayOfWeek) : null,
+        dayOfMonth: frequency === "monthly" ? parseInt(dayOfMonth) : null,
+        timeOfDay,
+        skipDates: [],
+        noSchoolDays,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      handleSuccess("Schedule created ⏰");
+      setAmount("");
+    },
+    onError: (error) => handleError(error, "Failed to create schedule"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: number; update: Partial<Pick<PayrollSchedule, "active" | "skipDates" | "noSchoolDays">> }) => {
+      const response = await apiRequest("PATCH", `/api/payroll-schedules/${id}`, update);
+      return response.json();
+    },
+    onSuccess: () => handleSuccess("Schedule updated"),
+    onError: (error) => handleError(error, "Failed to update schedule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/payroll-schedules/${id}`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to delete schedule"),
+  });
+
+  const timeZoneMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/classrooms/${classroomId}`, { timeZone: browserTimeZone });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/classrooms"] });
+      handleSuccess(`Schedules now follow ${browserTimeZone} time`);
+    },
+    onError: (error) => handleError(error, "Failed to change time zone"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(amount);
+    if (payBy === "flat" && kind !== "interest" && (isNaN(amountNum) || amountNum <= 0)) {
+      toast({
+        title: "Invalid Amount",
+        description: "Please enter a valid amount greater than 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate();
+  };
+
+  const addSkipDate = (schedule: PayrollSchedule) => {
+    const date = skipDateInputs[schedule.id];
+    if (!date || schedule.skipDates.includes(date)) return;
+    updateMutation.mutate({ id: schedule.id, update: { skipDates: [...schedule.skipDates, date].sort() } });
+    setSkipDateInputs({ ...skipDateInputs, [schedule.id]: "" });
+  };
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-gray-800">Schedules</h3>
+          {data && (
+            <div className="flex items-center space-x-3 text-gray-600 text-sm">
+              <span>Times are in {data.timeZone}</span>
+              {canChangeTimeZone && data.timeZone !== browserTimeZone && (
+                <Button
+                  onClick={() => timeZoneMutation.mutate()}
+                  disabled={timeZoneMutation.isPending}
+                  variant="outline"
+                  size="sm"
+                >
+                  Use {browserTimeZone}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Run</Label>
+              <Select value={`${kind}-${payBy}`} onValueChange={(value) => {
+                const [newKind, newPayBy] = value.split("-");
+                setKind(newKind as ScheduleKind);
+                setPayBy(newPayBy as PayBy);
+              }}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paycheck-jobs">💼 Job payroll</SelectItem>
+                  <SelectItem value="paycheck-flat">💰 Same paycheck for everyone</SelectItem>
+                  <SelectItem value="rent-housing">🏠 Rent by housing</SelectItem>
+                  <SelectItem value="rent-flat">🏠 Same rent for everyone</SelectItem>
+                  <SelectItem value="interest-flat">📈 Savings interest</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {payBy === "flat" && kind !== "interest" && (
+              <div>
+                <Label htmlFor="schedule-amount">Amount (per student)</Label>
+                <Input
+                  id="schedule-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="15.00"
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <Label>How often</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as "weekly" | "monthly")}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Every week</SelectItem>
+                  <SelectItem value="monthly">Every month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === "weekly" ? (
+              <div>
+                <Label>Day</Label>
+                <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((weekday, index) => (
+                      <SelectItem key={weekday} value={String(index)}>{weekday}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label>Day of the month</Label>
+                <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...Array(28)].map((_, index) => (
+                      <SelectItem key={index} value={String(index + 1)}>{index + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="schedule-time">Time</Label>
+              <Input
+                id="schedule-time"
+                type="time"
+                value={timeOfDay}
+                onChange={(e) => setTimeOfDay(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>On school calendar days off</Label>
+              <Select value={noSchoolDays} onValueChange={(value) => setNoSchoolDays(value as NoSchoolDays)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NO_SCHOOL_DAY_OPTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+          >
+            {createMutation.isPending ? "Saving..." : "⏰ Add Schedule"}
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : data && data.schedules.length > 0 ? (
+        <div className="space-y-4">
+          {data.schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className={`rounded-xl p-6 space-y-3 ${schedule.lastError ? "bg-red-50 border border-red-200" : "bg-gray-50"}`}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-semibold text-gray-800">{describeSchedule(schedule)}</p>
+                  <p className="text-gray-600 text-sm">
+                    {schedule.active
+                      ? schedule.upcomingRuns.length > 0
+                        ? `Next: ${schedule.upcomingRuns.map(formatRun).join(", ")}`
+                        : "No runs in the next two months"
+                      : "Paused"}
+                  </p>
+                  {schedule.lastRunOn && (
+                    <p className={`text-sm ${schedule.lastError ? "text-red-600" : "text-gray-500"}`}>
+                      {schedule.lastError
+                        ? `⚠️ Failed on ${formatDay(schedule.lastRunOn)}: ${schedule.lastError}`
+                        : `Last ran ${formatDay(schedule.lastRunOn)}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Select
+                    value={schedule.noSchoolDays}
+                    onValueChange={(value) => updateMutation.mutate({
+                      id: schedule.id,
+                      update: { noSchoolDays: value as NoSchoolDays },
+                    })}
+                    disabled={updateMutation.isPending}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(NO_SCHOOL_DAY_OPTIONS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Switch
+                    checked={schedule.active}
+                    onCheckedChange={(active) => updateMutation.mutate({ id: schedule.id, update: { active } })}
+                    disabled={updateMutation.isPending}
+                  />
+                  <Button
+                    onClick={() => deleteMutation.mutate(schedule.id)}
+                    disabled={deleteMutation.isPending}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-600 text-sm">Skip:</span>
+                {schedule.skipDates.map((date) => (
+                  <Badge key={date} variant="outline" className="space-x-1">
+                    <span>{formatDay(date)}</span>
+                    <button
+                      onClick={() => updateMutation.mutate({
+                        id: schedule.id,
+                        update: { skipDates: schedule.skipDates.filter(skipDate => skipDate !== date) },
+                      })}
+                      className="text-gray-400 hover:text-gray-700"
+                    >
+                      ✕
+                    </button>
+                  </Badge>
+                ))}
+                <Input
+                  type="date"
+                  value={skipDateInputs[schedule.id] || ""}
+                  onChange={(e) => setSkipDateInputs({ ...skipDateInputs, [schedule.id]: e.target.value })}
+                  className="w-40 h-8"
+                />
+                <Button
+                  onClick={() => addSkipDate(schedule)}
+                  disabled={!skipDateInputs[schedule.id] || updateMutation.isPending}
+                  variant="ghost"
+                  size="sm"
+                >
+                  Skip day
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">⏰</span>
+          <p className="text-lg">No schedules yet. Paychecks and rent only run when you start them.</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
@@ -9,10 +9,13 @@ import {
   decimal,
   boolean,
   integer,
+  date,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -34,55 +37,445 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: varchar("role").notNull().default("student"), // 'student' or 'teacher'
+  role: varchar("role").notNull().default("student"), // one of USER_ROLES in permissions.ts
+  // Added by a teacher from the roster and not yet claimed by a login with the same email
+  isPlaceholder: boolean("is_placeholder").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const accounts = pgTable("accounts", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  balance: decimal("balance", { precision: 10, scale: 2 }).notNull().default("0.00"),
+// Username/password logins for the local auth provider. Kept out of `users` so password hashes are never
+// returned along with user records.
+export const localCredentials = pgTable("local_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  username: varchar("username").notNull().unique(), // stored lowercase
+  passwordHash: varchar("password_hash").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const transactions = pgTable("transactions", {
+// PIN or picture-sequence logins for young students, used from a classroom's shared login page.
+// `secretHash` is hashed like a password; picture sequences are stored as picture indexes joined by "-".
+export const studentPins = pgTable("student_pins", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  kind: varchar("kind").notNull(), // 'pin' or 'picture'
+  length: integer("length").notNull(), // digits or pictures, so the login page can show the right number of slots
+  secretHash: varchar("secret_hash").notNull(),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A class period owned by one teacher. Students can be enrolled in several classrooms but keep one account.
+export const classrooms = pgTable("classrooms", {
+  id: serial("id").primaryKey(),
+  teacherId: varchar("teacher_id").notNull().references(() => users.id),
+  name: varchar("name").notNull(),
+  period: varchar("period"),
+  joinCode: varchar("join_code").unique(), // null when no code is active
+  joinCodeExpiresAt: timestamp("join_code_expires_at"),
+  loginKey: varchar("login_key").unique(), // unguessable key in the class login page URL, created on first use
+  requireEnrollmentApproval: boolean("require_enrollment_approval").notNull().default(false),
+  timeZone: varchar("time_zone").notNull().default("UTC"), // IANA zone that scheduled runs follow
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const classroomEnrollments = pgTable(
+  "classroom_enrollments",
+  {
+    id: serial("id").primaryKey(),
+    classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    status: varchar("status").notNull().default("active"), // 'pending' (awaiting teacher approval) or 'active'
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_classroom_enrollments").on(table.classroomId, table.userId)],
+);
+
+// Extra people helping run a classroom besides its owning teacher. What each role may do is defined in
+// permissions.ts; student banker grants narrow that down and only apply between startsOn and endsOn.
+export const classroomStaff = pgTable(
+  "classroom_staff",
+  {
+    id: serial("id").primaryKey(),
+    classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    role: varchar("role").notNull(), // 'co-teacher' or 'student-banker'
+    permissions: text("permissions").array(), // null grants everything the role allows
+    withdrawalLimit: decimal("withdrawal_limit", { precision: 10, scale: 2 }), // largest withdrawal they may approve
+    startsOn: date("starts_on"),
+    endsOn: date("ends_on"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_classroom_staff").on(table.classroomId, table.userId)],
+);
+
+// `balance` is a cached value; the ledger (sum of the account's transactions) is authoritative. Every student has a
+// 'student' (checking) account and can open one 'savings' account next to it.
+export const accounts = pgTable(
+  "accounts",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").references(() => users.id), // null for the treasury account
+    kind: varchar("kind").notNull().default("student"), // 'student', 'savings' or 'treasury'
+    // The class whose savings rules (interest, withdrawal limit) a savings account follows, picked when the student
+    // opens it, so a student in several classes is only paid interest once; null for other accounts
+    classroomId: integer("classroom_id").references(() => classrooms.id),
+    balance: decimal("balance", { precision: 10, scale: 2 }).notNull().default("0.00"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_accounts_treasury").on(table.kind).where(sql`kind = 'treasury'`),
+    uniqueIndex("UQ_accounts_user_kind").on(table.userId, table.kind),
+  ],
+);
+
+// Every money movement is a journal entry whose transaction lines sum to zero: the student's line and the
+// opposite line against the classroom treasury, or for a transfer, the lines on the student's two accounts.
+export const journalEntries = pgTable("journal_entries", {
   id: serial("id").primaryKey(),
-  accountId: integer("account_id").notNull().references(() => accounts.id),
-  type: varchar("type").notNull(), // 'deposit', 'withdrawal', 'paycheck', 'bonus', 'fine', 'reward', 'rent'
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   description: text("description").notNull(),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One bulk run (paycheck or rent) over the whole class. The idempotency key makes retried runs replay
+// the original result instead of posting twice; the run's transactions point back at it via batchId.
+export const batches = pgTable("batches", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").references(() => classrooms.id),
+  type: varchar("type").notNull(), // 'paycheck', 'rent' or 'interest'
+  idempotencyKey: varchar("idempotency_key").unique(),
+  amount: decimal("amount", { precision: 10, scale: 2 }), // per student; null when it went by job wages or housing rent
+  description: text("description").notNull(),
+  studentsAffected: integer("students_affected").notNull().default(0),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  createdBy: varchar("created_by").references(() => users.id),
+  rolledBackBy: varchar("rolled_back_by").references(() => users.id),
+  rolledBackAt: timestamp("rolled_back_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const transactions = pgTable(
+  "transactions",
+  {
+    id: serial("id").primaryKey(),
+    accountId: integer("account_id").notNull().references(() => accounts.id),
+    journalEntryId: integer("journal_entry_id").references(() => journalEntries.id), // null for rows posted before the ledger existed
+    type: varchar("type").notNull(), // 'deposit', 'withdrawal', 'paycheck', 'bonus', 'fine', 'reward', 'rent', 'purchase', 'auction', 'transfer', 'interest', 'cd', 'reversal'
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    description: text("description").notNull(),
+    reversesTransactionId: integer("reverses_transaction_id").references((): AnyPgColumn => transactions.id),
+    batchId: integer("batch_id").references(() => batches.id),
+    storeItemId: integer("store_item_id").references(() => storeItems.id), // what a 'purchase' bought from the class store
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  // A transaction can only be reversed once
+  (table) => [uniqueIndex("UQ_transactions_reverses").on(table.reversesTransactionId)],
+);
+
+// A student asking to take money out. A store order is a request for storeItemId, for quantity times its price;
+// approving it takes the items out of stock and posts a 'purchase' instead of a 'withdrawal'. While pending, the
+// amount is held out of the student's available balance; a request nobody reviews by expiresAt expires.
 export const withdrawalRequests = pgTable("withdrawal_requests", {
   id: serial("id").primaryKey(),
   accountId: integer("account_id").notNull().references(() => accounts.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   reason: text("reason").notNull(),
-  status: varchar("status").notNull().default("pending"), // 'pending', 'approved', 'denied'
+  storeItemId: integer("store_item_id").references(() => storeItems.id),
+  quantity: integer("quantity").notNull().default(1),
+  status: varchar("status").notNull().default("pending"), // 'pending', 'approved', 'denied', 'expired'
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   reviewedAt: timestamp("reviewed_at"),
+  expiresAt: timestamp("expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const customQuickActions = pgTable("custom_quick_actions", {
   id: serial("id").primaryKey(),
   teacherId: varchar("teacher_id").notNull().references(() => users.id),
+  classroomId: integer("classroom_id").references(() => classrooms.id),
   name: varchar("name").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   type: varchar("type").notNull(), // 'reward' or 'fine'
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A classroom job (banker, librarian, messenger...) and what it pays each payroll run
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  wage: decimal("wage", { precision: 10, scale: 2 }).notNull(),
+  slots: integer("slots").notNull().default(1), // how many students can hold the job at once
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A student holding a job from startsOn through endsOn (open-ended while null). Payroll pays every
+// assignment that covers the day it runs.
+export const jobAssignments = pgTable("job_assignments", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobs.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startsOn: date("starts_on").notNull(),
+  endsOn: date("ends_on"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A student asking for a job; hiring them creates their job assignment
+export const jobApplications = pgTable("job_applications", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobs.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  answer: text("answer").notNull(), // why they want the job
+  status: varchar("status").notNull().default("pending"), // 'pending', 'hired', 'rejected'
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A recurring paycheck or rent run. The scheduler runs it once on each matching day, at or after timeOfDay in
+// the classroom's time zone, unless that day is in skipDates. Matching days that fall on a holiday or break in
+// the school calendar are handled as noSchoolDays says.
+export const payrollSchedules = pgTable("payroll_schedules", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  kind: varchar("kind").notNull(), // 'paycheck', 'rent' or 'interest' (which pays the classroom's savings rate)
+  // 'flat', or per student: 'jobs' for paychecks and 'housing' for rent, like /api/distribute-paycheck and /api/collect-rent
+  payBy: varchar("pay_by").notNull().default("flat"),
+  amount: decimal("amount", { precision: 10, scale: 2 }), // per student; null unless flat
+  frequency: varchar("frequency").notNull(), // 'weekly' or 'monthly'
+  dayOfWeek: integer("day_of_week"), // weekly: 0 (Sunday) to 6
+  dayOfMonth: integer("day_of_month"), // monthly: 1 to 28, so every month has it
+  timeOfDay: varchar("time_of_day").notNull().default("08:00"), // HH:MM, 24-hour
+  skipDates: date("skip_dates").array().notNull().default(sql`'{}'`), // one-off days this schedule doesn't run
+  // 'skip' the run, 'shift' it to the next school day, or 'prorate': run anyway, scaled by the share of
+  // school days in the period it covers
+  noSchoolDays: varchar("no_school_days").notNull().default("skip"),
+  active: boolean("active").notNull().default(true),
+  lastRunOn: date("last_run_on"), // classroom-local day of the latest attempt, so a day never runs twice
+  lastBatchId: integer("last_batch_id").references(() => batches.id),
+  lastError: text("last_error"), // why the latest attempt failed; cleared by the next success
+  createdBy: varchar("created_by").notNull().references(() => users.id), // scheduled batches are posted as this user
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A place to live in the class economy (a desk by the window, a premium seat...) and its rent per rent run.
+// A student who buys it stops paying rent there and collects the rent of anyone else living in it.
+export const housingUnits = pgTable("housing_units", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  name: varchar("name").notNull(),
+  rent: decimal("rent", { precision: 10, scale: 2 }).notNull(),
+  capacity: integer("capacity").notNull().default(1), // how many students can live there at once
+  price: decimal("price", { precision: 10, scale: 2 }), // what it costs to buy; null when it isn't for sale
+  ownerId: varchar("owner_id").references(() => users.id), // null while the class owns it
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A student living in a housing unit from startsOn through endsOn (open-ended while null). Rent by housing
+// charges each student the unit covering the day it runs.
+export const housingAssignments = pgTable("housing_assignments", {
+  id: serial("id").primaryKey(),
+  unitId: integer("unit_id").notNull().references(() => housingUnits.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startsOn: date("starts_on").notNull(),
+  endsOn: date("ends_on"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A student asking to buy a housing unit at its price; approving it pays the class and hands over the deed.
+// While pending, the price is held out of the student's available balance.
+export const housingPurchases = pgTable("housing_purchases", {
+  id: serial("id").primaryKey(),
+  unitId: integer("unit_id").notNull().references(() => housingUnits.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // the price when they asked
+  status: varchar("status").notNull().default("pending"), // 'pending', 'approved', 'rejected'
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What one rent batch charged one student and what it managed to take. Each run also tries to collect what is
+// still owed, so amountPaid can be more than amountDue; a student's arrears are amountDue - amountPaid summed
+// over the classroom's rent batches that weren't rolled back.
+export const rentCharges = pgTable("rent_charges", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => batches.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  amountDue: decimal("amount_due", { precision: 10, scale: 2 }).notNull(),
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull(),
+  // The unit owner's account the rent was owed to, paid whenever it's collected; null when the class keeps it
+  landlordAccountId: integer("landlord_account_id").references(() => accounts.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A holiday, break or half day on a classroom's school calendar, covering startsOn through endsOn
+export const calendarEntries = pgTable("calendar_entries", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  kind: varchar("kind").notNull(), // 'holiday', 'break' or 'half-day'
+  name: varchar("name").notNull(),
+  startsOn: date("starts_on").notNull(),
+  endsOn: date("ends_on").notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Something students can buy from the class store: a thing to keep, or a coupon for a privilege ("sit with a
+// friend", "homework pass") that the teacher redeems. Ordering is open from availableFrom through availableUntil
+// (classroom-local days, open-ended while null); removing an item hides it but keeps it for past orders.
+export const storeItems = pgTable("store_items", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  kind: varchar("kind").notNull().default("item"), // 'item' or 'coupon'
+  name: varchar("name").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  validDays: integer("valid_days"), // days a coupon can be used, counting the day it's bought; null never expires
+  imageUrl: varchar("image_url"),
+  stock: integer("stock"), // how many are left; null for unlimited
+  perStudentLimit: integer("per_student_limit"), // most one student may buy; null for no limit
+  availableFrom: date("available_from"),
+  availableUntil: date("available_until"),
+  removedAt: timestamp("removed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One thing a student owns, added for each unit of an approved store order. Coupons stay 'owned' until the
+// teacher redeems them, and count as expired once expiresOn has passed in the classroom's time zone.
+export const inventoryItems = pgTable("inventory_items", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  storeItemId: integer("store_item_id").notNull().references(() => storeItems.id),
+  orderId: integer("order_id").notNull().references(() => withdrawalRequests.id),
+  status: varchar("status").notNull().default("owned"), // 'owned' or 'redeemed'
+  expiresOn: date("expires_on"),
+  redeemedBy: varchar("redeemed_by").references(() => users.id),
+  redeemedAt: timestamp("redeemed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// An auction event: students bid on its lots until endsAt, then the scheduler (or the teacher closing it early)
+// settles it, charging each lot's winner. Bids are only placed while settledAt is null.
+export const auctions = pgTable("auctions", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  title: varchar("title").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  settledAt: timestamp("settled_at"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One thing up for auction. The first bid must be at least startingBid and each later one at least increment
+// above the leading bid; the leading bid is held against the bidder's balance until the auction settles.
+export const auctionLots = pgTable("auction_lots", {
+  id: serial("id").primaryKey(),
+  auctionId: integer("auction_id").notNull().references(() => auctions.id),
+  description: text("description").notNull(),
+  imageUrl: varchar("image_url"),
+  startingBid: decimal("starting_bid", { precision: 10, scale: 2 }).notNull(),
+  increment: decimal("increment", { precision: 10, scale: 2 }).notNull(),
+  winnerId: varchar("winner_id").references(() => users.id), // set when the auction settles; null if nobody won
+  winningBid: decimal("winning_bid", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const auctionBids = pgTable("auction_bids", {
+  id: serial("id").primaryKey(),
+  lotId: integer("lot_id").notNull().references(() => auctionLots.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How a classroom's savings accounts earn interest. Each interest run pays interestRate percent of a student's
+// savings balance, unless it is below minimumBalance. withdrawalLimit caps how many times a student can move
+// money out of savings each week or month.
+export const savingsSettings = pgTable("savings_settings", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().unique().references(() => classrooms.id),
+  interestRate: decimal("interest_rate", { precision: 5, scale: 2 }).notNull(), // percent per interest run
+  minimumBalance: decimal("minimum_balance", { precision: 10, scale: 2 }),
+  withdrawalLimit: integer("withdrawal_limit"),
+  withdrawalPeriod: varchar("withdrawal_period").notNull().default("week"), // 'week' or 'month'
+  updatedBy: varchar("updated_by").notNull().references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Certificates of deposit a classroom offers. A CD locks the deposit for termDays and pays interestRate percent of
+// it on top at the end of the term; breaking it early pays back the deposit less penaltyRate percent, with no
+// interest. Removed products can't be opened any more, but CDs already open on them run to the end.
+export const cdProducts = pgTable("cd_products", {
+  id: serial("id").primaryKey(),
+  classroomId: integer("classroom_id").notNull().references(() => classrooms.id),
+  name: varchar("name").notNull(),
+  termDays: integer("term_days").notNull(),
+  interestRate: decimal("interest_rate", { precision: 5, scale: 2 }).notNull(), // percent over the whole term
+  penaltyRate: decimal("penalty_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent of the deposit
+  removedAt: timestamp("removed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A student's CD. Opening one moves the deposit from their checking account to the treasury with a 'cd' line;
+// the payout comes back the same way when it matures or is broken. The product's rates are copied so changing the
+// product later doesn't change CDs already open.
+export const certificatesOfDeposit = pgTable("certificates_of_deposit", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  productId: integer("product_id").notNull().references(() => cdProducts.id),
+  principal: decimal("principal", { precision: 10, scale: 2 }).notNull(),
+  interestRate: decimal("interest_rate", { precision: 5, scale: 2 }).notNull(),
+  penaltyRate: decimal("penalty_rate", { precision: 5, scale: 2 }).notNull(),
+  maturesAt: timestamp("matures_at").notNull(),
+  status: varchar("status").notNull().default("open"), // 'open', 'matured' or 'broken'
+  payout: decimal("payout", { precision: 10, scale: 2 }),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
-export const usersRelations = relations(users, ({ one }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   account: one(accounts, {
     fields: [users.id],
     references: [accounts.userId],
   }),
+  enrollments: many(classroomEnrollments),
+}));
+
+export const classroomsRelations = relations(classrooms, ({ one, many }) => ({
+  teacher: one(users, {
+    fields: [classrooms.teacherId],
+    references: [users.id],
+  }),
+  enrollments: many(classroomEnrollments),
+  staff: many(classroomStaff),
+}));
+
+export const classroomStaffRelations = relations(classroomStaff, ({ one }) => ({
+  classroom: one(classrooms, {
+    fields: [classroomStaff.classroomId],
+    references: [classrooms.id],
+  }),
+  user: one(users, {
+    fields: [classroomStaff.userId],
+    references: [users.id],
+  }),
+}));
+
+export const classroomEnrollmentsRelations = relations(classroomEnrollments, ({ one }) => ({
+  classroom: one(classrooms, {
+    fields: [classroomEnrollments.classroomId],
+    references: [classrooms.id],
+  }),
+  user: one(users, {
+    fields: [classroomEnrollments.userId],
+    references: [users.id],
+  }),
 }));
 
 export const accountsRelations = relations(accounts, ({ one, many }) => ({
@@ -94,11 +487,43 @@ export const accountsRelations = relations(accounts, ({ one, many }) => ({
   withdrawalRequests: many(withdrawalRequests),
 }));
 
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  createdByUser: one(users, {
+    fields: [journalEntries.createdBy],
+    references: [users.id],
+  }),
+  transactions: many(transactions),
+}));
+
+export const batchesRelations = relations(batches, ({ one, many }) => ({
+  classroom: one(classrooms, {
+    fields: [batches.classroomId],
+    references: [classrooms.id],
+  }),
+  createdByUser: one(users, {
+    fields: [batches.createdBy],
+    references: [users.id],
+  }),
+  transactions: many(transactions),
+}));
+
 export const transactionsRelations = relations(transactions, ({ one }) => ({
   account: one(accounts, {
     fields: [transactions.accountId],
     references: [accounts.id],
   }),
+  journalEntry: one(journalEntries, {
+    fields: [transactions.journalEntryId],
+    references: [journalEntries.id],
+  }),
+  batch: one(batches, {
+    fields: [transactions.batchId],
+    references: [batches.id],
+  }),
+  storeItem: one(storeItems, {
+    fields: [transactions.storeItemId],
+    references: [storeItems.id],
+  }),
   createdByUser: one(users, {
     fields: [transactions.createdBy],
     references: [users.id],
@@ -114,6 +539,10 @@ export const withdrawalRequestsRelations = relations(withdrawalRequests, ({ one
     fields: [withdrawalRequests.reviewedBy],
     references: [users.id],
   }),
+  storeItem: one(storeItems, {
+    fields: [withdrawalRequests.storeItemId],
+    references: [storeItems.id],
+  }),
 }));
 
 export const customQuickActionsRelations = relations(customQuickActions, ({ one }) => ({
@@ -121,8 +550,212 @@ export const customQuickActionsRelations = relations(customQuickActions, ({ one
     fields: [customQuickActions.teacherId],
     references: [users.id],
   }),
+  classroom: one(classrooms, {
+    fields: [customQuickActions.classroomId],
+    references: [classrooms.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobs, ({ one, many }) => ({
+  classroom: one(classrooms, {
+    fields: [jobs.classroomId],
+    references: [classrooms.id],
+  }),
+  assignments: many(jobAssignments),
+  applications: many(jobApplications),
+}));
+
+export const jobAssignmentsRelations = relations(jobAssignments, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobAssignments.jobId],
+    references: [jobs.id],
+  }),
+  user: one(users, {
+    fields: [jobAssignments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const jobApplicationsRelations = relations(jobApplications, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobApplications.jobId],
+    references: [jobs.id],
+  }),
+  user: one(users, {
+    fields: [jobApplications.userId],
+    references: [users.id],
+  }),
+  reviewedByUser: one(users, {
+    fields: [jobApplications.reviewedBy],
+    references: [users.id],
+  }),
+}));
+
+export const payrollSchedulesRelations = relations(payrollSchedules, ({ one }) => ({
+  classroom: one(classrooms, {
+    fields: [payrollSchedules.classroomId],
+    references: [classrooms.id],
+  }),
+  lastBatch: one(batches, {
+    fields: [payrollSchedules.lastBatchId],
+    references: [batches.id],
+  }),
+  createdByUser: one(users, {
+    fields: [payrollSchedules.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const housingUnitsRelations = relations(housingUnits, ({ one, many }) => ({
+  classroom: one(classrooms, {
+    fields: [housingUnits.classroomId],
+    references: [classrooms.id],
+  }),
+  owner: one(users, {
+    fields: [housingUnits.ownerId],
+    references: [users.id],
+  }),
+  assignments: many(housingAssignments),
+  purchases: many(housingPurchases),
+}));
+
+export const housingAssignmentsRelations = relations(housingAssignments, ({ one }) => ({
+  unit: one(housingUnits, {
+    fields: [housingAssignments.unitId],
+    references: [housingUnits.id],
+  }),
+  user: one(users, {
+    fields: [housingAssignments.userId],
+    references: [users.id],
+  }),
 }));
 
+export const housingPurchasesRelations = relations(housingPurchases, ({ one }) => ({
+  unit: one(housingUnits, {
+    fields: [housingPurchases.unitId],
+    references: [housingUnits.id],
+  }),
+  user: one(users, {
+    fields: [housingPurchases.userId],
+    references: [users.id],
+  }),
+  reviewedByUser: one(users, {
+    fields: [housingPurchases.reviewedBy],
+    references: [users.id],
+  }),
+}));
+
+export const rentChargesRelations = relations(rentCharges, ({ one }) => ({
+  batch: one(batches, {
+    fields: [rentCharges.batchId],
+    references: [batches.id],
+  }),
+  user: one(users, {
+    fields: [rentCharges.userId],
+    references: [users.id],
+  }),
+}));
+
+export const calendarEntriesRelations = relations(calendarEntries, ({ one }) => ({
+  classroom: one(classrooms, {
+    fields: [calendarEntries.classroomId],
+    references: [classrooms.id],
+  }),
+  createdByUser: one(users, {
+    fields: [calendarEntries.createdBy],
+    references: [users.id],
+  }),
+}));
+export const storeItemsRelations = relations(storeItems, ({ one, many }) => ({
+  classroom: one(classrooms, {
+    fields: [storeItems.classroomId],
+    references: [classrooms.id],
+  }),
+  orders: many(withdrawalRequests),
+  inventoryItems: many(inventoryItems),
+}));
+
+export const inventoryItemsRelations = relations(inventoryItems, ({ one }) => ({
+  user: one(users, {
+    fields: [inventoryItems.userId],
+    references: [users.id],
+  }),
+  storeItem: one(storeItems, {
+    fields: [inventoryItems.storeItemId],
+    references: [storeItems.id],
+  }),
+  order: one(withdrawalRequests, {
+    fields: [inventoryItems.orderId],
+    references: [withdrawalRequests.id],
+  }),
+  redeemedByUser: one(users, {
+    fields: [inventoryItems.redeemedBy],
+    references: [users.id],
+  }),
+}));
+
+export const auctionsRelations = relations(auctions, ({ one, many }) => ({
+  classroom: one(classrooms, {
+    fields: [auctions.classroomId],
+    references: [classrooms.id],
+  }),
+  createdByUser: one(users, {
+    fields: [auctions.createdBy],
+    references: [users.id],
+  }),
+  lots: many(auctionLots),
+}));
+
+export const auctionLotsRelations = relations(auctionLots, ({ one, many }) => ({
+  auction: one(auctions, {
+    fields: [auctionLots.auctionId],
+    references: [auctions.id],
+  }),
+  winner: one(users, {
+    fields: [auctionLots.winnerId],
+    references: [users.id],
+  }),
+  bids: many(auctionBids),
+}));
+
+export const auctionBidsRelations = relations(auctionBids, ({ one }) => ({
+  lot: one(auctionLots, {
+    fields: [auctionBids.lotId],
+    references: [auctionLots.id],
+  }),
+  user: one(users, {
+    fields: [auctionBids.userId],
+    references: [users.id],
+  }),
+}));
+
+export const savingsSettingsRelations = relations(savingsSettings, ({ one }) => ({
+  classroom: one(classrooms, {
+    fields: [savingsSettings.classroomId],
+    references: [classrooms.id],
+  }),
+}));
+
+export const cdProductsRelations = relations(cdProducts, ({ one, many }) => ({
+  classroom: one(classrooms, {
+    fields: [cdProducts.classroomId],
+    references: [classrooms.id],
+  }),
+  certificates: many(certificatesOfDeposit),
+}));
+
+export const certificatesOfDepositRelations = relations(certificatesOfDeposit, ({ one }) => ({
+  user: one(users, {
+    fields: [certificatesOfDeposit.userId],
+    references: [users.id],
+  }),
+  product: one(cdProducts, {
+    fields: [certificatesOfDeposit.productId],
+    references: [cdProducts.id],
+  }),
+}));
+
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   firstName: true,
@@ -131,6 +764,39 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const classroomRefinements = {
+  timeZone: (schema: z.ZodString) => schema.refine(isTimeZone, "Unknown time zone"),
+};
+
+export const insertClassroomSchema = createInsertSchema(classrooms, classroomRefinements).omit({
+  id: true,
+  joinCode: true,
+  joinCodeExpiresAt: true,
+  loginKey: true,
+  createdAt: true,
+});
+
+export const updateClassroomSchema = createInsertSchema(classrooms, classroomRefinements).pick({
+  name: true,
+  period: true,
+  requireEnrollmentApproval: true,
+  timeZone: true,
+}).partial();
+
+export const insertClassroomStaffSchema = createInsertSchema(classroomStaff).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAccountSchema = createInsertSchema(accounts).omit({
   id: true,
   createdAt: true,
@@ -139,14 +805,28 @@ export const insertAccountSchema = createInsertSchema(accounts).omit({
 
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
+  journalEntryId: true,
+  createdAt: true,
+});
+
+export const insertBatchSchema = createInsertSchema(batches).omit({
+  id: true,
+  studentsAffected: true,
+  totalAmount: true,
+  rolledBackBy: true,
+  rolledBackAt: true,
   createdAt: true,
 });
 
+// Store orders are made through insertStoreOrderSchema so the amount always comes from the item's price
 export const insertWithdrawalRequestSchema = createInsertSchema(withdrawalRequests).omit({
   id: true,
+  storeItemId: true,
+  quantity: true,
   status: true,
   reviewedBy: true,
   reviewedAt: true,
+  expiresAt: true,
   createdAt: true,
 });
 
@@ -160,15 +840,262 @@ export const insertCustomQuickActionSchema = createInsertSchema(customQuickActio
   createdAt: true,
 });
 
+const jobRefinements = {
+  title: (schema: z.ZodString) => schema.trim().min(1),
+  wage: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  slots: (schema: z.ZodNumber) => schema.int().min(1),
+};
+
+export const insertJobSchema = createInsertSchema(jobs, jobRefinements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateJobSchema = createInsertSchema(jobs, jobRefinements).pick({
+  title: true,
+  description: true,
+  wage: true,
+  slots: true,
+}).partial();
+
+export const insertJobAssignmentSchema = createInsertSchema(jobAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobApplicationSchema = createInsertSchema(jobApplications, {
+  answer: (schema) => schema.trim().min(1).max(1000),
+}).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  createdAt: true,
+});
+
+const payrollScheduleRefinements = {
+  kind: z.enum(["paycheck", "rent", "interest"]),
+  payBy: z.enum(["flat", "jobs", "housing"]),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable(),
+  frequency: z.enum(["weekly", "monthly"]),
+  dayOfWeek: z.number().int().min(0).max(6).nullable(),
+  dayOfMonth: z.number().int().min(1).max(28).nullable(),
+  timeOfDay: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  skipDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  noSchoolDays: z.enum(["skip", "shift", "prorate"]),
+};
+
+export const insertPayrollScheduleSchema = createInsertSchema(payrollSchedules, payrollScheduleRefinements).omit({
+  id: true,
+  lastRunOn: true,
+  lastBatchId: true,
+  lastError: true,
+  createdAt: true,
+});
+
+export const updatePayrollScheduleSchema = createInsertSchema(payrollSchedules, payrollScheduleRefinements).pick({
+  payBy: true,
+  amount: true,
+  frequency: true,
+  dayOfWeek: true,
+  dayOfMonth: true,
+  timeOfDay: true,
+  skipDates: true,
+  noSchoolDays: true,
+  active: true,
+}).partial();
+
+const housingUnitRefinements = {
+  name: (schema: z.ZodString) => schema.trim().min(1),
+  rent: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  capacity: (schema: z.ZodNumber) => schema.int().min(1),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable(),
+};
+
+export const insertHousingUnitSchema = createInsertSchema(housingUnits, housingUnitRefinements).omit({
+  id: true,
+  ownerId: true,
+  createdAt: true,
+});
+
+export const updateHousingUnitSchema = createInsertSchema(housingUnits, housingUnitRefinements).pick({
+  name: true,
+  rent: true,
+  capacity: true,
+  price: true,
+}).partial();
+
+export const insertHousingAssignmentSchema = createInsertSchema(housingAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertHousingPurchaseSchema = createInsertSchema(housingPurchases).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  createdAt: true,
+});
+
+export const insertCalendarEntrySchema = createInsertSchema(calendarEntries, {
+  kind: z.enum(["holiday", "break", "half-day"]),
+  name: (schema) => schema.trim().min(1),
+  startsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).omit({
+  id: true,
+  createdAt: true,
+}).refine((entry) => entry.startsOn <= entry.endsOn);
+
+const storeItemRefinements = {
+  kind: z.enum(["item", "coupon"]),
+  name: (schema: z.ZodString) => schema.trim().min(1),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  validDays: z.number().int().min(1).nullable(),
+  imageUrl: z.string().url().nullable(),
+  stock: z.number().int().min(0).nullable(),
+  perStudentLimit: z.number().int().min(1).nullable(),
+  availableFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  availableUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+};
+
+const storeItemWindowIsValid = (item: { availableFrom?: string | null; availableUntil?: string | null }) =>
+  !item.availableFrom || !item.availableUntil || item.availableFrom <= item.availableUntil;
+
+export const insertStoreItemSchema = createInsertSchema(storeItems, storeItemRefinements).omit({
+  id: true,
+  removedAt: true,
+  createdAt: true,
+}).refine(storeItemWindowIsValid);
+
+export const updateStoreItemSchema = createInsertSchema(storeItems, storeItemRefinements).pick({
+  name: true,
+  price: true,
+  validDays: true,
+  imageUrl: true,
+  stock: true,
+  perStudentLimit: true,
+  availableFrom: true,
+  availableUntil: true,
+}).partial().refine(storeItemWindowIsValid);
+
+export const insertStoreOrderSchema = z.object({
+  storeItemId: z.number().int(),
+  quantity: z.number().int().min(1).default(1),
+});
+
+export const insertAuctionLotSchema = createInsertSchema(auctionLots, {
+  description: (schema) => schema.trim().min(1),
+  imageUrl: z.string().url().nullable(),
+  startingBid: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  increment: z.string().regex(/^\d+(\.\d{1,2})?$/).refine((increment) => parseFloat(increment) > 0),
+}).omit({
+  id: true,
+  auctionId: true,
+  winnerId: true,
+  winningBid: true,
+  createdAt: true,
+});
+
+export const insertAuctionSchema = createInsertSchema(auctions, {
+  title: (schema) => schema.trim().min(1),
+  endsAt: z.coerce.date(),
+}).omit({
+  id: true,
+  settledAt: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  lots: z.array(insertAuctionLotSchema).min(1),
+});
+
+export const upsertSavingsSettingsSchema = createInsertSchema(savingsSettings, {
+  interestRate: z.string().regex(/^\d{1,3}(\.\d{1,2})?$/),
+  minimumBalance: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable(),
+  withdrawalLimit: z.number().int().min(1).nullable(),
+  withdrawalPeriod: z.enum(["week", "month"]),
+}).omit({
+  id: true,
+  updatedBy: true,
+  updatedAt: true,
+});
+
+export const insertTransferSchema = z.object({
+  from: z.enum(["checking", "savings"]),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/).refine((amount) => parseFloat(amount) > 0),
+});
+
+export const insertCdProductSchema = createInsertSchema(cdProducts, {
+  name: z.string().trim().min(1),
+  termDays: z.number().int().min(1).max(365),
+  interestRate: z.string().regex(/^\d{1,3}(\.\d{1,2})?$/),
+  penaltyRate: z.string().regex(/^\d{1,3}(\.\d{1,2})?$/).refine((rate) => parseFloat(rate) <= 100),
+}).omit({
+  id: true,
+  removedAt: true,
+  createdAt: true,
+});
+
+export const openCdSchema = z.object({
+  productId: z.number().int(),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/).refine((amount) => parseFloat(amount) > 0),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type Classroom = typeof classrooms.$inferSelect;
+export type InsertClassroom = z.infer<typeof insertClassroomSchema>;
+export type UpdateClassroom = z.infer<typeof updateClassroomSchema>;
+export type ClassroomEnrollment = typeof classroomEnrollments.$inferSelect;
+export type ClassroomStaff = typeof classroomStaff.$inferSelect;
+export type InsertClassroomStaff = z.infer<typeof insertClassroomStaffSchema>;
 export type Account = typeof accounts.$inferSelect;
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type Batch = typeof batches.$inferSelect;
+export type InsertBatch = z.infer<typeof insertBatchSchema>;
 export type WithdrawalRequest = typeof withdrawalRequests.$inferSelect;
 export type InsertWithdrawalRequest = z.infer<typeof insertWithdrawalRequestSchema>;
 export type UpdateWithdrawalRequest = z.infer<typeof updateWithdrawalRequestSchema>;
+export type LocalCredential = typeof localCredentials.$inferSelect;
+export type StudentPin = typeof studentPins.$inferSelect;
 export type CustomQuickAction = typeof customQuickActions.$inferSelect;
 export type InsertCustomQuickAction = z.infer<typeof insertCustomQuickActionSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type UpdateJob = z.infer<typeof updateJobSchema>;
+export type JobAssignment = typeof jobAssignments.$inferSelect;
+export type InsertJobAssignment = z.infer<typeof insertJobAssignmentSchema>;
+export type JobApplication = typeof jobApplications.$inferSelect;
+export type InsertJobApplication = z.infer<typeof insertJobApplicationSchema>;
+export type PayrollSchedule = typeof payrollSchedules.$inferSelect;
+export type InsertPayrollSchedule = z.infer<typeof insertPayrollScheduleSchema>;
+export type UpdatePayrollSchedule = z.infer<typeof updatePayrollScheduleSchema>;
+export type HousingUnit = typeof housingUnits.$inferSelect;
+export type InsertHousingUnit = z.infer<typeof insertHousingUnitSchema>;
+export type UpdateHousingUnit = z.infer<typeof updateHousingUnitSchema>;
+export type HousingAssignment = typeof housingAssignments.$inferSelect;
+export type InsertHousingAssignment = z.infer<typeof insertHousingAssignmentSchema>;
+export type HousingPurchase = typeof housingPurchases.$inferSelect;
+export type InsertHousingPurchase = z.infer<typeof insertHousingPurchaseSchema>;
+export type RentCharge = typeof rentCharges.$inferSelect;
+export type CalendarEntry = typeof calendarEntries.$inferSelect;
+export type InsertCalendarEntry = z.infer<typeof insertCalendarEntrySchema>;
+export type StoreItem = typeof storeItems.$inferSelect;
+export type InsertStoreItem = z.infer<typeof insertStoreItemSchema>;
+export type UpdateStoreItem = z.infer<typeof updateStoreItemSchema>;
+export type InventoryItem = typeof inventoryItems.$inferSelect;
+export type Auction = typeof auctions.$inferSelect;
+export type InsertAuction = z.infer<typeof insertAuctionSchema>;
+export type AuctionLot = typeof auctionLots.$inferSelect;
+export type InsertAuctionLot = z.infer<typeof insertAuctionLotSchema>;
+export type AuctionBid = typeof auctionBids.$inferSelect;
+export type SavingsSettings = typeof savingsSettings.$inferSelect;
+export type UpsertSavingsSettings = z.infer<typeof upsertSavingsSettingsSchema>;
+export type CdProduct = typeof cdProducts.$inferSelect;
+export type InsertCdProduct = z.infer<typeof insertCdProductSchema>;
+export type CertificateOfDeposit = typeof certificatesOfDeposit.$inferSelect;
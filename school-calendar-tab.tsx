@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+type EntryKind = "holiday" | "break" | "half-day";
+
+interface CalendarEntry {
+  id: number;
+  kind: EntryKind;
+  name: string;
+  startsOn: string;
+  endsOn: string;
+}
+
+interface CalendarEvent {
+  date: string;
+  kind: string; // 'paycheck', 'rent', 'interest' or 'auction'
+  description: string;
+  upcoming: boolean;
+  scheduledOn?: string;
+  share?: number;
+}
+
+interface SchoolCalendar {
+  timeZone: string;
+  entries: CalendarEntry[];
+  events: CalendarEvent[];
+}
+
+interface SchoolCalendarTabProps {
+  classroomId: number;
+  // Days off move scheduled payroll, so marking them takes the same permission as running it
+  canEdit: boolean;
+}
+
+const ENTRY_KINDS: Record<EntryKind, string> = {
+  holiday: "🎉 Holiday",
+  break: "🏖️ Break",
+  "half-day": "🕛 Half day",
+};
+
+const EVENT_ICONS: Record<string, string> = {
+  paycheck: "💰",
+  rent: "🏠",
+  interest: "📈",
+  auction: "🔨",
+};
+
+const toDay = (date: Date) => date.toLocaleDateString("en-CA");
+const fromDay = (date: string) => new Date(`${date}T00:00:00`);
+const formatDay = (date: string) =>
+  fromDay(date).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+export default function SchoolCalendarTab({ classroomId, canEdit }: SchoolCalendarTabProps) {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(() => new Date());
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<EntryKind>("holiday");
+
+  const from = toDay(new Date(month.getFullYear(), month.getMonth(), 1));
+  const to = toDay(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+
+  const { data: calendar, isLoading } = useQuery<SchoolCalendar>({
+    queryKey: ["/api/calendar", { classroomId, from, to }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Days off change when schedules run, so both views refresh
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll-schedules"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ startsOn, endsOn }: { startsOn: string; endsOn: string }) => {
+      const response = await apiRequest("POST", "/api/calendar-entries", { classroomId, kind, name, startsOn, endsOn });
+      return response.json();
+    },
+    onSuccess: (entry) => {
+      handleSuccess(`${entry.name} added to the calendar 📅`);
+      setName("");
+      setRange(undefined);
+    },
+    onError: (error) => handleError(error, "Failed to add to the calendar"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      const response = await apiRequest("DELETE", `/api/calendar-entries/${entryId}`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to remove calendar entry"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!range?.from || !name.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Pick the days on the calendar and give them a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({ startsOn: toDay(range.from), endsOn: toDay(range.to ?? range.from) });
+  };
+
+  const entryDays = (entryKind: EntryKind) =>
+    calendar?.entries
+      .filter(entry => entry.kind === entryKind)
+      .map(entry => ({ from: fromDay(entry.startsOn), to: fromDay(entry.endsOn) })) || [];
+  const eventDays = (upcoming: boolean) =>
+    calendar?.events.filter(event => event.upcoming === upcoming).map(event => fromDay(event.date)) || [];
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <h3 className="text-2xl font-bold text-gray-800">School Calendar</h3>
+        {calendar && <span className="text-gray-600 text-sm">Days are in {calendar.timeZone}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            month={month}
+            onMonthChange={setMonth}
+            modifiers={{
+              holiday: entryDays("holiday"),
+              break: entryDays("break"),
+              halfDay: entryDays("half-day"),
+              pastEvent: eventDays(false),
+              upcomingEvent: eventDays(true),
+            }}
+            modifiersClassNames={{
+              holiday: "bg-red-100 text-red-800",
+              break: "bg-orange-100 text-orange-800",
+              halfDay: "bg-yellow-100 text-yellow-800",
+              pastEvent: "font-bold underline",
+              upcomingEvent: "font-bold ring-2 ring-purple-300",
+            }}
+            className="rounded-xl border w-fit"
+          />
+          <div className="flex flex-wrap gap-3 text-sm text-gray-600">
+            <span className="px-2 rounded bg-red-100 text-red-800">Holiday</span>
+            <span className="px-2 rounded bg-orange-100 text-orange-800">Break</span>
+            <span className="px-2 rounded bg-yellow-100 text-yellow-800">Half day</span>
+            <span className="px-2 font-bold underline">Payday or rent day</span>
+            <span className="px-2 rounded font-bold ring-2 ring-purple-300">Coming up</span>
+          </div>
+        </div>
+
+        {canEdit && (
+          <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4 h-fit">
+            <p className="text-gray-700">
+              {range?.from
+                ? `${formatDay(toDay(range.from))}${range.to && toDay(range.to) !== toDay(range.from) ? ` to ${formatDay(toDay(range.to))}` : ""}`
+                : "Pick a day, or a first and last day, on the calendar"}
+            </p>
+            <div>
+              <Label htmlFor="calendar-name">Name</Label>
+              <Input
+                id="calendar-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Winter Break"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Kind</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as EntryKind)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ENTRY_KINDS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+            >
+              {createMutation.isPending ? "Saving..." : "📅 Add to Calendar"}
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : calendar && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div className="space-y-3">
+            <p className="font-semibold text-gray-700">Days Off This Month</p>
+            {calendar.entries.length > 0 ? (
+              calendar.entries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+                  <p className="text-gray-800">
+                    {ENTRY_KINDS[entry.kind]}: {entry.name}
+                    <span className="text-gray-500 text-sm">
+                      {" "}• {formatDay(entry.startsOn)}{entry.endsOn !== entry.startsOn && ` to ${formatDay(entry.endsOn)}`}
+                    </span>
+                  </p>
+                  {canEdit && (
+                    <Button
+                      onClick={() => deleteMutation.mutate(entry.id)}
+                      disabled={deleteMutation.isPending}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              ))
+            ) : (
+              <p className="text-gray-500">No holidays, breaks or half days this month</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <p className="font-semibold text-gray-700">Paydays, Rent Days and Auctions</p>
+            {calendar.events.length > 0 ? (
+              calendar.events.map((event, index) => (
+                <div key={index} className={`rounded-lg p-3 ${event.upcoming ? "bg-purple-50" : "bg-gray-50"}`}>
+                  <p className="text-gray-800">
+                    {EVENT_ICONS[event.kind] ?? "📌"} {event.description}
+                    <span className="text-gray-500 text-sm"> • {formatDay(event.date)}</span>
+                  </p>
+                  {event.upcoming && (
+                    <p className="text-gray-500 text-sm">
+                      {event.kind === "auction" ? "Bidding closes" : "Scheduled"}
+                      {event.scheduledOn && event.scheduledOn !== event.date && `, moved from ${formatDay(event.scheduledOn)}`}
+                      {event.share !== undefined && event.share < 1 && `, ${Math.round(event.share * 100)}% for days off`}
+                    </p>
+                  )}
+                </div>
+              ))
+            ) : (
+              <p className="text-gray-500">Nothing paid or charged this month</p>
+            )}
+          </div>
+        </div>
+      )}
+    </CardContent>
+  );
+}
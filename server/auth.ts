@@ -0,0 +1,151 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import { createOidcProvider } from "./oidcAuth";
+import { localProvider } from "./localAuth";
+import { setupPinLogin } from "./pinAuth";
+
+// Every provider stores the same session user shape: `claims.sub` is the users.id that routes read,
+// and `expires_at` (seconds) is only set by providers whose sessions need refreshing.
+export interface SessionUser {
+  claims: { sub: string; pinLogin?: boolean; [claim: string]: unknown };
+  expires_at?: number;
+  refresh_token?: string;
+}
+
+export interface AuthProvider {
+  name: AuthProviderName;
+  // Registers the provider's passport strategies and its /api/login, /api/callback and /api/logout routes
+  setup(app: Express): Promise<void>;
+  // Renews an expired session in place; returns false if the user has to log in again
+  refresh?(user: SessionUser): Promise<boolean>;
+}
+
+export type AuthProviderName = "replit" | "oidc" | "local";
+
+let activeProvider: AuthProvider | undefined;
+
+// PIN and picture logins come from shared classroom devices, so those sessions can only reach the
+// student's own account
+const PIN_SESSION_ROUTES = [
+  "GET /api/auth/user",
+  "GET /api/transactions",
+  "POST /api/withdrawal-requests",
+  "GET /api/job-board",
+  "POST /api/job-applications",
+  "POST /api/job-resignations",
+  "GET /api/housing-market",
+  "POST /api/housing-purchases",
+  "GET /api/store",
+  "POST /api/store-orders",
+  "GET /api/inventory",
+  "GET /api/auction-house",
+  "POST /api/auction-bids",
+  "GET /api/savings",
+  "POST /api/savings",
+  "POST /api/transfers",
+  "GET /api/cds",
+  "POST /api/cds",
+  "POST /api/cd-early-withdrawals",
+];
+
+// AUTH_PROVIDER picks the provider; without it, Replit Auth is used on Replit and local logins elsewhere
+function selectProvider(): AuthProvider {
+  const name = process.env.AUTH_PROVIDER ?? (process.env.REPLIT_DOMAINS ? "replit" : "local");
+
+  switch (name) {
+    case "replit":
+      if (!process.env.REPLIT_DOMAINS) {
+        throw new Error("Environment variable REPLIT_DOMAINS not provided");
+      }
+      return createOidcProvider({
+        name: "replit",
+        issuerUrl: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+        clientId: process.env.REPL_ID!,
+        domains: process.env.REPLIT_DOMAINS.split(","),
+        prompt: "login consent",
+      });
+    case "oidc":
+      if (!process.env.OIDC_ISSUER_URL || !process.env.OIDC_CLIENT_ID || !process.env.OIDC_DOMAINS) {
+        throw new Error("OIDC_ISSUER_URL, OIDC_CLIENT_ID and OIDC_DOMAINS must be set for the oidc auth provider");
+      }
+      return createOidcProvider({
+        name: "oidc",
+        issuerUrl: process.env.OIDC_ISSUER_URL,
+        clientId: process.env.OIDC_CLIENT_ID,
+        clientSecret: process.env.OIDC_CLIENT_SECRET,
+        domains: process.env.OIDC_DOMAINS.split(","),
+        prompt: "login",
+      });
+    case "local":
+      return localProvider;
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${name}"`);
+  }
+}
+
+export function getAuthProviderName(): AuthProviderName {
+  return activeProvider!.name;
+}
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: sessionTtl,
+    tableName: "sessions",
+  });
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Secure whenever the request came in over https, so local http development still gets a session
+      secure: "auto",
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+export async function setupAuth(app: Express) {
+  activeProvider = selectProvider();
+
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  await activeProvider.setup(app);
+  setupPinLogin(app);
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  if (user.claims.pinLogin && !PIN_SESSION_ROUTES.includes(`${req.method} ${req.path}`)) {
+    return res.status(403).json({ message: "Ask your teacher to do this for you" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (user.expires_at === undefined || now <= user.expires_at) {
+    return next();
+  }
+
+  if (activeProvider?.refresh && await activeProvider.refresh(user)) {
+    return next();
+  }
+
+  res.status(401).json({ message: "Unauthorized" });
+};
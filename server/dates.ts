@@ -0,0 +1,17 @@
+// Calendar days are compared as YYYY-MM-DD strings, the same shape Postgres `date` columns come back in
+
+// Today in the given IANA time zone, or the server's when none is given
+export function today(timeZone?: string) {
+  return dayOf(new Date(), timeZone);
+}
+
+// The day a moment falls on in the given IANA time zone
+export function dayOf(moment: Date, timeZone?: string) {
+  return moment.toLocaleDateString("en-CA", { timeZone }); // en-CA formats as YYYY-MM-DD
+}
+
+export function addDays(date: string, days: number) {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes.ts";
+import { startScheduler } from "./scheduler.ts";
 
 const app = express();
 app.use(express.json());
@@ -59,5 +60,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
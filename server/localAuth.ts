@@ -0,0 +1,106 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import type { AuthProvider, SessionUser } from "./auth";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt>$<hash>", both hex, so the scheme can be changed later without a migration
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// A fresh install has nobody to create the other logins, so the first teacher comes from the environment
+async function ensureBootstrapTeacher() {
+  const username = process.env.LOCAL_TEACHER_USERNAME;
+  const password = process.env.LOCAL_TEACHER_PASSWORD;
+  if (!username || !password || await storage.getLocalCredentialsByUsername(username)) {
+    return;
+  }
+
+  const teacher = await storage.upsertUser({
+    id: `local_${randomUUID()}`,
+    firstName: process.env.LOCAL_TEACHER_NAME ?? "Teacher",
+    role: "teacher",
+  });
+  await storage.setLocalCredentials(teacher.id, username, await hashPassword(password));
+}
+
+export const localProvider: AuthProvider = {
+  name: "local",
+
+  async setup(app: Express) {
+    await ensureBootstrapTeacher();
+
+    passport.use(
+      new LocalStrategy(async (username, password, done) => {
+        try {
+          const credentials = await storage.getLocalCredentialsByUsername(username);
+          if (!credentials || !(await verifyPassword(password, credentials.passwordHash))) {
+            return done(null, false, { message: "Wrong username or password" });
+          }
+
+          const user = await storage.getUser(credentials.userId);
+          if (!user) {
+            return done(null, false, { message: "Wrong username or password" });
+          }
+
+          // A roster student logging in for the first time is no longer a placeholder
+          if (user.isPlaceholder) {
+            await storage.upsertUser({ id: user.id, isPlaceholder: false });
+          }
+
+          const sessionUser: SessionUser = { claims: { sub: user.id } };
+          done(null, sessionUser);
+        } catch (error) {
+          done(error);
+        }
+      })
+    );
+
+    app.post("/api/login/local", (req, res, next) => {
+      passport.authenticate("local", (err: any, user: SessionUser | false, info?: { message: string }) => {
+        if (err) {
+          return next(err);
+        }
+        if (!user) {
+          return res.status(401).json({ message: info?.message ?? "Wrong username or password" });
+        }
+        req.login(user, (loginError) => {
+          if (loginError) {
+            return next(loginError);
+          }
+          res.json({ message: "Logged in" });
+        });
+      })(req, res, next);
+    });
+
+    // The landing page shows the login form, so the redirects other pages make on a 401 just go home
+    app.get("/api/login", (_req, res) => {
+      res.redirect("/");
+    });
+
+    app.get("/api/logout", (req, res) => {
+      req.logout(() => {
+        res.redirect("/");
+      });
+    });
+  },
+};
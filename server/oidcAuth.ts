@@ -0,0 +1,139 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+
+import passport from "passport";
+import type { Express } from "express";
+import memoize from "memoizee";
+import { storage } from "./storage";
+import type { AuthProvider, SessionUser } from "./auth";
+
+export interface OidcProviderOptions {
+  name: "replit" | "oidc";
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  // Hostnames the app is served from; each gets its own strategy and https://<domain>/api/callback redirect
+  domains: string[];
+  prompt: string;
+}
+
+function updateUserSession(
+  user: any,
+  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+) {
+  user.claims = tokens.claims();
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token;
+  user.expires_at = user.claims?.exp;
+}
+
+// Replit sends first_name/last_name/profile_image_url; other issuers use the standard OIDC claim names
+async function upsertUser(
+  claims: any,
+) {
+  const userData = {
+    id: claims["sub"],
+    email: claims["email"],
+    firstName: claims["first_name"] ?? claims["given_name"],
+    lastName: claims["last_name"] ?? claims["family_name"],
+    profileImageUrl: claims["profile_image_url"] ?? claims["picture"],
+  };
+
+  // On first login, take over a student the teacher already added to the roster with this email
+  if (userData.email && !(await storage.getUser(userData.id))) {
+    const claimed = await storage.claimPlaceholderUser(userData);
+    if (claimed) {
+      return;
+    }
+  }
+
+  await storage.upsertUser(userData);
+}
+
+export function createOidcProvider(options: OidcProviderOptions): AuthProvider {
+  const getOidcConfig = memoize(
+    async () => {
+      return await client.discovery(
+        new URL(options.issuerUrl),
+        options.clientId,
+        options.clientSecret
+      );
+    },
+    { maxAge: 3600 * 1000 }
+  );
+
+  return {
+    name: options.name,
+
+    async setup(app: Express) {
+      const config = await getOidcConfig();
+
+      const verify: VerifyFunction = async (
+        tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+        verified: passport.AuthenticateCallback
+      ) => {
+        const user = {};
+        updateUserSession(user, tokens);
+        await upsertUser(tokens.claims());
+        verified(null, user);
+      };
+
+      for (const domain of options.domains) {
+        const strategy = new Strategy(
+          {
+            name: `${options.name}:${domain}`,
+            config,
+            scope: "openid email profile offline_access",
+            callbackURL: `https://${domain}/api/callback`,
+          },
+          verify,
+        );
+        passport.use(strategy);
+      }
+
+      app.get("/api/login", (req, res, next) => {
+        passport.authenticate(`${options.name}:${req.hostname}`, {
+          prompt: options.prompt,
+          scope: ["openid", "email", "profile", "offline_access"],
+        })(req, res, next);
+      });
+
+      app.get("/api/callback", (req, res, next) => {
+        passport.authenticate(`${options.name}:${req.hostname}`, {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          // Not every issuer supports RP-initiated logout
+          if (!config.serverMetadata().end_session_endpoint) {
+            return res.redirect("/");
+          }
+          res.redirect(
+            client.buildEndSessionUrl(config, {
+              client_id: options.clientId,
+              post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
+            }).href
+          );
+        });
+      });
+    },
+
+    async refresh(user: SessionUser) {
+      if (!user.refresh_token) {
+        return false;
+      }
+
+      try {
+        const config = await getOidcConfig();
+        const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+        updateUserSession(user, tokenResponse);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { storage, LedgerError, type BatchResult, type RentChargeLine } from "./storage";
+import type { Account, Classroom, SavingsSettings, User } from "@shared/schema";
+
+// Payroll, rent and savings interest runs, shared by the manual routes and the scheduler
+
+export interface PaycheckRun {
+  // "flat" pays every student `amount`; "jobs" pays each student the wages of the jobs they hold on `onDate`
+  payBy: "flat" | "jobs";
+  amount?: string | null;
+  onDate: string;
+  idempotencyKey?: string;
+  // Fraction of a full paycheck to pay, for scheduled runs prorated by the school calendar
+  share?: number;
+}
+
+function prorate(amount: string, share = 1) {
+  return (parseFloat(amount) * share).toFixed(2);
+}
+
+function describeRun(description: string, share = 1) {
+  return share < 1 ? `${description} (${Math.round(share * 100)}%)` : description;
+}
+
+export async function runPaycheck(classroom: Classroom, run: PaycheckRun, createdBy: string): Promise<BatchResult> {
+  if (run.payBy === "jobs") {
+    const payroll = await storage.getJobPayroll(classroom.id, run.onDate);
+    return await storage.runBatch(
+      {
+        type: "paycheck",
+        classroomId: classroom.id,
+        idempotencyKey: run.idempotencyKey,
+        amount: null,
+        description: describeRun("Job Payroll", run.share),
+        createdBy,
+      },
+      payroll
+        .map(line => ({ ...line, amount: prorate(line.amount, run.share) }))
+        .filter(line => parseFloat(line.amount) > 0)
+        .map(line => ({
+          accountId: line.student.account.id,
+          type: "paycheck",
+          amount: line.amount,
+          description: describeRun(`Paycheck: ${line.jobs.map(job => job.title).join(", ")}`, run.share),
+          createdBy,
+        }))
+    );
+  }
+
+  if (!run.amount) {
+    throw new LedgerError("Enter the paycheck amount");
+  }
+
+  const amount = prorate(run.amount, run.share);
+  const description = describeRun("Weekly Paycheck", run.share);
+  const students = await storage.getClassroomStudents(classroom.id);
+  return await storage.runBatch(
+    { type: "paycheck", classroomId: classroom.id, idempotencyKey: run.idempotencyKey, amount, description, createdBy },
+    students.map(student => ({
+      accountId: student.account.id,
+      type: "paycheck",
+      amount: amount,
+      description,
+      createdBy,
+    }))
+  );
+}
+
+export interface RentRun {
+  // "flat" charges every student `amount`; "housing" charges each student the rent of the unit they live in on `onDate`
+  chargeBy: "flat" | "housing";
+  amount?: string | null;
+  onDate: string;
+  idempotencyKey?: string;
+  // Fraction of the full rent to charge, for scheduled runs prorated by the school calendar
+  share?: number;
+}
+
+// Deducts rent plus anything still owed from earlier runs. Balances don't go below 0; what a student can't pay
+// is recorded as owed rent and collected by later runs. Students living in a unit they own pay nothing, and rent
+// for a unit another student owns goes to that owner.
+export async function collectRent(classroom: Classroom, run: RentRun, createdBy: string): Promise<BatchResult> {
+  let flatAmount: string | null = null;
+  if (run.chargeBy === "flat") {
+    if (!run.amount) {
+      throw new LedgerError("Enter the rent amount");
+    }
+    flatAmount = prorate(run.amount, run.share);
+  }
+
+  const description = describeRun("Monthly Rent", run.share);
+  const rentRoll = await storage.getRentRoll(classroom.id, run.onDate);
+  const students = new Map(rentRoll.map(line => [line.student.id, line.student]));
+
+  const lines: RentChargeLine[] = [];
+  for (const { student, unit } of rentRoll) {
+    const ownsHome = unit?.ownerId === student.id;
+    const line: RentChargeLine = {
+      accountId: student.account.id,
+      userId: student.id,
+      amountDue: ownsHome ? "0.00" : flatAmount ?? prorate(unit?.rent ?? "0.00", run.share),
+      description: !flatAmount && unit ? `${description}: ${unit.name}` : description,
+      createdBy,
+      tenantName: `${student.firstName} ${student.lastName}`,
+    };
+
+    if (unit?.ownerId && !ownsHome) {
+      // Owners are usually in the class, but one who left still gets their tenants' rent
+      const owner = students.get(unit.ownerId);
+      const ownerAccount = owner ? owner.account : await storage.getAccount(unit.ownerId);
+      if (ownerAccount) {
+        line.landlord = {
+          accountId: ownerAccount.id,
+          description: `Rent from ${student.firstName} ${student.lastName}: ${unit.name}`,
+        };
+      }
+    }
+    lines.push(line);
+  }
+
+  return await storage.runRentBatch(
+    {
+      type: "rent",
+      classroomId: classroom.id,
+      idempotencyKey: run.idempotencyKey,
+      amount: flatAmount,
+      description,
+      createdBy,
+    },
+    lines
+  );
+}
+
+export interface InterestRun {
+  idempotencyKey?: string;
+  // Fraction of a full interest payment, for scheduled runs prorated by the school calendar
+  share?: number;
+}
+
+export interface InterestLine {
+  student: User & { account: Account };
+  amount: string;
+}
+
+// What each savings account in the classroom earns in one interest run: the rate on its balance, or nothing
+// when the balance is below the minimum
+export async function getInterestLines(classroom: Classroom, settings: SavingsSettings, share = 1): Promise<InterestLine[]> {
+  const savers = await storage.getClassroomSavers(classroom.id);
+  return savers.map(student => {
+    const balance = parseFloat(student.account.balance);
+    const earns = settings.minimumBalance === null || balance >= parseFloat(settings.minimumBalance);
+    return {
+      student,
+      amount: earns ? prorate((balance * parseFloat(settings.interestRate) / 100).toFixed(2), share) : "0.00",
+    };
+  });
+}
+
+export async function payInterest(classroom: Classroom, run: InterestRun, createdBy: string): Promise<BatchResult> {
+  const settings = await storage.getSavingsSettings(classroom.id);
+  if (!settings) {
+    throw new LedgerError("Set the savings interest rate first");
+  }
+
+  const description = describeRun(`Savings Interest (${settings.interestRate}%)`, run.share);
+  const lines = await getInterestLines(classroom, settings, run.share);
+  return await storage.runBatch(
+    { type: "interest", classroomId: classroom.id, idempotencyKey: run.idempotencyKey, amount: null, description, createdBy },
+    lines.filter(line => parseFloat(line.amount) > 0).map(line => ({
+      accountId: line.student.account.id,
+      type: "interest",
+      amount: line.amount,
+      description,
+      createdBy,
+    }))
+  );
+}
@@ -0,0 +1,130 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { today } from "./dates";
+import type { Classroom, ClassroomStaff, User } from "@shared/schema";
+import {
+  getRolePermissions,
+  PERMISSION_DESCRIPTIONS,
+  type Permission,
+  type Role,
+} from "@shared/permissions";
+
+export interface ClassroomAccess {
+  permissions: Permission[];
+  // Largest withdrawal the user may approve here; null when uncapped
+  withdrawalLimit: string | null;
+}
+
+// What a staff grant allows today in its classroom's time zone: nothing outside its date range, and only the
+// powers it was given
+function getGrantPermissions(grant: ClassroomStaff, timeZone: string): Permission[] {
+  const date = today(timeZone);
+  if ((grant.startsOn && date < grant.startsOn) || (grant.endsOn && date > grant.endsOn)) {
+    return [];
+  }
+  const rolePermissions = getRolePermissions(grant.role as Role);
+  return grant.permissions
+    ? rolePermissions.filter(permission => grant.permissions!.includes(permission))
+    : rolePermissions;
+}
+
+// Everything the user may do somewhere: their own role plus any classroom staff grants. Routes still check the
+// specific classroom with getAuthorizedClassroom or canAccessStudent.
+export async function getUserPermissions(user: User): Promise<Permission[]> {
+  const grants = await storage.getStaffGrants(user.id);
+  return Array.from(new Set([
+    ...getRolePermissions(user.role as Role),
+    ...grants.flatMap(grant => getGrantPermissions(grant, grant.timeZone)),
+  ]));
+}
+
+// What the user may do within one classroom. The owner gets their own role there (a school admin who creates a
+// class still moves no money in it, matching requirePermission), school admins get their role in every classroom,
+// and staff get whatever their grant for it allows.
+export async function getClassroomAccess(
+  user: User,
+  classroom: Classroom,
+  grant?: ClassroomStaff | null
+): Promise<ClassroomAccess> {
+  if (classroom.teacherId === user.id) {
+    return { permissions: getRolePermissions(user.role as Role), withdrawalLimit: null };
+  }
+
+  const staff = grant === undefined ? await storage.getClassroomStaffGrant(classroom.id, user.id) : grant;
+  const grantPermissions = staff ? getGrantPermissions(staff, classroom.timeZone) : [];
+  const permissions = new Set(grantPermissions);
+  if (user.role === "school-admin") {
+    getRolePermissions("school-admin").forEach(permission => permissions.add(permission));
+  }
+
+  return {
+    permissions: Array.from(permissions),
+    withdrawalLimit: grantPermissions.length > 0 ? staff!.withdrawalLimit : null,
+  };
+}
+
+// Loads the signed-in user onto req.currentUser and rejects the request unless they have the permission in
+// at least one place. Must run after isAuthenticated.
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !(await getUserPermissions(user)).includes(permission)) {
+        return res.status(403).json({ message: `You don't have permission to ${PERMISSION_DESCRIPTIONS[permission]}` });
+      }
+
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Resolves the classroom a request is scoped to; undefined if it is missing or the user lacks the permission there
+export async function getAuthorizedClassroom(user: User, classroomId: unknown, permission: Permission) {
+  const id = parseInt(String(classroomId));
+  if (isNaN(id)) {
+    return undefined;
+  }
+  const classroom = await storage.getClassroom(id);
+  if (!classroom || !(await getClassroomAccess(user, classroom)).permissions.includes(permission)) {
+    return undefined;
+  }
+  return classroom;
+}
+
+// Calls `allows` with the user's access in each classroom the student is actively enrolled in
+async function someStudentClassroom(
+  user: User,
+  studentId: string,
+  allows: (access: ClassroomAccess) => boolean
+): Promise<boolean> {
+  const studentClassrooms = await storage.getStudentClassrooms(studentId);
+  for (const classroom of studentClassrooms) {
+    if (classroom.enrollmentStatus === "active" && allows(await getClassroomAccess(user, classroom))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Whether the user has the permission in any classroom the student is actively enrolled in
+export async function canAccessStudent(user: User, studentId: string, permission: Permission): Promise<boolean> {
+  return someStudentClassroom(user, studentId, access => access.permissions.includes(permission));
+}
+
+// Whether the access lets the user approve taking this amount from a student: approve_withdrawals, within any cap
+function allowsApproval(access: ClassroomAccess, amount: string) {
+  return access.permissions.includes("approve_withdrawals") &&
+    (access.withdrawalLimit === null || parseFloat(amount) <= parseFloat(access.withdrawalLimit));
+}
+
+export async function canApproveWithdrawal(user: User, studentId: string, amount: string): Promise<boolean> {
+  return someStudentClassroom(user, studentId, access => allowsApproval(access, amount));
+}
+
+// The same check in one classroom, for purchases that belong to it such as store orders and housing
+export async function canApproveInClassroom(user: User, classroom: Classroom, amount: string): Promise<boolean> {
+  return allowsApproval(await getClassroomAccess(user, classroom), amount);
+}
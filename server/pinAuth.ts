@@ -0,0 +1,92 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { verifyPassword } from "./localAuth";
+import type { SessionUser } from "./auth";
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+// PIN sessions live on shared classroom devices, so they end well before a normal login would
+const PIN_SESSION_SECONDS = 2 * 60 * 60;
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+// Three to six taps on the nine-picture grid
+export const PICTURE_SEQUENCE_PATTERN = /^[0-8](-[0-8]){2,5}$/;
+
+// Class login works alongside whichever auth provider is active: the class roster page replaces the provider's
+// login for young students, and the session it creates is limited to the student's own account.
+export function setupPinLogin(app: Express) {
+  // Registered before the :loginKey routes so "logout" isn't taken for a key
+  app.post("/api/class-login/logout", (req, res) => {
+    req.logout(() => {
+      res.json({ message: "Logged out" });
+    });
+  });
+
+  app.get("/api/class-login/:loginKey", async (req, res) => {
+    try {
+      const classroom = await storage.getClassroomByLoginKey(req.params.loginKey);
+      if (!classroom) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      const students = await storage.getClassLoginRoster(classroom.id);
+      res.json({
+        classroomName: classroom.name,
+        // Last initials only, since this page is shown to the whole class
+        students: students.map(student => ({
+          id: student.id,
+          firstName: student.firstName,
+          lastInitial: student.lastName?.charAt(0) ?? "",
+          kind: student.kind,
+          length: student.length,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching class login roster:", error);
+      res.status(500).json({ message: "Failed to fetch class" });
+    }
+  });
+
+  app.post("/api/class-login/:loginKey", async (req, res, next) => {
+    try {
+      const { studentId, secret } = z.object({ studentId: z.string(), secret: z.string() }).parse(req.body);
+
+      const classroom = await storage.getClassroomByLoginKey(req.params.loginKey);
+      const roster = classroom ? await storage.getClassLoginRoster(classroom.id) : [];
+      const pin = roster.some(student => student.id === studentId) ? await storage.getStudentPin(studentId) : undefined;
+      if (!pin) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      if (pin.lockedUntil && pin.lockedUntil > new Date()) {
+        return res.status(423).json({ message: "Too many tries. Ask your teacher for help or wait a few minutes." });
+      }
+
+      if (!(await verifyPassword(secret, pin.secretHash))) {
+        const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+        const updated = await storage.recordPinFailure(studentId, MAX_FAILED_ATTEMPTS, lockedUntil);
+        if (updated.lockedUntil && updated.lockedUntil > new Date()) {
+          return res.status(423).json({ message: "Too many tries. Ask your teacher for help or wait a few minutes." });
+        }
+        return res.status(401).json({ message: "That's not right. Try again!" });
+      }
+
+      await storage.clearPinFailures(studentId);
+
+      const sessionUser: SessionUser = {
+        claims: { sub: studentId, pinLogin: true },
+        expires_at: Math.floor(Date.now() / 1000) + PIN_SESSION_SECONDS,
+      };
+      req.login(sessionUser, (loginError) => {
+        if (loginError) {
+          return next(loginError);
+        }
+        res.json({ message: "Logged in" });
+      });
+    } catch (error) {
+      console.error("Error logging in with PIN:", error);
+      res.status(500).json({ message: "Failed to log in" });
+    }
+  });
+}
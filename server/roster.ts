@@ -0,0 +1,224 @@
+import { storage } from "./storage";
+import type { Classroom } from "@shared/schema";
+
+// Column order used for export, and assumed for imports without a header row
+const ROSTER_COLUMNS = ["First Name", "Last Name", "Email", "Balance", "Period"];
+
+// Header spellings accepted on import, keyed by the normalized header text
+const HEADER_ALIASES: Record<string, RosterField> = {
+  firstname: "firstName",
+  first: "firstName",
+  lastname: "lastName",
+  last: "lastName",
+  email: "email",
+  emailaddress: "email",
+  balance: "startingBalance",
+  startingbalance: "startingBalance",
+  period: "period",
+  classperiod: "period",
+};
+
+type RosterField = "firstName" | "lastName" | "email" | "startingBalance" | "period";
+
+export interface RosterCsvRow {
+  line: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  startingBalance: string | null;
+  period: string | null;
+  errors: string[];
+}
+
+export interface RosterPreviewRow extends RosterCsvRow {
+  classroomId: number | null;
+  // Why the row will be skipped on import because the student already exists
+  duplicate: string | null;
+}
+
+export interface RosterPreview {
+  rows: RosterPreviewRow[];
+  errorCount: number;
+  duplicateCount: number;
+  importCount: number;
+}
+
+export interface RosterExportRow {
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  balance: string;
+  period: string | null;
+}
+
+// Splits CSV text into rows of cells, handling quoted cells with commas, escaped quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function parseRosterCsv(csv: string): RosterCsvRow[] {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const headerFields = rows[0].map(cell => HEADER_ALIASES[cell.toLowerCase().replace(/[^a-z]/g, "")]);
+  const hasHeader = headerFields.some(field => field !== undefined);
+  const fields: (RosterField | undefined)[] = hasHeader
+    ? headerFields
+    : ["firstName", "lastName", "email", "startingBalance", "period"];
+  const firstDataIndex = hasHeader ? 1 : 0;
+
+  return rows.slice(firstDataIndex).map((cells, index) => {
+    const values: Partial<Record<RosterField, string>> = {};
+    fields.forEach((field, column) => {
+      const value = cells[column]?.trim();
+      if (field && value) {
+        values[field] = value;
+      }
+    });
+
+    const errors: string[] = [];
+    if (!values.firstName) errors.push("First name is missing");
+    if (!values.lastName) errors.push("Last name is missing");
+    if (values.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email)) {
+      errors.push("Email doesn't look right");
+    }
+
+    let startingBalance = values.startingBalance?.replace(/^\$/, "") ?? null;
+    if (startingBalance !== null) {
+      if (!/^\d+(\.\d{1,2})?$/.test(startingBalance)) {
+        errors.push("Balance must be a dollar amount like 12.50");
+      } else if (parseFloat(startingBalance) === 0) {
+        startingBalance = null;
+      }
+    }
+
+    return {
+      line: index + firstDataIndex + 1,
+      firstName: values.firstName ?? "",
+      lastName: values.lastName ?? "",
+      email: values.email?.toLowerCase() ?? null,
+      startingBalance,
+      period: values.period ?? null,
+      errors,
+    };
+  });
+}
+
+// Validates a roster CSV for import into `classroom`. Rows with a period go to the teacher's class with that
+// period instead; rows whose student already exists are marked as duplicates and skipped on import.
+export async function previewRoster(teacherId: string, classroom: Classroom, csv: string): Promise<RosterPreview> {
+  const parsedRows = parseRosterCsv(csv);
+  const teacherClassrooms = await storage.getClassrooms(teacherId);
+  const existingByEmail = await storage.getUsersByEmails(
+    parsedRows.flatMap(row => (row.email ? [row.email] : []))
+  );
+
+  const existingNamesByClassroom = new Map<number, Set<string>>();
+  const seenEmails = new Set<string>();
+  const seenNames = new Set<string>();
+  const rows: RosterPreviewRow[] = [];
+
+  for (const row of parsedRows) {
+    const errors = [...row.errors];
+    let target: Classroom | undefined = classroom;
+    if (row.period) {
+      target = teacherClassrooms.find(c => c.period?.toLowerCase() === row.period!.toLowerCase());
+      if (!target) {
+        errors.push(`None of your classes is period "${row.period}"`);
+      }
+    }
+
+    const nameKey = `${target?.id}:${row.firstName.toLowerCase()} ${row.lastName.toLowerCase()}`;
+    if (row.email && seenEmails.has(row.email)) {
+      errors.push("Email appears more than once in this file");
+    } else if (seenNames.has(nameKey)) {
+      errors.push("Student appears more than once in this file");
+    }
+    if (row.email) seenEmails.add(row.email);
+    seenNames.add(nameKey);
+
+    let duplicate: string | null = null;
+    if (row.email && existingByEmail.some(user => user.email?.toLowerCase() === row.email)) {
+      duplicate = "Someone with this email already has an account";
+    } else if (target) {
+      if (!existingNamesByClassroom.has(target.id)) {
+        const students = await storage.getClassroomStudents(target.id);
+        existingNamesByClassroom.set(
+          target.id,
+          new Set(students.map(student => `${student.firstName} ${student.lastName}`.toLowerCase()))
+        );
+      }
+      if (existingNamesByClassroom.get(target.id)!.has(`${row.firstName} ${row.lastName}`.toLowerCase())) {
+        duplicate = `Already in ${target.name}`;
+      }
+    }
+
+    rows.push({ ...row, errors, classroomId: target?.id ?? null, duplicate });
+  }
+
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = rows.filter(row => row.errors.length === 0 && row.duplicate).length;
+
+  return {
+    rows,
+    errorCount,
+    duplicateCount,
+    importCount: rows.length - errorCount - duplicateCount,
+  };
+}
+
+export function toRosterCsv(rows: RosterExportRow[]): string {
+  const lines = [ROSTER_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(
+      [row.firstName ?? "", row.lastName ?? "", row.email ?? "", row.balance, row.period ?? ""]
+        .map(escapeCsvCell)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
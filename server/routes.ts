@@ -1,20 +1,139 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { storage, LedgerError, cdPayout, type AuctionLotStanding } from "./storage";
+import { setupAuth, isAuthenticated, getAuthProviderName } from "./auth";
+import { hashPassword } from "./localAuth";
+import { PIN_PATTERN, PICTURE_SEQUENCE_PATTERN } from "./pinAuth";
+import { previewRoster, toRosterCsv } from "./roster";
+import { today, dayOf, addDays } from "./dates";
+import { runPaycheck, collectRent, payInterest, getInterestLines } from "./payroll";
+import { getUpcomingRuns, getScheduledRuns, getSchoolCalendar } from "./scheduler";
+import {
+  requirePermission,
+  getUserPermissions,
+  getClassroomAccess,
+  getAuthorizedClassroom,
+  canAccessStudent,
+  canApproveWithdrawal,
+  canApproveInClassroom,
+} from "./permissions";
 import { 
+  insertClassroomSchema,
+  updateClassroomSchema,
   insertWithdrawalRequestSchema,
   updateWithdrawalRequestSchema,
   insertTransactionSchema,
   insertCustomQuickActionSchema,
+  insertJobSchema,
+  updateJobSchema,
+  insertJobApplicationSchema,
+  insertPayrollScheduleSchema,
+  updatePayrollScheduleSchema,
+  insertCalendarEntrySchema,
+  insertHousingUnitSchema,
+  updateHousingUnitSchema,
+  insertStoreItemSchema,
+  updateStoreItemSchema,
+  insertStoreOrderSchema,
+  insertAuctionSchema,
+  upsertSavingsSettingsSchema,
+  insertTransferSchema,
+  insertCdProductSchema,
+  openCdSchema,
+  type Account,
+  type CertificateOfDeposit,
+  type PayrollSchedule,
+  type StoreItem,
+  type InventoryItem,
 } from "@shared/schema";
+import { USER_ROLES, STUDENT_BANKER_POWERS } from "@shared/permissions";
+import { QUICK_REWARDS, QUICK_FINES } from "@shared/quickActions";
 import { z } from "zod";
 
+// Whether students can order the item on the classroom-local day
+function isStoreItemAvailable(item: Pick<StoreItem, "availableFrom" | "availableUntil">, onDate: string) {
+  return (!item.availableFrom || item.availableFrom <= onDate) && (!item.availableUntil || onDate <= item.availableUntil);
+}
+
+// Expiry isn't written to the database; an owned coupon counts as expired once its last day has passed
+function inventoryStatus(item: Pick<InventoryItem, "status" | "expiresOn">, onDate: string) {
+  return item.status === "owned" && item.expiresOn && item.expiresOn < onDate ? "expired" : item.status;
+}
+
+// The rules the student's savings account follows: its class's savings settings, and how many withdrawals are
+// left this period (null without a limit). Undefined once the class drops savings or the student leaves it.
+async function getSavingsRules(userId: string, savings: Account) {
+  const classroom = (await storage.getStudentClassrooms(userId))
+    .find(classroom => classroom.id === savings.classroomId && classroom.enrollmentStatus === "active");
+  const settings = classroom && await storage.getSavingsSettings(classroom.id);
+  if (!classroom || !settings) {
+    return undefined;
+  }
+
+  let withdrawalsLeft: number | null = null;
+  if (settings.withdrawalLimit) {
+    const used = await storage.countSavingsWithdrawals(savings.id, settings.withdrawalPeriod, classroom.timeZone);
+    withdrawalsLeft = Math.max(settings.withdrawalLimit - used, 0);
+  }
+  return { classroom, settings, withdrawalsLeft };
+}
+
+// A CD with what it pays back at maturity and what breaking it now would pay
+function describeCd<T extends CertificateOfDeposit>(cd: T) {
+  return { ...cd, projectedValue: cdPayout(cd, true), breakValue: cdPayout(cd, false) };
+}
+
+// Leading bidders are shown by name only, since the auctioneer view goes up on the projector
+function describeLot({ leadingBid, winner, ...lot }: AuctionLotStanding) {
+  return {
+    ...lot,
+    winner: winner && `${winner.firstName} ${winner.lastName}`,
+    leadingBid: leadingBid && {
+      amount: leadingBid.amount,
+      userId: leadingBid.userId,
+      bidder: `${leadingBid.user.firstName} ${leadingBid.user.lastName}`,
+      createdAt: leadingBid.createdAt,
+    },
+  };
+}
+
+// The rule fields a schedule needs depend on its frequency and kind; returns what is missing, if anything
+function getScheduleProblem(schedule: Pick<PayrollSchedule, "kind" | "payBy" | "amount" | "frequency" | "dayOfWeek" | "dayOfMonth">) {
+  if (schedule.frequency === "weekly" && schedule.dayOfWeek === null) {
+    return "Pick a day of the week";
+  }
+  if (schedule.frequency === "monthly" && schedule.dayOfMonth === null) {
+    return "Pick a day of the month";
+  }
+  // Interest pays the rate from the classroom's savings settings, so there's no amount to check
+  if (schedule.kind === "interest") {
+    return schedule.payBy === "flat" ? null : "Interest is paid at the savings rate";
+  }
+  if (schedule.payBy === (schedule.kind === "rent" ? "jobs" : "housing")) {
+    return schedule.kind === "rent" ? "Rent can be flat or by housing" : "Paychecks can be flat or by job";
+  }
+  if (schedule.payBy === "flat" && !schedule.amount) {
+    return "Enter an amount";
+  }
+  return null;
+}
+
+// A calendar page asks for at most a couple of months, which keeps the schedule lookups small
+const calendarRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).refine(({ from, to }) => from <= to && Date.parse(to) - Date.parse(from) <= 62 * 24 * 60 * 60 * 1000);
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
   // Auth routes
+  // Public, so the landing page knows whether to show a login form or redirect to the identity provider
+  app.get('/api/auth/config', (_req, res) => {
+    res.json({ provider: getAuthProviderName() });
+  });
+
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -25,379 +144,2832 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       let account = null;
+      let classrooms = null;
       if (user.role === "student") {
-        account = await storage.getAccount(userId);
+        // `balance` is the ledger balance; `available` leaves out what pending requests and leading bids hold
+        const ledger = await storage.getAccount(userId);
+        const held = await storage.getAccountHolds(userId);
+        account = ledger && {
+          ...ledger,
+          held,
+          available: Math.max(parseFloat(ledger.balance) - parseFloat(held), 0).toFixed(2),
+        };
+        classrooms = (await storage.getStudentClassrooms(userId)).map(classroom => ({
+          id: classroom.id,
+          name: classroom.name,
+          period: classroom.period,
+          enrollmentStatus: classroom.enrollmentStatus,
+        }));
       }
 
-      res.json({ ...user, account });
+      const permissions = await getUserPermissions(user);
+      res.json({ ...user, account, classrooms, permissions, pinLogin: !!req.user.claims.pinLogin });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  // Student routes
-  app.post('/api/withdrawal-requests', isAuthenticated, async (req: any, res) => {
+  // Classroom routes
+  // Each classroom carries the user's permissions there, so the dashboard can hide what they can't do in it.
+  // Classrooms where a student banker's grant has lapsed are left out.
+  app.get('/api/classrooms', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classrooms = await storage.getAccessibleClassrooms(user.id, user.role === "school-admin");
+      const withAccess = await Promise.all(classrooms.map(async ({ staff, ...classroom }) => ({
+        ...classroom,
+        ...(await getClassroomAccess(user, classroom, staff)),
+      })));
+      res.json(withAccess.filter(classroom => classroom.permissions.length > 0));
+    } catch (error) {
+      console.error("Error fetching classrooms:", error);
+      res.status(500).json({ message: "Failed to fetch classrooms" });
+    }
+  });
+
+  app.post('/api/classrooms', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "student") {
-        return res.status(403).json({ message: "Only students can create withdrawal requests" });
-      }
 
-      const account = await storage.getAccount(userId);
-      if (!account) {
-        return res.status(404).json({ message: "Account not found" });
+      const data = insertClassroomSchema.parse({
+        ...req.body,
+        teacherId: userId,
+      });
+
+      const classroom = await storage.createClassroom(data);
+      res.json(classroom);
+    } catch (error) {
+      console.error("Error creating classroom:", error);
+      res.status(500).json({ message: "Failed to create classroom" });
+    }
+  });
+
+  app.patch('/api/classrooms/:id', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const data = insertWithdrawalRequestSchema.parse(req.body);
-      
-      // Check if student has sufficient balance
-      if (parseFloat(data.amount) > parseFloat(account.balance)) {
-        return res.status(400).json({ message: "Insufficient balance" });
+      const update = updateClassroomSchema.parse(req.body);
+      const updated = await storage.updateClassroom(classroom.id, update);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating classroom:", error);
+      res.status(500).json({ message: "Failed to update classroom" });
+    }
+  });
+
+  // Issues a fresh join code, replacing any previous one
+  app.post('/api/classrooms/:id/join-code', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const request = await storage.createWithdrawalRequest({
-        ...data,
-        accountId: account.id,
-      });
+      const { expiresInDays } = z.object({
+        expiresInDays: z.number().int().positive().max(365).nullable().optional(),
+      }).parse(req.body);
 
-      res.json(request);
+      const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+      const updated = await storage.regenerateJoinCode(classroom.id, expiresAt);
+      res.json(updated);
     } catch (error) {
-      console.error("Error creating withdrawal request:", error);
-      res.status(500).json({ message: "Failed to create withdrawal request" });
+      console.error("Error creating join code:", error);
+      res.status(500).json({ message: "Failed to create join code" });
     }
   });
 
-  app.get('/api/transactions', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/classrooms/:id/join-code', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const account = await storage.getAccount(userId);
-      
-      if (!account) {
-        return res.status(404).json({ message: "Account not found" });
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const transactions = await storage.getTransactionsByAccount(account.id);
-      res.json(transactions);
+      const updated = await storage.revokeJoinCode(classroom.id);
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching transactions:", error);
-      res.status(500).json({ message: "Failed to fetch transactions" });
+      console.error("Error revoking join code:", error);
+      res.status(500).json({ message: "Failed to revoke join code" });
     }
   });
 
-  // Teacher routes
-  app.get('/api/students', isAuthenticated, async (req: any, res) => {
+  app.get('/api/classrooms/:id/enrollment-requests', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can view all students" });
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const requests = await storage.getPendingEnrollments(classroom.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching enrollment requests:", error);
+      res.status(500).json({ message: "Failed to fetch enrollment requests" });
+    }
+  });
+
+  app.post('/api/classrooms/:id/enrollments/:studentId/approve', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const students = await storage.getAllStudents();
+      const approved = await storage.approveEnrollment(classroom.id, req.params.studentId);
+      if (!approved) {
+        return res.status(404).json({ message: "Enrollment request not found" });
+      }
+
+      res.json({ message: `Student added to ${classroom.name}` });
+    } catch (error) {
+      console.error("Error approving enrollment:", error);
+      res.status(500).json({ message: "Failed to approve enrollment" });
+    }
+  });
+
+  app.get('/api/unenrolled-students', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const students = await storage.getUnenrolledStudents();
       res.json(students);
     } catch (error) {
-      console.error("Error fetching students:", error);
-      res.status(500).json({ message: "Failed to fetch students" });
+      console.error("Error fetching unenrolled students:", error);
+      res.status(500).json({ message: "Failed to fetch unenrolled students" });
     }
   });
 
-  app.get('/api/pending-requests', isAuthenticated, async (req: any, res) => {
+  app.post('/api/classrooms/:id/enrollments', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can view withdrawal requests" });
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const requests = await storage.getPendingWithdrawalRequests();
-      res.json(requests);
+      const { studentId } = z.object({ studentId: z.string() }).parse(req.body);
+      const student = await storage.getUser(studentId);
+      if (!student || student.role !== "student") {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      // Only students in no class yet, or already in one of yours; anyone else's students join with a join code
+      const enrolled = (await storage.getStudentClassrooms(studentId)).length > 0;
+      if (enrolled && !(await canAccessStudent(user, studentId, "manage_students"))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      await storage.enrollStudent(classroom.id, studentId);
+      res.json({ message: `${student.firstName} ${student.lastName} added to ${classroom.name}` });
     } catch (error) {
-      console.error("Error fetching pending requests:", error);
-      res.status(500).json({ message: "Failed to fetch pending requests" });
+      console.error("Error enrolling student:", error);
+      res.status(500).json({ message: "Failed to enroll student" });
     }
   });
 
-  app.patch('/api/withdrawal-requests/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/classrooms/:id/enrollments/:studentId', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can approve/deny requests" });
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const requestId = parseInt(req.params.id);
-      const updateData = updateWithdrawalRequestSchema.parse({
-        ...req.body,
-        reviewedBy: userId,
-      });
+      await storage.unenrollStudent(classroom.id, req.params.studentId);
+      res.json({ message: "Student removed from classroom" });
+    } catch (error) {
+      console.error("Error removing student:", error);
+      res.status(500).json({ message: "Failed to remove student" });
+    }
+  });
 
-      const updatedRequest = await storage.updateWithdrawalRequest(requestId, updateData);
-
-      // If approved, deduct from account balance and create transaction
-      if (updateData.status === "approved") {
-        const pendingRequests = await storage.getPendingWithdrawalRequests();
-        const originalRequest = pendingRequests.find(r => r.id === requestId);
-        
-        if (originalRequest) {
-          const currentBalance = parseFloat(originalRequest.account.balance);
-          const withdrawalAmount = parseFloat(originalRequest.amount);
-          const newBalance = (currentBalance - withdrawalAmount).toFixed(2);
-          
-          await storage.updateAccountBalance(originalRequest.user.id, newBalance);
-          
-          await storage.createTransaction({
-            accountId: originalRequest.account.id,
-            type: "withdrawal",
-            amount: `-${originalRequest.amount}`,
-            description: `Withdrawal: ${originalRequest.reason}`,
-            createdBy: userId,
-          });
-        }
+  // Classroom staff routes
+  app.get('/api/classrooms/:id/staff', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      res.json(updatedRequest);
+      const staff = await storage.getClassroomStaff(classroom.id);
+      res.json(staff);
     } catch (error) {
-      console.error("Error updating withdrawal request:", error);
-      res.status(500).json({ message: "Failed to update withdrawal request" });
+      console.error("Error fetching classroom staff:", error);
+      res.status(500).json({ message: "Failed to fetch classroom staff" });
     }
   });
 
-  app.post('/api/distribute-paycheck', isAuthenticated, async (req: any, res) => {
+  app.post('/api/classrooms/:id/staff', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can distribute paychecks" });
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const { email } = z.object({ email: z.string().trim().email() }).parse(req.body);
+      const coTeacher = await storage.getUserByEmail(email);
+      if (!coTeacher) {
+        return res.status(404).json({ message: "No one with that email has logged in yet" });
+      }
+      if (coTeacher.role !== "teacher" && coTeacher.role !== "co-teacher") {
+        return res.status(400).json({ message: "Only teachers and co-teachers can help run a class" });
       }
+      if (coTeacher.id === classroom.teacherId) {
+        return res.status(400).json({ message: "That teacher already owns this class" });
+      }
+
+      await storage.addClassroomStaff({ classroomId: classroom.id, userId: coTeacher.id, role: "co-teacher" });
+      res.json({ message: `${coTeacher.firstName} ${coTeacher.lastName} is now a co-teacher of ${classroom.name}` });
+    } catch (error) {
+      console.error("Error adding co-teacher:", error);
+      res.status(500).json({ message: "Failed to add co-teacher" });
+    }
+  });
 
-      const { amount } = z.object({ amount: z.string() }).parse(req.body);
-      const students = await storage.getAllStudents();
+  app.delete('/api/classrooms/:id/staff/:userId', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
 
-      const transactions = [];
-      
-      for (const student of students) {
-        const currentBalance = parseFloat(student.account.balance);
-        const paycheckAmount = parseFloat(amount);
-        const newBalance = (currentBalance + paycheckAmount).toFixed(2);
-        
-        await storage.updateAccountBalance(student.id, newBalance);
-        
-        const transaction = await storage.createTransaction({
-          accountId: student.account.id,
-          type: "paycheck",
-          amount: amount,
-          description: "Weekly Paycheck",
-          createdBy: userId,
-        });
-        
-        transactions.push(transaction);
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      res.json({ message: `Paycheck of $${amount} distributed to ${students.length} students`, transactions });
+      await storage.removeClassroomStaff(classroom.id, req.params.userId);
+      res.json({ message: "Removed from classroom staff" });
     } catch (error) {
-      console.error("Error distributing paycheck:", error);
-      res.status(500).json({ message: "Failed to distribute paycheck" });
+      console.error("Error removing classroom staff:", error);
+      res.status(500).json({ message: "Failed to remove classroom staff" });
     }
   });
 
-  app.post('/api/adjust-balance', isAuthenticated, async (req: any, res) => {
+  // Hands some teller powers to a student in the class for a date range; replaces any earlier grant. Every grant
+  // includes view_students, which a banker needs to pick the classroom and open the Bank Desk at all.
+  app.post('/api/classrooms/:id/bankers', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can adjust balances" });
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const { studentId, amount, description, type } = z.object({
+      const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+      const { studentId, permissions, withdrawalLimit, startsOn, endsOn } = z.object({
         studentId: z.string(),
-        amount: z.string(),
-        description: z.string(),
-        type: z.enum(["add", "subtract"])
+        permissions: z.array(z.enum(STUDENT_BANKER_POWERS)),
+        withdrawalLimit: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable().optional(),
+        startsOn: isoDate,
+        endsOn: isoDate,
       }).parse(req.body);
 
+      if (endsOn < startsOn) {
+        return res.status(400).json({ message: "The last day must be on or after the first day" });
+      }
+
       const student = await storage.getUser(studentId);
-      if (!student || student.role !== "student") {
+      const isEnrolled = (await storage.getStudentClassrooms(studentId))
+        .some(studentClassroom => studentClassroom.id === classroom.id && studentClassroom.enrollmentStatus === "active");
+      if (!student || !isEnrolled) {
         return res.status(404).json({ message: "Student not found" });
       }
 
-      const account = await storage.getAccount(studentId);
-      if (!account) {
-        return res.status(404).json({ message: "Student account not found" });
+      const grant = await storage.addClassroomStaff({
+        classroomId: classroom.id,
+        userId: student.id,
+        role: "student-banker",
+        permissions: Array.from(new Set(["view_students" as const, ...permissions])),
+        withdrawalLimit: withdrawalLimit ?? null,
+        startsOn,
+        endsOn,
+      });
+      res.json({ message: `${student.firstName} ${student.lastName} is the banker from ${startsOn} to ${endsOn}`, grant });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick the banker's powers and a valid date range" });
       }
+      console.error("Error appointing student banker:", error);
+      res.status(500).json({ message: "Failed to appoint student banker" });
+    }
+  });
 
-      const currentBalance = parseFloat(account.balance);
-      const adjustmentAmount = parseFloat(amount);
-      const newBalance = type === "add" 
-        ? (currentBalance + adjustmentAmount).toFixed(2)
-        : (currentBalance - adjustmentAmount).toFixed(2);
+  // Everything posted on the class's students by its student bankers, for the teacher to review and reverse
+  app.get('/api/classrooms/:id/banker-activity', isAuthenticated, requirePermission("manage_classrooms"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
 
-      if (parseFloat(newBalance) < 0) {
-        return res.status(400).json({ message: "Balance cannot be negative" });
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_classrooms");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      await storage.updateAccountBalance(studentId, newBalance);
-      
-      const transaction = await storage.createTransaction({
-        accountId: account.id,
-        type: type === "add" ? "bonus" : "withdrawal",
-        amount: type === "add" ? amount : `-${amount}`,
-        description,
-        createdBy: userId,
-      });
-
-      res.json({ message: "Balance adjusted successfully", transaction });
+      const activity = await storage.getStudentBankerActivity(classroom.id);
+      res.json(activity);
     } catch (error) {
-      console.error("Error adjusting balance:", error);
-      res.status(500).json({ message: "Failed to adjust balance" });
+      console.error("Error fetching banker activity:", error);
+      res.status(500).json({ message: "Failed to fetch banker activity" });
     }
   });
 
-  app.post('/api/collect-rent', isAuthenticated, async (req: any, res) => {
+  // School admin routes
+  app.patch('/api/users/role', isAuthenticated, requirePermission("manage_roles"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can collect rent" });
-      }
+      const user = req.currentUser;
 
-      const { amount } = z.object({ amount: z.string() }).parse(req.body);
-      const students = await storage.getAllStudents();
+      const { email, role } = z.object({
+        email: z.string().trim().email(),
+        role: z.enum(USER_ROLES),
+      }).parse(req.body);
 
-      const transactions = [];
-      let studentsAffected = 0;
-      
-      for (const student of students) {
-        const currentBalance = parseFloat(student.account.balance);
-        const rentAmount = parseFloat(amount);
-        
-        // Deduct rent, but don't let balance go below 0
-        const newBalance = Math.max(0, currentBalance - rentAmount).toFixed(2);
-        
-        if (currentBalance > 0) {
-          await storage.updateAccountBalance(student.id, newBalance);
-          
-          const actualDeduction = currentBalance - parseFloat(newBalance);
-          if (actualDeduction > 0) {
-            const transaction = await storage.createTransaction({
-              accountId: student.account.id,
-              type: "rent",
-              amount: `-${actualDeduction.toFixed(2)}`,
-              description: "Monthly Rent",
-              createdBy: userId,
-            });
-            
-            transactions.push(transaction);
-            studentsAffected++;
-          }
-        }
+      const target = await storage.getUserByEmail(email);
+      if (!target) {
+        return res.status(404).json({ message: "No one with that email has logged in yet" });
+      }
+      if (target.id === user.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
       }
 
-      res.json({ 
-        message: `Monthly rent collected from ${studentsAffected} students`, 
-        transactions,
-        studentsAffected
-      });
+      const updated = await storage.updateUserRole(target.id, role);
+      res.json({ message: `${updated.firstName} ${updated.lastName} is now a ${role}`, user: updated });
     } catch (error) {
-      console.error("Error collecting rent:", error);
-      res.status(500).json({ message: "Failed to collect rent" });
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update role" });
     }
   });
 
-  app.get('/api/stats', isAuthenticated, async (req: any, res) => {
+  // Student routes
+  app.post('/api/join', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can view stats" });
-      }
 
-      const [totalStudents, totalBalance, pendingRequests, weeklyTotal] = await Promise.all([
-        storage.getTotalStudentCount(),
-        storage.getTotalBalance(),
-        storage.getPendingRequestCount(),
-        storage.getWeeklyTotal(),
-      ]);
+      const { code } = z.object({ code: z.string().min(1) }).parse(req.body);
+      const classroom = await storage.getClassroomByJoinCode(code);
+      if (!classroom) {
+        return res.status(404).json({ message: "That join code doesn't match any class" });
+      }
+      if (classroom.joinCodeExpiresAt && classroom.joinCodeExpiresAt < new Date()) {
+        return res.status(410).json({ message: "That join code has expired. Ask your teacher for a new one." });
+      }
 
+      const enrollment = await storage.joinClassroom(classroom, userId);
       res.json({
-        totalStudents,
-        totalBalance,
-        pendingRequests,
-        weeklyTotal,
+        message: enrollment.status === "pending"
+          ? `Request sent! Your teacher needs to approve you for ${classroom.name}.`
+          : `Welcome to ${classroom.name}!`,
+        enrollment,
       });
     } catch (error) {
-      console.error("Error fetching stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
+      console.error("Error joining classroom:", error);
+      res.status(500).json({ message: "Failed to join class" });
     }
   });
 
-  // Custom quick actions routes
-  app.get('/api/custom-actions', isAuthenticated, async (req: any, res) => {
+  app.post('/api/withdrawal-requests', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can view custom actions" });
+
+      const account = await storage.getAccount(userId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
       }
 
-      const actions = await storage.getCustomQuickActions(userId);
-      res.json(actions);
+      const data = insertWithdrawalRequestSchema.parse(req.body);
+
+      // Holds the amount, refusing it if earlier requests already hold the balance
+      const request = await storage.createWithdrawalRequest({
+        ...data,
+        accountId: account.id,
+      });
+
+      res.json(request);
     } catch (error) {
-      console.error("Error fetching custom actions:", error);
-      res.status(500).json({ message: "Failed to fetch custom actions" });
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating withdrawal request:", error);
+      res.status(500).json({ message: "Failed to create withdrawal request" });
     }
   });
 
-  app.post('/api/custom-actions', isAuthenticated, async (req: any, res) => {
+  app.get('/api/transactions', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const account = await storage.getAccount(userId);
       
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can create custom actions" });
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
       }
 
-      const validatedData = insertCustomQuickActionSchema.parse({
-        ...req.body,
-        teacherId: userId,
-      });
+      const transactions = await storage.getTransactionsByAccount(account.id);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
 
-      const action = await storage.createCustomQuickAction(validatedData);
-      res.json(action);
+  // Teacher routes
+  app.get('/api/students', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const students = await storage.getClassroomStudents(classroom.id);
+      res.json(students);
     } catch (error) {
-      console.error("Error creating custom action:", error);
-      res.status(500).json({ message: "Failed to create custom action" });
+      console.error("Error fetching students:", error);
+      res.status(500).json({ message: "Failed to fetch students" });
     }
   });
 
-  app.delete('/api/custom-actions/:id', isAuthenticated, async (req: any, res) => {
+  // Adds a student to the roster before they have logged in; their first login with the same email claims the record
+  app.post('/api/add-student', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user || user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can delete custom actions" });
+      const user = req.currentUser;
+
+      const { classroomId, firstName, lastName, email } = z.object({
+        classroomId: z.number(),
+        firstName: z.string().trim().min(1),
+        lastName: z.string().trim().min(1),
+        email: z.string().trim().email().optional(),
+      }).parse(req.body);
+
+      const classroom = await getAuthorizedClassroom(user, classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
       }
 
-      const actionId = parseInt(req.params.id);
-      await storage.deleteCustomQuickAction(actionId, userId);
-      res.json({ message: "Custom action deleted successfully" });
+      if (email && await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "Someone with that email already has an account" });
+      }
+
+      const student = await storage.createRosterStudent(classroom.id, { firstName, lastName, email });
+      res.json({
+        message: `${student.firstName} ${student.lastName} added to ${classroom.name}`,
+        student,
+      });
     } catch (error) {
-      console.error("Error deleting custom action:", error);
+      console.error("Error adding student:", error);
+      res.status(500).json({ message: "Failed to add student" });
+    }
+  });
+
+  app.post('/api/roster/preview', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const { classroomId, csv } = z.object({ classroomId: z.number(), csv: z.string() }).parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const preview = await previewRoster(classroom.teacherId, classroom, csv);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing roster:", error);
+      res.status(500).json({ message: "Failed to read roster" });
+    }
+  });
+
+  // Re-validates the same CSV that was previewed and imports it only if no row has errors; duplicates are skipped
+  app.post('/api/roster/import', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const { classroomId, csv } = z.object({ classroomId: z.number(), csv: z.string() }).parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const preview = await previewRoster(classroom.teacherId, classroom, csv);
+      if (preview.errorCount > 0) {
+        return res.status(400).json({ message: `Fix the ${preview.errorCount} rows with problems before importing` });
+      }
+
+      // Rows can name another period of the same teacher, which a co-teacher may not help run
+      const targetClassroomIds = Array.from(new Set(preview.rows.map(row => row.classroomId!)));
+      for (const targetClassroomId of targetClassroomIds) {
+        if (!(await getAuthorizedClassroom(user, targetClassroomId, "manage_students"))) {
+          return res.status(403).json({ message: "You can only import students into classes you help run" });
+        }
+      }
+
+      const imported = await storage.importRoster(
+        preview.rows
+          .filter(row => !row.duplicate)
+          .map(row => ({
+            classroomId: row.classroomId!,
+            firstName: row.firstName,
+            lastName: row.lastName,
+            email: row.email ?? undefined,
+            startingBalance: row.startingBalance,
+          })),
+        userId
+      );
+
+      res.json({
+        message: `Imported ${imported} students${preview.duplicateCount > 0 ? `, skipped ${preview.duplicateCount} already on the roster` : ""}`,
+        imported,
+        skipped: preview.duplicateCount,
+      });
+    } catch (error) {
+      console.error("Error importing roster:", error);
+      res.status(500).json({ message: "Failed to import roster" });
+    }
+  });
+
+  app.get('/api/roster/export', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const students = await storage.getClassroomStudents(classroom.id);
+      const csv = toRosterCsv(students.map(student => ({
+        firstName: student.firstName,
+        lastName: student.lastName,
+        email: student.email,
+        balance: student.account.balance,
+        period: classroom.period,
+      })));
+
+      const filename = `${classroom.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}-roster.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting roster:", error);
+      res.status(500).json({ message: "Failed to export roster" });
+    }
+  });
+
+  app.get('/api/students/:id/credentials', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      if (!(await canAccessStudent(user, req.params.id, "manage_students"))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const credentials = await storage.getLocalCredentials(req.params.id);
+      res.json({ username: credentials?.username ?? null });
+    } catch (error) {
+      console.error("Error fetching student login:", error);
+      res.status(500).json({ message: "Failed to fetch student login" });
+    }
+  });
+
+  // Creates a student's username/password login, or resets the password of an existing one
+  app.put('/api/students/:id/credentials', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const student = await storage.getUser(req.params.id);
+      if (!student || !(await canAccessStudent(user, student.id, "manage_students"))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const { username, password } = z.object({
+        username: z.string().trim().min(3).max(40).regex(/^[a-zA-Z0-9._-]+$/),
+        password: z.string().min(6).max(200),
+      }).parse(req.body);
+
+      const existing = await storage.getLocalCredentialsByUsername(username);
+      if (existing && existing.userId !== student.id) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+
+      await storage.setLocalCredentials(student.id, username, await hashPassword(password));
+      res.json({ message: `Login saved for ${student.firstName} ${student.lastName}` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Usernames need at least 3 letters or numbers and passwords at least 6 characters" });
+      }
+      console.error("Error saving student login:", error);
+      res.status(500).json({ message: "Failed to save student login" });
+    }
+  });
+
+  app.get('/api/students/:id/pin', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      if (!(await canAccessStudent(user, req.params.id, "manage_students"))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const pin = await storage.getStudentPin(req.params.id);
+      res.json(pin ? { kind: pin.kind, length: pin.length, lockedUntil: pin.lockedUntil } : null);
+    } catch (error) {
+      console.error("Error fetching student PIN:", error);
+      res.status(500).json({ message: "Failed to fetch student PIN" });
+    }
+  });
+
+  // Sets or resets a student's PIN or picture sequence; this also unlocks a locked-out student
+  app.put('/api/students/:id/pin', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const student = await storage.getUser(req.params.id);
+      if (!student || !(await canAccessStudent(user, student.id, "manage_students"))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const { kind, secret } = z.object({
+        kind: z.enum(["pin", "picture"]),
+        secret: z.string(),
+      }).parse(req.body);
+
+      if (kind === "pin" ? !PIN_PATTERN.test(secret) : !PICTURE_SEQUENCE_PATTERN.test(secret)) {
+        return res.status(400).json({
+          message: kind === "pin" ? "PINs must be 4 to 6 digits" : "Pick 3 to 6 pictures",
+        });
+      }
+
+      const length = kind === "pin" ? secret.length : secret.split("-").length;
+      await storage.setStudentPin(student.id, kind, length, await hashPassword(secret));
+      res.json({ message: `${kind === "pin" ? "PIN" : "Picture password"} saved for ${student.firstName} ${student.lastName}` });
+    } catch (error) {
+      console.error("Error saving student PIN:", error);
+      res.status(500).json({ message: "Failed to save student PIN" });
+    }
+  });
+
+  app.post('/api/classrooms/:id/login-key', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.params.id, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const loginKey = await storage.ensureClassroomLoginKey(classroom.id);
+      res.json({ loginKey });
+    } catch (error) {
+      console.error("Error creating class login key:", error);
+      res.status(500).json({ message: "Failed to open class login" });
+    }
+  });
+
+  app.get('/api/students/:id/transactions', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const account = await storage.getAccount(req.params.id);
+      if (!account || !(await canAccessStudent(user, req.params.id, "view_students"))) {
+        return res.status(404).json({ message: "Student account not found" });
+      }
+
+      const transactions = await storage.getTransactionsByAccount(account.id);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching student transactions:", error);
+      res.status(500).json({ message: "Failed to fetch student transactions" });
+    }
+  });
+
+  app.post('/api/transactions/:id/reverse', isAuthenticated, requirePermission("adjust_balances"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const transactionId = parseInt(req.params.id);
+      const transaction = await storage.getTransaction(transactionId);
+      if (!transaction?.account.userId || !(await canAccessStudent(user, transaction.account.userId, "adjust_balances"))) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const posted = await storage.reverseTransaction(transactionId, userId);
+      res.json({ message: "Transaction reversed successfully", transaction: posted.transaction });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error reversing transaction:", error);
+      res.status(500).json({ message: "Failed to reverse transaction" });
+    }
+  });
+
+  app.get('/api/pending-requests', isAuthenticated, requirePermission("approve_withdrawals"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "approve_withdrawals");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const requests = await storage.getPendingWithdrawalRequests(classroom.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching pending requests:", error);
+      res.status(500).json({ message: "Failed to fetch pending requests" });
+    }
+  });
+
+  app.patch('/api/withdrawal-requests/:id', isAuthenticated, requirePermission("approve_withdrawals"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const requestId = parseInt(req.params.id);
+      const request = await storage.getWithdrawalRequest(requestId);
+      // A store order belongs to the item's classroom: it's reviewed there, takes that classroom's stock and its
+      // coupons start counting their days in that classroom
+      const storeItem = request?.storeItemId ? await storage.getStoreItem(request.storeItemId) : undefined;
+      const classroom = storeItem ? await getAuthorizedClassroom(user, storeItem.classroomId, "approve_withdrawals") : undefined;
+      if (
+        !request?.account.userId ||
+        (storeItem ? !classroom : !(await canAccessStudent(user, request.account.userId, "approve_withdrawals")))
+      ) {
+        return res.status(404).json({ message: "Withdrawal request not found" });
+      }
+      if (request.account.userId === userId) {
+        return res.status(403).json({ message: "You can't review your own withdrawal request" });
+      }
+
+      const updateData = updateWithdrawalRequestSchema.parse({
+        ...req.body,
+        reviewedBy: userId,
+      });
+
+      const canApprove = classroom
+        ? await canApproveInClassroom(user, classroom, request.amount)
+        : await canApproveWithdrawal(user, request.account.userId, request.amount);
+      if (updateData.status === "approved" && !canApprove) {
+        return res.status(403).json({ message: "Withdrawals this large need a teacher's approval" });
+      }
+
+      // Approval posts the withdrawal in the same DB transaction as the status change
+      const updatedRequest = await storage.reviewWithdrawalRequest(requestId, updateData, today(classroom?.timeZone));
+
+      res.json(updatedRequest);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating withdrawal request:", error);
+      res.status(500).json({ message: "Failed to update withdrawal request" });
+    }
+  });
+
+  app.post('/api/distribute-paycheck', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const { classroomId, payBy, amount, idempotencyKey } = z.object({
+        classroomId: z.number(),
+        // "flat" pays every student `amount`; "jobs" pays each student the wages of the jobs they hold today
+        payBy: z.enum(["flat", "jobs"]).default("flat"),
+        amount: z.string().optional(),
+        idempotencyKey: z.string().min(1).optional(),
+      }).parse(req.body);
+
+      const classroom = await getAuthorizedClassroom(user, classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const { batch, transactions, replayed } = await runPaycheck(
+        classroom,
+        { payBy, amount, onDate: today(classroom.timeZone), idempotencyKey },
+        userId
+      );
+
+      res.json({
+        message: batch.amount
+          ? `Paycheck of $${batch.amount} distributed to ${batch.studentsAffected} students`
+          : `Job payroll of $${batch.totalAmount} paid to ${batch.studentsAffected} students`,
+        transactions,
+        batch,
+        replayed,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error distributing paycheck:", error);
+      res.status(500).json({ message: "Failed to distribute paycheck" });
+    }
+  });
+
+  // What a job payroll run would pay each student today, without posting anything
+  app.get('/api/payroll-preview', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const payroll = await storage.getJobPayroll(classroom.id, today(classroom.timeZone));
+      res.json(payroll.map(({ student, jobs, amount }) => ({
+        student: { id: student.id, firstName: student.firstName, lastName: student.lastName },
+        jobs,
+        amount,
+      })));
+    } catch (error) {
+      console.error("Error previewing payroll:", error);
+      res.status(500).json({ message: "Failed to preview payroll" });
+    }
+  });
+
+  // Housing routes
+  app.get('/api/housing-units', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const units = await storage.getHousingUnits(classroom.id, today(classroom.timeZone));
+      res.json(units);
+    } catch (error) {
+      console.error("Error fetching housing:", error);
+      res.status(500).json({ message: "Failed to fetch housing" });
+    }
+  });
+
+  app.post('/api/housing-units', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const data = insertHousingUnitSchema.parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const unit = await storage.createHousingUnit({ ...data, classroomId: classroom.id });
+      res.json(unit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Housing needs a name, a rent in dollars, room for at least one student and a sale price in dollars if it's for sale" });
+      }
+      console.error("Error creating housing unit:", error);
+      res.status(500).json({ message: "Failed to create housing" });
+    }
+  });
+
+  app.patch('/api/housing-units/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const unit = await storage.getHousingUnit(parseInt(req.params.id));
+      if (!unit || !(await getAuthorizedClassroom(user, unit.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Housing not found" });
+      }
+
+      const update = updateHousingUnitSchema.parse(req.body);
+      const updated = await storage.updateHousingUnit(unit.id, update);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Housing needs a name, a rent in dollars, room for at least one student and a sale price in dollars if it's for sale" });
+      }
+      console.error("Error updating housing unit:", error);
+      res.status(500).json({ message: "Failed to update housing" });
+    }
+  });
+
+  app.delete('/api/housing-units/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const unit = await storage.getHousingUnit(parseInt(req.params.id));
+      if (!unit || !(await getAuthorizedClassroom(user, unit.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Housing not found" });
+      }
+
+      await storage.deleteHousingUnit(unit.id);
+      res.json({ message: `${unit.name} removed` });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting housing unit:", error);
+      res.status(500).json({ message: "Failed to delete housing" });
+    }
+  });
+
+  app.post('/api/housing-units/:id/assignments', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const unit = await storage.getHousingUnit(parseInt(req.params.id));
+      const classroom = unit && await getAuthorizedClassroom(user, unit.classroomId, "manage_students");
+      if (!unit || !classroom) {
+        return res.status(404).json({ message: "Housing not found" });
+      }
+
+      const { studentId, startsOn } = z.object({
+        studentId: z.string(),
+        startsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      }).parse(req.body);
+
+      const student = await storage.getUser(studentId);
+      const isEnrolled = (await storage.getStudentClassrooms(studentId))
+        .some(studentClassroom => studentClassroom.id === classroom.id && studentClassroom.enrollmentStatus === "active");
+      if (!student || !isEnrolled) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      // One home at a time, so rent by housing always has a single unit to charge. Someone already living
+      // elsewhere moves out the day before.
+      const current = await storage.getStudentHousingFrom(classroom.id, student.id, startsOn);
+      if (current && (current.unitId === unit.id || current.startsOn >= startsOn)) {
+        return res.status(400).json({ message: `${student.firstName} already lives in ${current.unit.name} on ${startsOn}` });
+      }
+      const residents = await storage.getHousingAssignmentsOn(unit.id, startsOn);
+      if (residents.length >= unit.capacity) {
+        return res.status(400).json({ message: `${unit.name} is full on ${startsOn}` });
+      }
+
+      const newAssignment = { unitId: unit.id, userId: student.id, startsOn, endsOn: null };
+      const assignment = current
+        ? await storage.moveHousing(current.id, addDays(startsOn, -1), newAssignment)
+        : await storage.createHousingAssignment(newAssignment);
+      res.json({
+        message: current
+          ? `${student.firstName} ${student.lastName} moved from ${current.unit.name} to ${unit.name}`
+          : `${student.firstName} ${student.lastName} moved into ${unit.name}`,
+        assignment,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick a student and a move-in day" });
+      }
+      console.error("Error assigning housing:", error);
+      res.status(500).json({ message: "Failed to assign housing" });
+    }
+  });
+
+  // Moves a student out; rent by housing charges them for the unit through their last day
+  app.patch('/api/housing-assignments/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const assignment = await storage.getHousingAssignment(parseInt(req.params.id));
+      const classroom = assignment && await getAuthorizedClassroom(user, assignment.unit.classroomId, "manage_students");
+      if (!assignment || !classroom) {
+        return res.status(404).json({ message: "Housing assignment not found" });
+      }
+
+      const { endsOn } = z.object({
+        endsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).default(today(classroom.timeZone)),
+      }).parse(req.body);
+
+      if (endsOn < assignment.startsOn) {
+        return res.status(400).json({ message: "The last day must be on or after the move-in day" });
+      }
+
+      const updated = await storage.endHousingAssignment(assignment.id, endsOn);
+      res.json({ message: `Moving out of ${assignment.unit.name} on ${endsOn}`, assignment: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid last day" });
+      }
+      console.error("Error ending housing assignment:", error);
+      res.status(500).json({ message: "Failed to move student out" });
+    }
+  });
+
+  // Housing purchase routes
+  // Housing in the student's classes that is for sale, where they live or that they own, plus their requests
+  app.get('/api/housing-market', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      const classroomUnits = await Promise.all(classrooms.map(async (classroom) => {
+        const units = await storage.getHousingUnits(classroom.id, today(classroom.timeZone));
+        // Leave out who lives where; students only see their own home and how many tenants they have
+        return units
+          .map(({ assignments, owner, ...unit }) => ({
+            id: unit.id,
+            name: unit.name,
+            rent: unit.rent,
+            price: unit.ownerId ? null : unit.price,
+            classroomName: classroom.name,
+            ownedByMe: unit.ownerId === userId,
+            livesHere: assignments.some(assignment => assignment.userId === userId),
+            tenants: unit.ownerId === userId ? assignments.filter(assignment => assignment.userId !== userId).length : 0,
+          }))
+          .filter(unit => unit.price !== null || unit.ownedByMe || unit.livesHere);
+      }));
+
+      res.json({
+        units: classroomUnits.flat(),
+        purchases: await storage.getStudentHousingPurchases(userId),
+      });
+    } catch (error) {
+      console.error("Error fetching housing market:", error);
+      res.status(500).json({ message: "Failed to fetch housing" });
+    }
+  });
+
+  app.post('/api/housing-purchases', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { unitId } = z.object({ unitId: z.number() }).parse(req.body);
+      const unit = await storage.getHousingUnit(unitId);
+      const isEnrolled = !!unit && (await storage.getStudentClassrooms(userId))
+        .some(classroom => classroom.id === unit.classroomId && classroom.enrollmentStatus === "active");
+      if (!unit || !isEnrolled) {
+        return res.status(404).json({ message: "Housing not found" });
+      }
+      if (unit.ownerId || unit.price === null) {
+        return res.status(400).json({ message: `${unit.name} isn't for sale` });
+      }
+
+      const purchases = await storage.getStudentHousingPurchases(userId);
+      if (purchases.some(purchase => purchase.unitId === unit.id && purchase.status === "pending")) {
+        return res.status(400).json({ message: `You already asked to buy ${unit.name}` });
+      }
+      const purchase = await storage.createHousingPurchase({ unitId: unit.id, userId, price: unit.price });
+      res.json({ message: `Asked your teacher to buy ${unit.name}!`, purchase });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick the housing to buy" });
+      }
+      console.error("Error creating housing purchase:", error);
+      res.status(500).json({ message: "Failed to send purchase request" });
+    }
+  });
+
+  // Buying housing takes money from the student, so purchase requests are reviewed like withdrawals
+  app.get('/api/housing-purchases', isAuthenticated, requirePermission("approve_withdrawals"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "approve_withdrawals");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const purchases = await storage.getPendingHousingPurchases(classroom.id);
+      res.json(purchases);
+    } catch (error) {
+      console.error("Error fetching housing purchases:", error);
+      res.status(500).json({ message: "Failed to fetch purchase requests" });
+    }
+  });
+
+  app.patch('/api/housing-purchases/:id', isAuthenticated, requirePermission("approve_withdrawals"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const purchase = await storage.getHousingPurchase(parseInt(req.params.id));
+      const classroom = purchase && await getAuthorizedClassroom(user, purchase.unit.classroomId, "approve_withdrawals");
+      if (!purchase || !classroom) {
+        return res.status(404).json({ message: "Purchase request not found" });
+      }
+      if (purchase.userId === userId) {
+        return res.status(403).json({ message: "You can't review your own purchase request" });
+      }
+
+      const { status } = z.object({ status: z.enum(["approved", "rejected"]) }).parse(req.body);
+      if (status === "approved" && !(await canApproveInClassroom(user, classroom, purchase.price))) {
+        return res.status(403).json({ message: "Purchases this large need a teacher's approval" });
+      }
+      const student = await storage.getUser(purchase.userId);
+      const reviewed = await storage.reviewHousingPurchase(purchase.id, status, userId);
+      res.json({
+        message: status === "approved"
+          ? `${student?.firstName} ${student?.lastName} now owns ${purchase.unit.name}`
+          : `${student?.firstName} ${student?.lastName} didn't get ${purchase.unit.name}`,
+        purchase: reviewed,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid decision" });
+      }
+      console.error("Error reviewing housing purchase:", error);
+      res.status(500).json({ message: "Failed to review purchase request" });
+    }
+  });
+
+  // Store routes
+  app.get('/api/store-items', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const items = await storage.getStoreItems(classroom.id);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching store items:", error);
+      res.status(500).json({ message: "Failed to fetch the store" });
+    }
+  });
+
+  app.post('/api/store-items', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const data = insertStoreItemSchema.parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const item = await storage.createStoreItem({ ...data, classroomId: classroom.id });
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Store items need a name and a price in dollars, and can only go on sale before they come off it" });
+      }
+      console.error("Error creating store item:", error);
+      res.status(500).json({ message: "Failed to add to the store" });
+    }
+  });
+
+  app.patch('/api/store-items/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const item = await storage.getStoreItem(parseInt(req.params.id));
+      if (!item || item.removedAt || !(await getAuthorizedClassroom(user, item.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Store item not found" });
+      }
+
+      const update = updateStoreItemSchema.parse(req.body);
+      const availableFrom = update.availableFrom !== undefined ? update.availableFrom : item.availableFrom;
+      const availableUntil = update.availableUntil !== undefined ? update.availableUntil : item.availableUntil;
+      if (availableFrom && availableUntil && availableFrom > availableUntil) {
+        return res.status(400).json({ message: "An item can only go on sale before it comes off it" });
+      }
+
+      const updated = await storage.updateStoreItem(item.id, update);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Store items need a name and a price in dollars, and can only go on sale before they come off it" });
+      }
+      console.error("Error updating store item:", error);
+      res.status(500).json({ message: "Failed to update store item" });
+    }
+  });
+
+  app.delete('/api/store-items/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const item = await storage.getStoreItem(parseInt(req.params.id));
+      if (!item || item.removedAt || !(await getAuthorizedClassroom(user, item.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Store item not found" });
+      }
+
+      await storage.removeStoreItem(item.id, userId);
+      res.json({ message: `${item.name} was taken out of the store` });
+    } catch (error) {
+      console.error("Error removing store item:", error);
+      res.status(500).json({ message: "Failed to remove store item" });
+    }
+  });
+
+  // What's on sale today in the student's classes, plus their orders
+  app.get('/api/store', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const account = await storage.getAccount(userId);
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      const classroomItems = await Promise.all(classrooms.map(async (classroom) => {
+        const onDate = today(classroom.timeZone);
+        const items = (await storage.getStoreItems(classroom.id)).filter(item => isStoreItemAvailable(item, onDate));
+        return await Promise.all(items.map(async ({ classroomId, removedAt, createdAt, ...item }) => ({
+          ...item,
+          classroomName: classroom.name,
+          ordered: account ? await storage.getStoreItemOrderedCount(item.id, account.id) : 0,
+        })));
+      }));
+
+      res.json({
+        items: classroomItems.flat(),
+        orders: await storage.getStudentStoreOrders(userId),
+      });
+    } catch (error) {
+      console.error("Error fetching store:", error);
+      res.status(500).json({ message: "Failed to fetch the store" });
+    }
+  });
+
+  // An order is a withdrawal request for the item's price, approved like any other withdrawal
+  app.post('/api/store-orders', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { storeItemId, quantity } = insertStoreOrderSchema.parse(req.body);
+      const item = await storage.getStoreItem(storeItemId);
+      const classroom = item && (await storage.getStudentClassrooms(userId))
+        .find(classroom => classroom.id === item.classroomId && classroom.enrollmentStatus === "active");
+      if (!item || item.removedAt || !classroom) {
+        return res.status(404).json({ message: "Store item not found" });
+      }
+      if (!isStoreItemAvailable(item, today(classroom.timeZone))) {
+        return res.status(400).json({ message: `${item.name} isn't on sale right now` });
+      }
+      if (item.stock !== null && item.stock < quantity) {
+        return res.status(400).json({ message: item.stock === 0 ? `${item.name} is sold out` : `Only ${item.stock} ${item.name} left` });
+      }
+
+      const account = await storage.getAccount(userId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (item.perStudentLimit !== null) {
+        const ordered = await storage.getStoreItemOrderedCount(item.id, account.id);
+        if (ordered + quantity > item.perStudentLimit) {
+          return res.status(400).json({ message: `You can only buy ${item.perStudentLimit} ${item.name}` });
+        }
+      }
+      const amount = (parseFloat(item.price) * quantity).toFixed(2);
+
+      const order = await storage.createStoreOrder({
+        accountId: account.id,
+        amount,
+        reason: quantity > 1 ? `Store: ${quantity} × ${item.name}` : `Store: ${item.name}`,
+        storeItemId: item.id,
+        quantity,
+      });
+      res.json({ message: `Order sent for ${item.name}! It's yours once your teacher approves it.`, order });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick an item and how many to buy" });
+      }
+      console.error("Error creating store order:", error);
+      res.status(500).json({ message: "Failed to send order" });
+    }
+  });
+
+  // Inventory routes
+  // Everything the student bought in their classes, with coupons marked owned, redeemed or expired
+  app.get('/api/inventory', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      const classroomInventories = await Promise.all(classrooms.map(async (classroom) => {
+        const onDate = today(classroom.timeZone);
+        const inventory = await storage.getStudentInventory(classroom.id, userId);
+        return inventory.map(({ storeItem, ...item }) => ({
+          ...item,
+          status: inventoryStatus(item, onDate),
+          name: storeItem.name,
+          kind: storeItem.kind,
+          imageUrl: storeItem.imageUrl,
+          classroomName: classroom.name,
+        }));
+      }));
+
+      res.json(classroomInventories.flat());
+    } catch (error) {
+      console.error("Error fetching inventory:", error);
+      res.status(500).json({ message: "Failed to fetch inventory" });
+    }
+  });
+
+  app.get('/api/inventory-items', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const onDate = today(classroom.timeZone);
+      const inventory = await storage.getClassroomInventory(classroom.id);
+      res.json(inventory.map(item => ({ ...item, status: inventoryStatus(item, onDate) })));
+    } catch (error) {
+      console.error("Error fetching classroom inventory:", error);
+      res.status(500).json({ message: "Failed to fetch inventory" });
+    }
+  });
+
+  app.patch('/api/inventory-items/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const item = await storage.getInventoryItem(parseInt(req.params.id));
+      const classroom = item && (await getAuthorizedClassroom(user, item.storeItem.classroomId, "manage_students"));
+      if (!item || !classroom) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+
+      z.object({ status: z.literal("redeemed") }).parse(req.body);
+      if (item.storeItem.kind !== "coupon") {
+        return res.status(400).json({ message: `${item.storeItem.name} isn't a coupon` });
+      }
+      if (inventoryStatus(item, today(classroom.timeZone)) === "expired") {
+        return res.status(400).json({ message: `This ${item.storeItem.name} coupon expired on ${item.expiresOn}` });
+      }
+
+      const redeemed = await storage.redeemInventoryItem(item.id, userId);
+      if (!redeemed) {
+        return res.status(409).json({ message: `This ${item.storeItem.name} coupon was already redeemed` });
+      }
+
+      const student = await storage.getUser(item.userId);
+      res.json({ message: `${student?.firstName} ${student?.lastName} used their ${item.storeItem.name} coupon`, item: redeemed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Coupons can only be marked redeemed" });
+      }
+      console.error("Error redeeming inventory item:", error);
+      res.status(500).json({ message: "Failed to redeem coupon" });
+    }
+  });
+
+  // Auction routes
+  app.get('/api/auctions', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const auctions = await storage.getAuctions(classroom.id);
+      res.json(await Promise.all(auctions.map(async (auction) => ({
+        ...auction,
+        lots: (await storage.getAuctionLots(auction.id)).map(describeLot),
+      }))));
+    } catch (error) {
+      console.error("Error fetching auctions:", error);
+      res.status(500).json({ message: "Failed to fetch auctions" });
+    }
+  });
+
+  // The auctioneer view; serverTime lets the countdown ignore a projector computer's clock
+  app.get('/api/auctions/:id', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const auction = await storage.getAuction(parseInt(req.params.id));
+      const classroom = auction && (await getAuthorizedClassroom(user, auction.classroomId, "view_students"));
+      if (!auction || !classroom) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+
+      const lots = await storage.getAuctionLots(auction.id);
+      res.json({ ...auction, classroomName: classroom.name, lots: lots.map(describeLot), serverTime: new Date() });
+    } catch (error) {
+      console.error("Error fetching auction:", error);
+      res.status(500).json({ message: "Failed to fetch auction" });
+    }
+  });
+
+  app.post('/api/auctions', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const data = insertAuctionSchema.parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+      if (data.endsAt <= new Date()) {
+        return res.status(400).json({ message: "Pick a closing time in the future" });
+      }
+
+      const auction = await storage.createAuction({ ...data, classroomId: classroom.id, createdBy: userId });
+      res.json({ message: `${auction.title} is open for bidding!`, auction });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Auctions need a title, a closing time and at least one lot with a description, a starting bid and a bid increment above $0" });
+      }
+      console.error("Error creating auction:", error);
+      res.status(500).json({ message: "Failed to create auction" });
+    }
+  });
+
+  // Ends bidding now instead of waiting for the closing time, and settles the winners
+  app.post('/api/auctions/:id/close', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const auction = await storage.getAuction(parseInt(req.params.id));
+      if (!auction || !(await getAuthorizedClassroom(user, auction.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+
+      const lots = await storage.settleAuction(auction.id);
+      if (!lots) {
+        return res.status(409).json({ message: `${auction.title} has already closed` });
+      }
+
+      const sold = lots.filter(lot => lot.winnerId).length;
+      res.json({ message: `${auction.title} closed: ${sold} of ${lots.length} ${lots.length === 1 ? "lot" : "lots"} sold`, lots });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error closing auction:", error);
+      res.status(500).json({ message: "Failed to close auction" });
+    }
+  });
+
+  // Open auctions in the student's classes, and ones that closed in the last day so winners find out. `held` is
+  // what the student's leading bids hold; `available` also leaves out what their pending requests hold.
+  app.get('/api/auction-house', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const account = await storage.getAccount(userId);
+      const balance = account?.balance ?? "0.00";
+      const held = await storage.getBidHolds(userId);
+      const allHeld = await storage.getAccountHolds(userId);
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      const classroomAuctions = await Promise.all(classrooms.map(async (classroom) => {
+        const auctions = (await storage.getAuctions(classroom.id))
+          .filter(auction => !auction.settledAt || auction.settledAt > since);
+        return await Promise.all(auctions.map(async ({ createdBy, ...auction }) => ({
+          ...auction,
+          classroomName: classroom.name,
+          lots: (await storage.getAuctionLots(auction.id)).map(({ leadingBid, winner, winnerId, ...lot }) => ({
+            ...lot,
+            leadingBid: leadingBid?.amount ?? null,
+            leadingByMe: leadingBid?.userId === userId,
+            wonByMe: winnerId === userId,
+            sold: winnerId !== null,
+          })),
+        })));
+      }));
+
+      res.json({
+        balance,
+        held,
+        available: Math.max(parseFloat(balance) - parseFloat(allHeld), 0).toFixed(2),
+        serverTime: new Date(),
+        auctions: classroomAuctions.flat(),
+      });
+    } catch (error) {
+      console.error("Error fetching auction house:", error);
+      res.status(500).json({ message: "Failed to fetch auctions" });
+    }
+  });
+
+  app.post('/api/auction-bids', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { lotId, amount } = z.object({
+        lotId: z.number(),
+        amount: z.string().regex(/^\d+(\.\d{1,2})?$/),
+      }).parse(req.body);
+
+      const lot = await storage.getAuctionLot(lotId);
+      const isEnrolled = !!lot && (await storage.getStudentClassrooms(userId))
+        .some(classroom => classroom.id === lot.auction.classroomId && classroom.enrollmentStatus === "active");
+      if (!lot || !isEnrolled) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+
+      const bid = await storage.placeBid(lot.id, userId, parseFloat(amount).toFixed(2));
+      res.json({ message: `You're the top bidder at $${bid.amount}!`, bid });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Enter your bid in dollars" });
+      }
+      console.error("Error placing bid:", error);
+      res.status(500).json({ message: "Failed to place bid" });
+    }
+  });
+
+  // Savings routes
+  // The student's savings account (null until they open one) and the rules it follows, plus the classes whose
+  // savings they could open an account with
+  app.get('/api/savings', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const savings = await storage.getSavingsAccount(userId);
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      const offers = [];
+      for (const classroom of classrooms) {
+        const settings = await storage.getSavingsSettings(classroom.id);
+        if (settings) {
+          offers.push({ classroomId: classroom.id, classroomName: classroom.name, interestRate: settings.interestRate });
+        }
+      }
+      const rules = savings && await getSavingsRules(userId, savings);
+
+      res.json({
+        account: savings ?? null,
+        offers,
+        rules: rules ? {
+          classroomName: rules.classroom.name,
+          interestRate: rules.settings.interestRate,
+          minimumBalance: rules.settings.minimumBalance,
+          withdrawalLimit: rules.settings.withdrawalLimit,
+          withdrawalPeriod: rules.settings.withdrawalPeriod,
+          withdrawalsLeft: rules.withdrawalsLeft,
+        } : null,
+        transactions: savings ? (await storage.getTransactionsByAccount(savings.id)).slice(0, 10) : [],
+      });
+    } catch (error) {
+      console.error("Error fetching savings:", error);
+      res.status(500).json({ message: "Failed to fetch savings" });
+    }
+  });
+
+  app.post('/api/savings', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { classroomId } = z.object({ classroomId: z.number().int() }).parse(req.body);
+      const classroom = (await storage.getStudentClassrooms(userId))
+        .find(classroom => classroom.id === classroomId && classroom.enrollmentStatus === "active");
+      if (!classroom || !(await storage.getSavingsSettings(classroom.id))) {
+        return res.status(404).json({ message: "This class doesn't offer savings accounts" });
+      }
+
+      const account = await storage.openSavingsAccount(userId, classroom.id);
+      res.json({ message: "Your savings account is open! 🐖", account });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick the class to save with" });
+      }
+      console.error("Error opening savings account:", error);
+      res.status(500).json({ message: "Failed to open savings account" });
+    }
+  });
+
+  app.post('/api/transfers', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { from, amount } = insertTransferSchema.parse(req.body);
+      const savings = await storage.getSavingsAccount(userId);
+      const rules = from === "savings" && savings ? await getSavingsRules(userId, savings) : undefined;
+      // storage counts the period's withdrawals itself, inside the transfer's transaction
+      const withdrawalLimit = rules?.settings.withdrawalLimit ? {
+        classroomName: rules.classroom.name,
+        limit: rules.settings.withdrawalLimit,
+        period: rules.settings.withdrawalPeriod,
+        timeZone: rules.classroom.timeZone,
+      } : undefined;
+
+      const accounts = await storage.transferFunds(userId, from, parseFloat(amount).toFixed(2), userId, withdrawalLimit);
+      res.json({
+        message: from === "checking" ? `Moved $${parseFloat(amount).toFixed(2)} into savings!` : `Moved $${parseFloat(amount).toFixed(2)} out of savings`,
+        ...accounts,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Enter an amount to move" });
+      }
+      console.error("Error transferring funds:", error);
+      res.status(500).json({ message: "Failed to move money" });
+    }
+  });
+
+  app.get('/api/savings-settings', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      res.json((await storage.getSavingsSettings(classroom.id)) ?? null);
+    } catch (error) {
+      console.error("Error fetching savings settings:", error);
+      res.status(500).json({ message: "Failed to fetch savings settings" });
+    }
+  });
+
+  app.put('/api/savings-settings', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const data = upsertSavingsSettingsSchema.parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const settings = await storage.upsertSavingsSettings({ ...data, classroomId: classroom.id, updatedBy: userId });
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Enter an interest rate in percent, and a minimum balance and withdrawal limit if you want them" });
+      }
+      console.error("Error saving savings settings:", error);
+      res.status(500).json({ message: "Failed to save savings settings" });
+    }
+  });
+
+  // What an interest run would pay each savings account now, without posting anything
+  app.get('/api/interest-preview', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const settings = await storage.getSavingsSettings(classroom.id);
+      const lines = settings ? await getInterestLines(classroom, settings) : [];
+      res.json(lines.map(({ student, amount }) => ({
+        student: { id: student.id, firstName: student.firstName, lastName: student.lastName },
+        balance: student.account.balance,
+        amount,
+      })));
+    } catch (error) {
+      console.error("Error previewing interest:", error);
+      res.status(500).json({ message: "Failed to preview interest" });
+    }
+  });
+
+  app.post('/api/pay-interest', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const { classroomId, idempotencyKey } = z.object({
+        classroomId: z.number(),
+        idempotencyKey: z.string().min(1).optional(),
+      }).parse(req.body);
+
+      const classroom = await getAuthorizedClassroom(user, classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const { batch, transactions, replayed } = await payInterest(classroom, { idempotencyKey }, userId);
+      res.json({
+        message: `Interest of $${batch.totalAmount} paid into ${batch.studentsAffected} savings ${batch.studentsAffected === 1 ? "account" : "accounts"}`,
+        transactions,
+        batch,
+        replayed,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error paying interest:", error);
+      res.status(500).json({ message: "Failed to pay interest" });
+    }
+  });
+
+  // Certificate of deposit routes
+  app.get('/api/cd-products', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      res.json(await storage.getCdProducts(classroom.id));
+    } catch (error) {
+      console.error("Error fetching CD products:", error);
+      res.status(500).json({ message: "Failed to fetch CDs" });
+    }
+  });
+
+  app.post('/api/cd-products', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const data = insertCdProductSchema.parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const product = await storage.createCdProduct({ ...data, classroomId: classroom.id });
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "CDs need a name, a term of 1 to 365 days, an interest rate and a penalty of at most 100%" });
+      }
+      console.error("Error creating CD product:", error);
+      res.status(500).json({ message: "Failed to add CD" });
+    }
+  });
+
+  // Students can no longer open the CD; ones already open run to maturity
+  app.delete('/api/cd-products/:id', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const product = await storage.getCdProduct(parseInt(req.params.id));
+      if (!product || product.removedAt || !(await getAuthorizedClassroom(user, product.classroomId, "run_payroll"))) {
+        return res.status(404).json({ message: "CD not found" });
+      }
+
+      await storage.removeCdProduct(product.id);
+      res.json({ message: `${product.name} is no longer offered` });
+    } catch (error) {
+      console.error("Error removing CD product:", error);
+      res.status(500).json({ message: "Failed to remove CD" });
+    }
+  });
+
+  app.get('/api/classroom-cds', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const cds = await storage.getClassroomCds(classroom.id);
+      res.json(cds.map(({ user: student, product, ...cd }) => ({
+        ...describeCd(cd),
+        productName: product.name,
+        student: { id: student.id, firstName: student.firstName, lastName: student.lastName },
+      })));
+    } catch (error) {
+      console.error("Error fetching classroom CDs:", error);
+      res.status(500).json({ message: "Failed to fetch CDs" });
+    }
+  });
+
+  // The CDs the student's classes offer, and the ones they have opened
+  app.get('/api/cds', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      const products = await Promise.all(classrooms.map(async (classroom) =>
+        (await storage.getCdProducts(classroom.id)).map(({ removedAt, createdAt, ...product }) => ({
+          ...product,
+          classroomName: classroom.name,
+        }))
+      ));
+      const cds = await storage.getStudentCds(userId);
+
+      res.json({
+        products: products.flat(),
+        cds: cds.map(({ product, ...cd }) => ({ ...describeCd(cd), productName: product.name, termDays: product.termDays })),
+      });
+    } catch (error) {
+      console.error("Error fetching CDs:", error);
+      res.status(500).json({ message: "Failed to fetch CDs" });
+    }
+  });
+
+  app.post('/api/cds', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { productId, amount } = openCdSchema.parse(req.body);
+      const product = await storage.getCdProduct(productId);
+      const classroom = product && (await storage.getStudentClassrooms(userId))
+        .find(classroom => classroom.id === product.classroomId && classroom.enrollmentStatus === "active");
+      if (!product || product.removedAt || !classroom) {
+        return res.status(404).json({ message: "CD not found" });
+      }
+
+      const cd = await storage.openCd(userId, product, parseFloat(amount).toFixed(2));
+      res.json({
+        message: `$${cd.principal} locked in until ${dayOf(cd.maturesAt, classroom.timeZone)}. It will be worth $${cdPayout(cd, true)}! 🔒`,
+        cd,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick a CD and an amount to put in it" });
+      }
+      console.error("Error opening CD:", error);
+      res.status(500).json({ message: "Failed to open CD" });
+    }
+  });
+
+  // Breaking a CD before it matures pays back the deposit less the penalty
+  app.post('/api/cd-early-withdrawals', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { cdId } = z.object({ cdId: z.number().int() }).parse(req.body);
+      const cd = await storage.getCd(cdId);
+      if (!cd || cd.userId !== userId) {
+        return res.status(404).json({ message: "CD not found" });
+      }
+
+      const closed = await storage.closeCd(cd.id);
+      if (!closed) {
+        return res.status(409).json({ message: "This CD has already been paid out" });
+      }
+
+      res.json({
+        message: closed.status === "matured"
+          ? `Your CD had already matured! $${closed.payout} was paid into your account`
+          : `CD broken early: $${closed.payout} was paid back after the penalty`,
+        cd: closed,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick a CD to break" });
+      }
+      console.error("Error breaking CD:", error);
+      res.status(500).json({ message: "Failed to break CD" });
+    }
+  });
+
+  // Payroll schedule routes
+  app.get('/api/payroll-schedules', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const schedules = await storage.getPayrollSchedules(classroom.id);
+      res.json({
+        timeZone: classroom.timeZone,
+        schedules: await Promise.all(schedules.map(async schedule => ({
+          ...schedule,
+          upcomingRuns: schedule.active ? await getUpcomingRuns(schedule, classroom) : [],
+        }))),
+      });
+    } catch (error) {
+      console.error("Error fetching payroll schedules:", error);
+      res.status(500).json({ message: "Failed to fetch payroll schedules" });
+    }
+  });
+
+  app.post('/api/payroll-schedules', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const data = insertPayrollScheduleSchema.parse({
+        ...req.body,
+        createdBy: userId,
+      });
+
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const schedule = {
+        ...data,
+        payBy: data.payBy ?? "flat",
+        amount: data.amount ?? null,
+        dayOfWeek: data.frequency === "weekly" ? data.dayOfWeek ?? null : null,
+        dayOfMonth: data.frequency === "monthly" ? data.dayOfMonth ?? null : null,
+      };
+      const problem = getScheduleProblem(schedule);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const created = await storage.createPayrollSchedule(schedule);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid schedule" });
+      }
+      console.error("Error creating payroll schedule:", error);
+      res.status(500).json({ message: "Failed to create payroll schedule" });
+    }
+  });
+
+  app.patch('/api/payroll-schedules/:id', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const schedule = await storage.getPayrollSchedule(parseInt(req.params.id));
+      if (!schedule || !(await getAuthorizedClassroom(user, schedule.classroomId, "run_payroll"))) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+
+      const update = updatePayrollScheduleSchema.parse(req.body);
+      const problem = getScheduleProblem({ ...schedule, ...update });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const updated = await storage.updatePayrollSchedule(schedule.id, update);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid schedule" });
+      }
+      console.error("Error updating payroll schedule:", error);
+      res.status(500).json({ message: "Failed to update payroll schedule" });
+    }
+  });
+
+  app.delete('/api/payroll-schedules/:id', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const schedule = await storage.getPayrollSchedule(parseInt(req.params.id));
+      if (!schedule || !(await getAuthorizedClassroom(user, schedule.classroomId, "run_payroll"))) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+
+      await storage.deletePayrollSchedule(schedule.id);
+      res.json({ message: "Schedule deleted" });
+    } catch (error) {
+      console.error("Error deleting payroll schedule:", error);
+      res.status(500).json({ message: "Failed to delete payroll schedule" });
+    }
+  });
+
+  // School calendar routes
+  // Days off plus the paydays and rent days from `from` through `to`: past ones from their batches,
+  // upcoming ones from the active schedules as the calendar moves them
+  app.get('/api/calendar', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const { from, to } = calendarRangeSchema.parse(req.query);
+      const entries = await storage.getCalendarEntries(classroom.id, from, to);
+
+      const batches = await storage.getBatches(classroom.id);
+      const pastEvents = batches
+        .filter(batch => !batch.rolledBackAt && batch.createdAt)
+        .map(batch => ({
+          date: dayOf(batch.createdAt!, classroom.timeZone),
+          kind: batch.type,
+          description: batch.description,
+          upcoming: false,
+          batchId: batch.id,
+        }))
+        .filter(event => from <= event.date && event.date <= to);
+
+      const localToday = today(classroom.timeZone);
+      const upcomingFrom = from > localToday ? from : localToday;
+      const upcomingEvents = [];
+      if (upcomingFrom <= to) {
+        const calendar = await getSchoolCalendar(classroom.id, upcomingFrom, to);
+        const schedules = await storage.getPayrollSchedules(classroom.id);
+        for (const schedule of schedules.filter(schedule => schedule.active)) {
+          for (const run of getScheduledRuns(schedule, calendar, upcomingFrom, to)) {
+            if (run.runOn === schedule.lastRunOn) continue;
+            upcomingEvents.push({
+              date: run.runOn,
+              kind: schedule.kind,
+              description: schedule.kind === "interest"
+                ? "Savings Interest"
+                : schedule.kind === "rent" ? "Rent" : schedule.payBy === "jobs" ? "Job Payroll" : "Paycheck",
+              upcoming: true,
+              scheduleId: schedule.id,
+              scheduledOn: run.scheduledOn,
+              share: run.share,
+            });
+          }
+        }
+      }
+
+      const auctionEvents = (await storage.getAuctions(classroom.id))
+        .map(auction => ({
+          date: dayOf(auction.endsAt, classroom.timeZone),
+          kind: "auction",
+          description: auction.title,
+          upcoming: !auction.settledAt,
+          auctionId: auction.id,
+        }))
+        .filter(event => from <= event.date && event.date <= to);
+
+      res.json({
+        timeZone: classroom.timeZone,
+        entries,
+        events: [...pastEvents, ...upcomingEvents, ...auctionEvents].sort((a, b) => a.date.localeCompare(b.date)),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick a range of up to two months" });
+      }
+      console.error("Error fetching calendar:", error);
+      res.status(500).json({ message: "Failed to fetch calendar" });
+    }
+  });
+
+  app.post('/api/calendar-entries', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const data = insertCalendarEntrySchema.parse({
+        ...req.body,
+        createdBy: userId,
+      });
+
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const entry = await storage.createCalendarEntry(data);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Give the day a name, a kind and a valid date range" });
+      }
+      console.error("Error creating calendar entry:", error);
+      res.status(500).json({ message: "Failed to add to the calendar" });
+    }
+  });
+
+  app.delete('/api/calendar-entries/:id', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const entry = await storage.getCalendarEntry(parseInt(req.params.id));
+      if (!entry || !(await getAuthorizedClassroom(user, entry.classroomId, "run_payroll"))) {
+        return res.status(404).json({ message: "Calendar entry not found" });
+      }
+
+      await storage.deleteCalendarEntry(entry.id);
+      res.json({ message: `${entry.name} removed from the calendar` });
+    } catch (error) {
+      console.error("Error deleting calendar entry:", error);
+      res.status(500).json({ message: "Failed to remove calendar entry" });
+    }
+  });
+
+  app.post('/api/adjust-balance', isAuthenticated, requirePermission("adjust_balances"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const { studentId, amount, description, type } = z.object({
+        studentId: z.string(),
+        amount: z.string(),
+        description: z.string(),
+        type: z.enum(["add", "subtract"])
+      }).parse(req.body);
+
+      const student = await storage.getUser(studentId);
+      if (!student || student.role !== "student" || !(await canAccessStudent(user, studentId, "adjust_balances"))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const account = await storage.getAccount(studentId);
+      if (!account) {
+        return res.status(404).json({ message: "Student account not found" });
+      }
+
+      const posted = await storage.postTransaction({
+        accountId: account.id,
+        type: type === "add" ? "bonus" : "withdrawal",
+        amount: type === "add" ? amount : `-${amount}`,
+        description,
+        createdBy: userId,
+      });
+
+      res.json({ message: "Balance adjusted successfully", transaction: posted?.transaction });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error adjusting balance:", error);
+      res.status(500).json({ message: "Failed to adjust balance" });
+    }
+  });
+
+  // Posts one of the built-in rewards/fines or one of the classroom's custom actions. Unlike adjust-balance the
+  // amount comes from the action, which is what lets student bankers use it.
+  app.post('/api/quick-actions', isAuthenticated, requirePermission("post_quick_actions"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const { studentId, classroomId, preset, customActionId } = z.object({
+        studentId: z.string(),
+        classroomId: z.number(),
+        preset: z.string().optional(),
+        customActionId: z.number().optional(),
+      }).parse(req.body);
+
+      const classroom = await getAuthorizedClassroom(user, classroomId, "post_quick_actions");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const isEnrolled = (await storage.getStudentClassrooms(studentId))
+        .some(studentClassroom => studentClassroom.id === classroom.id && studentClassroom.enrollmentStatus === "active");
+      if (!isEnrolled) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      if (studentId === userId) {
+        return res.status(403).json({ message: "You can't give yourself rewards or fines" });
+      }
+
+      let action: { name: string; amount: string; type: string } | undefined;
+      if (customActionId !== undefined) {
+        const custom = await storage.getCustomQuickAction(customActionId);
+        const inClassroom = custom?.classroomId === classroom.id ||
+          (custom?.classroomId === null && custom.teacherId === classroom.teacherId);
+        action = inClassroom ? custom : undefined;
+      } else if (preset) {
+        const reward = QUICK_REWARDS.find(reward => reward.name === preset);
+        const fine = QUICK_FINES.find(fine => fine.name === preset);
+        action = reward ? { ...reward, type: "reward" } : fine ? { ...fine, type: "fine" } : undefined;
+      }
+      if (!action) {
+        return res.status(404).json({ message: "Quick action not found" });
+      }
+
+      const account = await storage.getAccount(studentId);
+      if (!account) {
+        return res.status(404).json({ message: "Student account not found" });
+      }
+
+      const posted = await storage.postTransaction({
+        accountId: account.id,
+        type: action.type === "reward" ? "bonus" : "withdrawal",
+        amount: action.type === "reward" ? action.amount : `-${action.amount}`,
+        description: action.name,
+        createdBy: userId,
+      });
+
+      res.json({ message: `${action.name} posted`, transaction: posted?.transaction });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error posting quick action:", error);
+      res.status(500).json({ message: "Failed to post quick action" });
+    }
+  });
+
+  app.post('/api/collect-rent', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const { classroomId, chargeBy, amount, idempotencyKey } = z.object({
+        classroomId: z.number(),
+        // "flat" charges every student `amount`; "housing" charges each student the rent of the unit they live in today
+        chargeBy: z.enum(["flat", "housing"]).default("flat"),
+        amount: z.string().optional(),
+        idempotencyKey: z.string().min(1).optional(),
+      }).parse(req.body);
+
+      const classroom = await getAuthorizedClassroom(user, classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const { batch, transactions, replayed } = await collectRent(
+        classroom,
+        { chargeBy, amount, onDate: today(classroom.timeZone), idempotencyKey },
+        userId
+      );
+
+      res.json({ 
+        message: `Monthly rent of $${batch.totalAmount.replace("-", "")} collected from ${batch.studentsAffected} students`, 
+        transactions,
+        studentsAffected: batch.studentsAffected,
+        batch,
+        replayed,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error collecting rent:", error);
+      res.status(500).json({ message: "Failed to collect rent" });
+    }
+  });
+
+  // What a rent run would charge each student today, without posting anything
+  app.get('/api/rent-preview', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "run_payroll");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const rentRoll = await storage.getRentRoll(classroom.id, today(classroom.timeZone));
+      res.json(rentRoll.map(({ student, unit, owed }) => ({
+        student: { id: student.id, firstName: student.firstName, lastName: student.lastName },
+        unit,
+        owed,
+      })));
+    } catch (error) {
+      console.error("Error previewing rent:", error);
+      res.status(500).json({ message: "Failed to preview rent" });
+    }
+  });
+
+  // Students who still owe rent, with their balance and where they live
+  app.get('/api/rent-arrears', isAuthenticated, requirePermission("view_reports"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_reports");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const rentRoll = await storage.getRentRoll(classroom.id, today(classroom.timeZone));
+      res.json(rentRoll
+        .filter(line => parseFloat(line.owed) > 0)
+        .map(({ student, unit, owed }) => ({
+          student: { id: student.id, firstName: student.firstName, lastName: student.lastName },
+          balance: student.account.balance,
+          unit,
+          owed,
+        })));
+    } catch (error) {
+      console.error("Error fetching rent arrears:", error);
+      res.status(500).json({ message: "Failed to fetch rent arrears" });
+    }
+  });
+
+  app.get('/api/batches', isAuthenticated, requirePermission("view_reports"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_reports");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const batches = await storage.getBatches(classroom.id);
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching batches:", error);
+      res.status(500).json({ message: "Failed to fetch batches" });
+    }
+  });
+
+  app.get('/api/batches/:id', isAuthenticated, requirePermission("view_reports"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const batch = await storage.getBatch(parseInt(req.params.id));
+      if (!batch || !(await getAuthorizedClassroom(user, batch.classroomId, "view_reports"))) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      res.json(batch);
+    } catch (error) {
+      console.error("Error fetching batch:", error);
+      res.status(500).json({ message: "Failed to fetch batch" });
+    }
+  });
+
+  app.post('/api/batches/:id/rollback', isAuthenticated, requirePermission("run_payroll"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const batchId = parseInt(req.params.id);
+      const batch = await storage.getBatch(batchId);
+      if (!batch || !(await getAuthorizedClassroom(user, batch.classroomId, "run_payroll"))) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const result = await storage.rollbackBatch(batchId, userId);
+      const message = result.skipped.length > 0
+        ? `Rolled back ${result.reversals.length} transactions; ${result.skipped.length} students were skipped`
+        : `Rolled back ${result.reversals.length} transactions`;
+
+      res.json({ message, ...result });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error rolling back batch:", error);
+      res.status(500).json({ message: "Failed to roll back batch" });
+    }
+  });
+
+  app.get('/api/stats', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const [totalStudents, totalBalance, pendingRequests, weeklyTotal] = await Promise.all([
+        storage.getTotalStudentCount(classroom.id),
+        storage.getTotalBalance(classroom.id),
+        storage.getPendingRequestCount(classroom.id),
+        storage.getWeeklyTotal(classroom.id),
+      ]);
+
+      res.json({
+        totalStudents,
+        totalBalance,
+        pendingRequests,
+        weeklyTotal,
+      });
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  // Reconciliation routes
+  app.get('/api/reconciliation', isAuthenticated, requirePermission("view_reports"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_reports");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const report = await storage.getReconciliationReport(classroom.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching reconciliation report:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation report" });
+    }
+  });
+
+  // Repairing only resets a cached balance to the ledger, so school admins, who move no money, may repair the
+  // treasury every classroom shares. Student accounts need adjust_balances in one of the student's classrooms.
+  app.post('/api/reconciliation/:accountId/repair', isAuthenticated, requirePermission("view_reports"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const accountId = parseInt(req.params.accountId);
+      const existing = await storage.getAccountById(accountId);
+      if (
+        !existing ||
+        (existing.userId && !(await canAccessStudent(user, existing.userId, "adjust_balances"))) ||
+        (!existing.userId && user.role !== "school-admin")
+      ) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const account = await storage.repairAccountBalance(accountId);
+      res.json({ message: `Balance reset to $${account.balance} from the ledger`, account });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error repairing balance:", error);
+      res.status(500).json({ message: "Failed to repair balance" });
+    }
+  });
+
+  // Custom quick actions routes
+  // Custom actions belong to the classroom's teacher, so co-teachers and student bankers share them
+  app.get('/api/custom-actions', isAuthenticated, requirePermission("post_quick_actions"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "post_quick_actions");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const actions = await storage.getCustomQuickActions(classroom.teacherId, classroom.id);
+      res.json(actions);
+    } catch (error) {
+      console.error("Error fetching custom actions:", error);
+      res.status(500).json({ message: "Failed to fetch custom actions" });
+    }
+  });
+
+  app.post('/api/custom-actions', isAuthenticated, requirePermission("adjust_balances"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const validatedData = insertCustomQuickActionSchema.parse({
+        ...req.body,
+        teacherId: userId,
+      });
+
+      const classroom = await getAuthorizedClassroom(user, validatedData.classroomId, "adjust_balances");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const action = await storage.createCustomQuickAction({ ...validatedData, teacherId: classroom.teacherId });
+      res.json(action);
+    } catch (error) {
+      console.error("Error creating custom action:", error);
+      res.status(500).json({ message: "Failed to create custom action" });
+    }
+  });
+
+  app.delete('/api/custom-actions/:id', isAuthenticated, requirePermission("adjust_balances"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const action = await storage.getCustomQuickAction(parseInt(req.params.id));
+      // An action saved before classrooms belongs to none of them, so only its owner can delete it
+      const canDelete = action && (action.classroomId === null
+        ? action.teacherId === user.id
+        : !!(await getAuthorizedClassroom(user, action.classroomId, "adjust_balances")));
+      if (!action || !canDelete) {
+        return res.status(404).json({ message: "Custom action not found" });
+      }
+
+      await storage.deleteCustomQuickAction(action.id, action.teacherId);
+      res.json({ message: "Custom action deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting custom action:", error);
       res.status(500).json({ message: "Failed to delete custom action" });
     }
   });
 
+  // Job board routes
+  app.get('/api/jobs', isAuthenticated, requirePermission("view_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "view_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const jobs = await storage.getJobs(classroom.id, today(classroom.timeZone));
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post('/api/jobs', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const data = insertJobSchema.parse(req.body);
+      const classroom = await getAuthorizedClassroom(user, data.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const job = await storage.createJob({ ...data, classroomId: classroom.id });
+      res.json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Jobs need a title, a wage in dollars and at least one slot" });
+      }
+      console.error("Error creating job:", error);
+      res.status(500).json({ message: "Failed to create job" });
+    }
+  });
+
+  app.patch('/api/jobs/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || !(await getAuthorizedClassroom(user, job.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const update = updateJobSchema.parse(req.body);
+      const updated = await storage.updateJob(job.id, update);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Jobs need a title, a wage in dollars and at least one slot" });
+      }
+      console.error("Error updating job:", error);
+      res.status(500).json({ message: "Failed to update job" });
+    }
+  });
+
+  app.delete('/api/jobs/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || !(await getAuthorizedClassroom(user, job.classroomId, "manage_students"))) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      await storage.deleteJob(job.id);
+      res.json({ message: `${job.title} removed from the job board` });
+    } catch (error) {
+      console.error("Error deleting job:", error);
+      res.status(500).json({ message: "Failed to delete job" });
+    }
+  });
+
+  app.post('/api/jobs/:id/assignments', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const job = await storage.getJob(parseInt(req.params.id));
+      const classroom = job && await getAuthorizedClassroom(user, job.classroomId, "manage_students");
+      if (!job || !classroom) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+      const { studentId, startsOn, endsOn } = z.object({
+        studentId: z.string(),
+        startsOn: isoDate,
+        endsOn: isoDate.nullable().optional(),
+      }).parse(req.body);
+
+      if (endsOn && endsOn < startsOn) {
+        return res.status(400).json({ message: "The last day must be on or after the first day" });
+      }
+
+      const student = await storage.getUser(studentId);
+      const isEnrolled = (await storage.getStudentClassrooms(studentId))
+        .some(studentClassroom => studentClassroom.id === classroom.id && studentClassroom.enrollmentStatus === "active");
+      if (!student || !isEnrolled) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      // storage checks the job has an opening over the whole date range
+      const assignment = await storage.createJobAssignment({
+        jobId: job.id,
+        userId: student.id,
+        startsOn,
+        endsOn: endsOn ?? null,
+      });
+      res.json({ message: `${student.firstName} ${student.lastName} is now ${job.title}`, assignment });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Pick a student and a valid date range" });
+      }
+      console.error("Error assigning job:", error);
+      res.status(500).json({ message: "Failed to assign job" });
+    }
+  });
+
+  // Ends an assignment; the student is still paid through its last day
+  app.patch('/api/job-assignments/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const assignment = await storage.getJobAssignment(parseInt(req.params.id));
+      const classroom = assignment && await getAuthorizedClassroom(user, assignment.job.classroomId, "manage_students");
+      if (!assignment || !classroom) {
+        return res.status(404).json({ message: "Job assignment not found" });
+      }
+
+      const { endsOn } = z.object({
+        endsOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).default(today(classroom.timeZone)),
+      }).parse(req.body);
+
+      if (endsOn < assignment.startsOn) {
+        return res.status(400).json({ message: "The last day must be on or after the first day" });
+      }
+
+      const updated = await storage.endJobAssignment(assignment.id, endsOn);
+      res.json({ message: `${assignment.job.title} ends on ${endsOn}`, assignment: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid last day" });
+      }
+      console.error("Error ending job assignment:", error);
+      res.status(500).json({ message: "Failed to end job assignment" });
+    }
+  });
+
+  // Job application routes
+  // Jobs in the student's classes, with how many openings are left, plus their own applications and jobs
+  app.get('/api/job-board', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const classrooms = (await storage.getStudentClassrooms(userId))
+        .filter(classroom => classroom.enrollmentStatus === "active");
+      // Each class's jobs as of its own today
+      const classroomJobs = await Promise.all(classrooms.map(async (classroom) => {
+        const date = today(classroom.timeZone);
+        const jobs = await storage.getJobs(classroom.id, date);
+        const assignments = await storage.getStudentJobAssignments(userId, date);
+        return {
+          // Leave out who holds each job; students only need the count
+          jobs: jobs.map(({ assignments, ...job }) => ({
+            ...job,
+            classroomName: classroom.name,
+            openings: Math.max(job.slots - assignments.length, 0),
+          })),
+          assignments: assignments.filter(assignment => assignment.job.classroomId === classroom.id),
+        };
+      }));
+
+      res.json({
+        jobs: classroomJobs.flatMap(classroomJob => classroomJob.jobs),
+        applications: await storage.getStudentJobApplications(userId),
+        assignments: classroomJobs
+          .flatMap(classroomJob => classroomJob.assignments)
+          .sort((a, b) => a.startsOn.localeCompare(b.startsOn)),
+      });
+    } catch (error) {
+      console.error("Error fetching job board:", error);
+      res.status(500).json({ message: "Failed to fetch job board" });
+    }
+  });
+
+  app.post('/api/job-applications', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const data = insertJobApplicationSchema.parse({
+        ...req.body,
+        userId,
+      });
+
+      const job = await storage.getJob(data.jobId);
+      const classroom = job && (await storage.getStudentClassrooms(userId))
+        .find(classroom => classroom.id === job.classroomId && classroom.enrollmentStatus === "active");
+      if (!job || !classroom) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const holders = await storage.getJobAssignmentsOn(job.id, today(classroom.timeZone));
+      if (holders.some(holder => holder.userId === userId)) {
+        return res.status(400).json({ message: "You already have this job" });
+      }
+      const applications = await storage.getStudentJobApplications(userId);
+      if (applications.some(application => application.jobId === job.id && application.status === "pending")) {
+        return res.status(400).json({ message: "You already applied for this job" });
+      }
+      if (holders.length >= job.slots) {
+        return res.status(400).json({ message: "This job has no openings right now" });
+      }
+
+      const application = await storage.createJobApplication(data);
+      res.json({ message: `Application sent for ${job.title}!`, application });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Tell your teacher why you want this job" });
+      }
+      console.error("Error creating job application:", error);
+      res.status(500).json({ message: "Failed to send job application" });
+    }
+  });
+
+  // Students quit their own job; it ends today and today's payroll still pays it
+  app.post('/api/job-resignations', isAuthenticated, requirePermission("use_own_account"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { assignmentId } = z.object({ assignmentId: z.number() }).parse(req.body);
+      const assignment = await storage.getJobAssignment(assignmentId);
+      const classroom = assignment && assignment.userId === userId ? await storage.getClassroom(assignment.job.classroomId) : undefined;
+      const date = today(classroom?.timeZone);
+      if (!assignment || !classroom || (assignment.endsOn && assignment.endsOn < date)) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (assignment.startsOn > date) {
+        return res.status(400).json({ message: "This job hasn't started yet. Ask your teacher to cancel it." });
+      }
+
+      const updated = await storage.endJobAssignment(assignment.id, date);
+      res.json({ message: `You resigned as ${assignment.job.title}`, assignment: updated });
+    } catch (error) {
+      console.error("Error resigning from job:", error);
+      res.status(500).json({ message: "Failed to resign from job" });
+    }
+  });
+
+  app.get('/api/job-applications', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+
+      const classroom = await getAuthorizedClassroom(user, req.query.classroomId, "manage_students");
+      if (!classroom) {
+        return res.status(404).json({ message: "Classroom not found" });
+      }
+
+      const applications = await storage.getPendingJobApplications(classroom.id);
+      res.json(applications);
+    } catch (error) {
+      console.error("Error fetching job applications:", error);
+      res.status(500).json({ message: "Failed to fetch job applications" });
+    }
+  });
+
+  // Hiring starts the student's job today; rejecting just closes the application
+  app.patch('/api/job-applications/:id', isAuthenticated, requirePermission("manage_students"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+
+      const application = await storage.getJobApplication(parseInt(req.params.id));
+      const classroom = application && await getAuthorizedClassroom(user, application.job.classroomId, "manage_students");
+      if (!application || !classroom) {
+        return res.status(404).json({ message: "Job application not found" });
+      }
+      if (application.status !== "pending") {
+        return res.status(400).json({ message: "This application was already reviewed" });
+      }
+
+      const { status } = z.object({ status: z.enum(["hired", "rejected"]) }).parse(req.body);
+      const student = await storage.getUser(application.userId);
+      const studentName = `${student?.firstName} ${student?.lastName}`;
+
+      if (status === "rejected") {
+        const rejected = await storage.rejectJobApplication(application.id, userId);
+        return res.json({ message: `${studentName} was not hired as ${application.job.title}`, application: rejected });
+      }
+
+      const hired = await storage.hireJobApplicant(application.id, userId, today(classroom.timeZone));
+      res.json({ message: `${studentName} is now ${application.job.title}`, ...hired });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid decision" });
+      }
+      console.error("Error reviewing job application:", error);
+      res.status(500).json({ message: "Failed to review job application" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
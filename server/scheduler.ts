@@ -0,0 +1,237 @@
+import { storage } from "./storage";
+import { getClassroomAccess } from "./permissions";
+import { runPaycheck, collectRent, payInterest } from "./payroll";
+import { addDays } from "./dates";
+import type { Classroom, PayrollSchedule, CalendarEntry } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Far enough ahead that a monthly schedule always has a next run, even around skipped days
+const LOOKAHEAD_DAYS = 62;
+// A run shifted past a longer break than this (summer) is dropped rather than paid weeks late
+const MAX_SHIFT_DAYS = 21;
+
+type ScheduleRule = Pick<PayrollSchedule, "frequency" | "dayOfWeek" | "dayOfMonth" | "skipDates" | "noSchoolDays">;
+type SchoolCalendar = Pick<CalendarEntry, "kind" | "startsOn" | "endsOn">[];
+
+export interface ScheduledRun {
+  scheduledOn: string; // the matching day of the schedule
+  runOn: string; // the day it actually runs, later when shifted past a day off
+  share: number; // fraction of the full amount, below 1 when prorated
+}
+
+// The wall-clock day (YYYY-MM-DD) and time (HH:MM) in the time zone
+function localNow(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  return { date: `${part("year")}-${part("month")}-${part("day")}`, time: `${part("hour")}:${part("minute")}` };
+}
+
+export function isScheduledOn(rule: ScheduleRule, date: string) {
+  if (rule.skipDates.includes(date)) {
+    return false;
+  }
+  const day = new Date(`${date}T00:00:00Z`);
+  return rule.frequency === "weekly" ? day.getUTCDay() === rule.dayOfWeek : day.getUTCDate() === rule.dayOfMonth;
+}
+
+function isDayOff(calendar: SchoolCalendar, date: string) {
+  return calendar.some(entry => entry.kind !== "half-day" && entry.startsOn <= date && date <= entry.endsOn);
+}
+
+// How much of a school day the date is: 0 on weekends and days off, 0.5 on half days, otherwise 1
+function schoolDayShare(calendar: SchoolCalendar, date: string) {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (weekday === 0 || weekday === 6 || isDayOff(calendar, date)) {
+    return 0;
+  }
+  return calendar.some(entry => entry.kind === "half-day" && entry.startsOn <= date && date <= entry.endsOn) ? 0.5 : 1;
+}
+
+// School days in the period a run pays for (since the previous matching day), as a share of its weekdays
+function periodShare(rule: ScheduleRule, calendar: SchoolCalendar, scheduledOn: string) {
+  let start: string;
+  if (rule.frequency === "weekly") {
+    start = addDays(scheduledOn, -7);
+  } else {
+    const day = new Date(`${scheduledOn}T00:00:00Z`);
+    day.setUTCMonth(day.getUTCMonth() - 1);
+    start = day.toISOString().slice(0, 10);
+  }
+
+  let weekdays = 0;
+  let schoolDays = 0;
+  for (let date = addDays(start, 1); date <= scheduledOn; date = addDays(date, 1)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      weekdays++;
+      schoolDays += schoolDayShare(calendar, date);
+    }
+  }
+  return weekdays > 0 ? Math.round((schoolDays / weekdays) * 100) / 100 : 1;
+}
+
+// How a matching day plays out against the school calendar; null when it doesn't run at all
+function planRun(rule: ScheduleRule, calendar: SchoolCalendar, scheduledOn: string): ScheduledRun | null {
+  if (rule.noSchoolDays === "prorate") {
+    return { scheduledOn, runOn: scheduledOn, share: periodShare(rule, calendar, scheduledOn) };
+  }
+  if (!isDayOff(calendar, scheduledOn)) {
+    return { scheduledOn, runOn: scheduledOn, share: 1 };
+  }
+  if (rule.noSchoolDays === "shift") {
+    for (let offset = 1; offset <= MAX_SHIFT_DAYS; offset++) {
+      const runOn = addDays(scheduledOn, offset);
+      if (schoolDayShare(calendar, runOn) > 0) {
+        return { scheduledOn, runOn, share: 1 };
+      }
+    }
+  }
+  return null;
+}
+
+// Runs landing from through to, including ones shifted there from earlier matching days. A day never runs
+// twice, so a shifted run landing on another matching day is folded into it.
+export function getScheduledRuns(rule: ScheduleRule, calendar: SchoolCalendar, from: string, to: string) {
+  const runs: ScheduledRun[] = [];
+  for (let date = addDays(from, -MAX_SHIFT_DAYS); date <= to; date = addDays(date, 1)) {
+    const run = isScheduledOn(rule, date) ? planRun(rule, calendar, date) : null;
+    if (run && run.runOn >= from && run.runOn <= to && !runs.some(other => other.runOn === run.runOn)) {
+      runs.push(run);
+    }
+  }
+  return runs.sort((a, b) => a.runOn.localeCompare(b.runOn));
+}
+
+// The classroom's calendar entries that can affect runs from through to: shifted runs look back
+// MAX_SHIFT_DAYS, and prorating looks back another month
+export async function getSchoolCalendar(classroomId: number, from: string, to: string) {
+  return await storage.getCalendarEntries(classroomId, addDays(from, -(MAX_SHIFT_DAYS + 31)), to);
+}
+
+// The next runs of the schedule, starting with today if it hasn't run yet
+export async function getUpcomingRuns(
+  schedule: PayrollSchedule,
+  classroom: Classroom,
+  count = 3,
+  now = new Date()
+): Promise<ScheduledRun[]> {
+  const { date: localToday } = localNow(now, classroom.timeZone);
+  const until = addDays(localToday, LOOKAHEAD_DAYS);
+  const calendar = await getSchoolCalendar(classroom.id, localToday, until);
+  return getScheduledRuns(schedule, calendar, localToday, until)
+    .filter(run => run.runOn !== schedule.lastRunOn)
+    .slice(0, count);
+}
+
+// Posts one scheduled run as the teacher who created the schedule. The idempotency key makes a second server
+// picking up the same run replay the first one's batch instead of paying twice.
+async function runSchedule(schedule: PayrollSchedule, classroom: Classroom, date: string, share: number) {
+  const creator = await storage.getUser(schedule.createdBy);
+  if (!creator || !(await getClassroomAccess(creator, classroom)).permissions.includes("run_payroll")) {
+    throw new Error("The person who set up this schedule can no longer run payroll for this class");
+  }
+
+  const idempotencyKey = `schedule-${schedule.id}-${date}`;
+  if (schedule.kind === "interest") {
+    return await payInterest(classroom, { idempotencyKey, share }, creator.id);
+  }
+  if (schedule.kind === "rent") {
+    return await collectRent(
+      classroom,
+      { chargeBy: schedule.payBy === "housing" ? "housing" : "flat", amount: schedule.amount, onDate: date, idempotencyKey, share },
+      creator.id
+    );
+  }
+  return await runPaycheck(
+    classroom,
+    { payBy: schedule.payBy === "jobs" ? "jobs" : "flat", amount: schedule.amount, onDate: date, idempotencyKey, share },
+    creator.id
+  );
+}
+
+// Runs every active schedule that is due: a run landing today in its classroom's time zone, at or after its
+// time, that it hasn't already attempted. Failures are kept on the schedule for the dashboard and not retried.
+export async function runDueSchedules(now = new Date()) {
+  const schedules = await storage.getActivePayrollSchedules();
+  for (const { classroom, ...schedule } of schedules) {
+    let date: string | undefined;
+    try {
+      const local = localNow(now, classroom.timeZone);
+      if (local.date === schedule.lastRunOn || local.time < schedule.timeOfDay) {
+        continue;
+      }
+      const calendar = await getSchoolCalendar(classroom.id, local.date, local.date);
+      const [run] = getScheduledRuns(schedule, calendar, local.date, local.date);
+      if (!run) {
+        continue;
+      }
+      date = local.date;
+
+      // Prorated to nothing: a period with no school days has nothing to pay or charge
+      if (run.share === 0) {
+        await storage.recordPayrollScheduleRun(schedule.id, { lastRunOn: date, lastBatchId: schedule.lastBatchId, lastError: null });
+        continue;
+      }
+
+      const { batch } = await runSchedule(schedule, classroom, date, run.share);
+      await storage.recordPayrollScheduleRun(schedule.id, { lastRunOn: date, lastBatchId: batch.id, lastError: null });
+    } catch (error) {
+      console.error(`Error running payroll schedule ${schedule.id}:`, error);
+      await storage.recordPayrollScheduleRun(schedule.id, {
+        lastRunOn: date ?? schedule.lastRunOn,
+        lastBatchId: schedule.lastBatchId,
+        lastError: error instanceof Error ? error.message : "Failed to run schedule",
+      });
+    }
+  }
+}
+
+// Settles every auction whose bidding has ended. Another server settling the same auction first is fine: the
+// second settle finds it already done.
+export async function settleDueAuctions(now = new Date()) {
+  for (const auction of await storage.getDueAuctions(now)) {
+    try {
+      await storage.settleAuction(auction.id);
+    } catch (error) {
+      console.error(`Error settling auction ${auction.id}:`, error);
+    }
+  }
+}
+
+// Pays out every CD that has reached its maturity date; one already paid out (by another server) is skipped
+export async function matureDueCds(now = new Date()) {
+  for (const cd of await storage.getDueCds(now)) {
+    try {
+      await storage.closeCd(cd.id);
+    } catch (error) {
+      console.error(`Error paying out CD ${cd.id}:`, error);
+    }
+  }
+}
+
+export function startScheduler() {
+  let running = false;
+  setInterval(async () => {
+    // A slow run (many classrooms, slow database) shouldn't overlap the next check
+    if (running) return;
+    running = true;
+    try {
+      await runDueSchedules();
+      await settleDueAuctions();
+      await matureDueCds();
+      await storage.expireWithdrawalRequests(new Date());
+    } catch (error) {
+      console.error("Error checking payroll schedules, auctions, CDs and withdrawal requests:", error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
@@ -1,57 +1,495 @@
 import {
   users,
+  localCredentials,
+  studentPins,
+  classrooms,
+  classroomEnrollments,
+  classroomStaff,
   accounts,
+  journalEntries,
+  batches,
   transactions,
   withdrawalRequests,
   customQuickActions,
+  jobs,
+  jobAssignments,
+  jobApplications,
+  payrollSchedules,
+  calendarEntries,
+  housingUnits,
+  housingAssignments,
+  rentCharges,
+  housingPurchases,
+  storeItems,
+  inventoryItems,
+  auctions,
+  auctionLots,
+  auctionBids,
+  savingsSettings,
+  cdProducts,
+  certificatesOfDeposit,
   type User,
   type UpsertUser,
+  type LocalCredential,
+  type StudentPin,
+  type Classroom,
+  type InsertClassroom,
+  type UpdateClassroom,
+  type ClassroomEnrollment,
+  type ClassroomStaff,
+  type InsertClassroomStaff,
   type Account,
   type InsertAccount,
   type Transaction,
   type InsertTransaction,
+  type Batch,
+  type InsertBatch,
   type WithdrawalRequest,
   type InsertWithdrawalRequest,
   type UpdateWithdrawalRequest,
   type CustomQuickAction,
   type InsertCustomQuickAction,
+  type Job,
+  type InsertJob,
+  type UpdateJob,
+  type JobAssignment,
+  type InsertJobAssignment,
+  type JobApplication,
+  type InsertJobApplication,
+  type PayrollSchedule,
+  type InsertPayrollSchedule,
+  type UpdatePayrollSchedule,
+  type CalendarEntry,
+  type InsertCalendarEntry,
+  type HousingUnit,
+  type InsertHousingUnit,
+  type UpdateHousingUnit,
+  type HousingAssignment,
+  type InsertHousingAssignment,
+  type HousingPurchase,
+  type InsertHousingPurchase,
+  type StoreItem,
+  type InsertStoreItem,
+  type UpdateStoreItem,
+  type InventoryItem,
+  type Auction,
+  type InsertAuction,
+  type AuctionLot,
+  type AuctionBid,
+  type SavingsSettings,
+  type UpsertSavingsSettings,
+  type CdProduct,
+  type InsertCdProduct,
+  type CertificateOfDeposit,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { addDays, dayOf, today } from "./dates";
+import { eq, ne, desc, and, or, sql, inArray, notExists, lte, gte, gt, isNull, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { randomBytes, randomInt, randomUUID } from "crypto";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+// Subquery of the user ids enrolled in a classroom, for scoping student queries.
+// Enrollments still waiting for teacher approval are left out.
+function enrolledUserIds(classroomId: number) {
+  return db
+    .select({ userId: classroomEnrollments.userId })
+    .from(classroomEnrollments)
+    .where(and(eq(classroomEnrollments.classroomId, classroomId), eq(classroomEnrollments.status, "active")));
+}
+
+// The student's everyday account; their savings account, if they opened one, is a second row
+function checkingAccountOf(userId: string) {
+  return and(eq(accounts.userId, userId), eq(accounts.kind, "student"))!;
+}
+
+// How long a withdrawal request holds the student's money before it expires unreviewed
+const WITHDRAWAL_REQUEST_HOLD_DAYS = 7;
+
+// No 0/O or 1/I, so codes read cleanly off a projector
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 6;
+
+function generateJoinCode(): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Raised when a ledger operation is rejected; `status` is the HTTP status routes should answer with
+export class LedgerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+function negateAmount(amount: string): string {
+  return amount.startsWith("-") ? amount.slice(1) : `-${amount}`;
+}
+
+// What a CD pays back: the deposit plus its interest once it has matured, or the deposit less the penalty before
+export function cdPayout(cd: Pick<CertificateOfDeposit, "principal" | "interestRate" | "penaltyRate">, matured: boolean): string {
+  const rate = matured ? parseFloat(cd.interestRate) : -parseFloat(cd.penaltyRate);
+  return (parseFloat(cd.principal) * (1 + rate / 100)).toFixed(2);
+}
+
+export interface ClassLoginStudent {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  kind: string;
+  length: number;
+}
+
+export interface RosterStudent {
+  firstName: string;
+  lastName: string;
+  email?: string;
+}
+
+export interface RosterImportStudent extends RosterStudent {
+  classroomId: number;
+  startingBalance: string | null;
+}
+
+export interface PostTransactionOptions {
+  // Let the balance go below zero (defaults to false)
+  allowNegative?: boolean;
+  // Apply as much of a debit as the balance covers instead of rejecting it
+  clampAtZero?: boolean;
+}
+
+export interface PostedTransaction {
+  transaction: Transaction;
+  account: Account;
+}
+
+export interface BatchResult {
+  batch: Batch;
+  transactions: Transaction[];
+  // True when the idempotency key matched an earlier run and nothing new was posted
+  replayed: boolean;
+}
+
+export interface BatchRollbackResult {
+  batch: Batch;
+  reversals: Transaction[];
+  // Students whose reversal was rejected, e.g. because their balance would go negative
+  skipped: { transactionId: number; user: User; amount: string; reason: string }[];
+}
+
+export type TransactionWithReversal = Transaction & { reversedByTransactionId: number | null };
+
+type UserName = Pick<User, "id" | "firstName" | "lastName">;
+
+export type StudentBankerActivity = TransactionWithReversal & { student: UserName; banker: UserName };
+
+export type JobWithAssignments = Job & { assignments: (JobAssignment & { user: User })[] };
+
+// What one student earns in a job payroll run; students without a job are listed with nothing to earn
+export interface PayrollLine {
+  student: User & { account: Account };
+  jobs: Pick<Job, "id" | "title" | "wage">[];
+  amount: string;
+}
+
+export type HousingUnitWithResidents = HousingUnit & { owner: User | null; assignments: (HousingAssignment & { user: User })[] };
+
+// One student in a rent run: the unit they live in (null without housing) and the rent they still owe
+export interface RentRollLine {
+  student: User & { account: Account };
+  unit: Pick<HousingUnit, "id" | "name" | "rent" | "ownerId"> | null;
+  owed: string;
+}
+
+// The class's cap on withdrawals from a savings account; periods follow the class's time zone
+export interface SavingsWithdrawalLimit {
+  classroomName: string;
+  limit: number;
+  period: string; // 'week' or 'month'
+  timeZone: string;
+}
+
+// This run's rent for one student; runRentBatch adds what they still owe
+export interface RentChargeLine {
+  accountId: number;
+  userId: string;
+  amountDue: string;
+  description: string;
+  createdBy: string;
+  // The tenant's name, for the ledger lines that pass rent they owed from earlier runs on to a unit's owner
+  tenantName: string;
+  // The student who owns the unit, paid what the tenant manages of amountDue instead of the class keeping it
+  landlord?: { accountId: number; description: string };
+}
+
+// What is left of one earlier rent charge, and the owner's account it goes to (null when the class keeps it)
+interface OwedRentCharge {
+  landlordAccountId: number | null;
+  cents: number;
+}
+
+// A lot as bidding stands: the leading bid (null before the first one) and the least the next bid can be.
+// Once settled, the winner may not be the leading bidder if the leader could no longer pay.
+export type AuctionLotStanding = AuctionLot & {
+  leadingBid: (AuctionBid & { user: User }) | null;
+  winner: User | null;
+  bidCount: number;
+  minimumBid: string;
+};
+
+export interface ReconciliationAccount {
+  accountId: number;
+  kind: string;
+  userId: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  cachedBalance: string;
+  ledgerBalance: string;
+  difference: string;
+}
+
+export interface ReconciliationReport {
+  accounts: ReconciliationAccount[];
+  mismatchedAccounts: number;
+  unbalancedEntries: { journalEntryId: number; total: string }[];
+}
 
 // Interface for storage operations
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUsersByEmails(emails: string[]): Promise<User[]>;
+  claimPlaceholderUser(user: UpsertUser & { id: string, email: string }): Promise<User | undefined>;
+  updateUserRole(id: string, role: string): Promise<User>;
+  
+  // Local credential operations
+  getLocalCredentials(userId: string): Promise<LocalCredential | undefined>;
+  getLocalCredentialsByUsername(username: string): Promise<LocalCredential | undefined>;
+  setLocalCredentials(userId: string, username: string, passwordHash: string): Promise<LocalCredential>;
+  
+  // Student PIN operations
+  getClassroomByLoginKey(loginKey: string): Promise<Classroom | undefined>;
+  ensureClassroomLoginKey(classroomId: number): Promise<string>;
+  getClassLoginRoster(classroomId: number): Promise<ClassLoginStudent[]>;
+  getStudentPin(userId: string): Promise<StudentPin | undefined>;
+  setStudentPin(userId: string, kind: string, length: number, secretHash: string): Promise<StudentPin>;
+  recordPinFailure(userId: string, maxAttempts: number, lockedUntil: Date): Promise<StudentPin>;
+  clearPinFailures(userId: string): Promise<void>;
   
   // Account operations
   getAccount(userId: string): Promise<Account | undefined>;
+  getAccountById(id: number): Promise<Account | undefined>;
   createAccount(account: InsertAccount): Promise<Account>;
-  updateAccountBalance(userId: string, newBalance: string): Promise<void>;
+  getAccountHolds(userId: string): Promise<string>;
+  getSavingsAccount(userId: string): Promise<Account | undefined>;
+  openSavingsAccount(userId: string, classroomId: number): Promise<Account>;
+  transferFunds(
+    userId: string,
+    from: "checking" | "savings",
+    amount: string,
+    createdBy: string,
+    withdrawalLimit?: SavingsWithdrawalLimit
+  ): Promise<{ checking: Account; savings: Account }>;
+  countSavingsWithdrawals(accountId: number, period: string, timeZone: string): Promise<number>;
+  
+  // Classroom operations
+  getClassrooms(teacherId: string): Promise<(Classroom & { studentCount: number })[]>;
+  getAccessibleClassrooms(userId: string, allClassrooms: boolean): Promise<(Classroom & { studentCount: number; staff: ClassroomStaff | null })[]>;
+  getClassroom(id: number): Promise<Classroom | undefined>;
+  createClassroom(classroom: InsertClassroom): Promise<Classroom>;
+  updateClassroom(id: number, update: UpdateClassroom): Promise<Classroom>;
+  enrollStudent(classroomId: number, userId: string): Promise<void>;
+  unenrollStudent(classroomId: number, userId: string): Promise<void>;
+  getUnenrolledStudents(): Promise<User[]>;
+  getStudentClassrooms(userId: string): Promise<(Classroom & { enrollmentStatus: string })[]>;
+  
+  // Classroom staff operations
+  getClassroomStaff(classroomId: number): Promise<(ClassroomStaff & { user: User })[]>;
+  getClassroomStaffGrant(classroomId: number, userId: string): Promise<ClassroomStaff | undefined>;
+  getStaffGrants(userId: string): Promise<(ClassroomStaff & { timeZone: string })[]>;
+  addClassroomStaff(grant: InsertClassroomStaff): Promise<ClassroomStaff>;
+  removeClassroomStaff(classroomId: number, userId: string): Promise<void>;
+  getStudentBankerActivity(classroomId: number): Promise<StudentBankerActivity[]>;
+  
+  // Join code operations
+  regenerateJoinCode(classroomId: number, expiresAt: Date | null): Promise<Classroom>;
+  revokeJoinCode(classroomId: number): Promise<Classroom>;
+  getClassroomByJoinCode(code: string): Promise<Classroom | undefined>;
+  joinClassroom(classroom: Classroom, userId: string): Promise<ClassroomEnrollment>;
+  getPendingEnrollments(classroomId: number): Promise<(ClassroomEnrollment & { user: User })[]>;
+  approveEnrollment(classroomId: number, userId: string): Promise<boolean>;
   
   // Student operations
-  getAllStudents(): Promise<(User & { account: Account })[]>;
+  getClassroomStudents(classroomId: number): Promise<(User & { account: Account })[]>;
+  createRosterStudent(classroomId: number, student: RosterStudent): Promise<User & { account: Account }>;
+  importRoster(students: RosterImportStudent[], createdBy: string): Promise<number>;
   
   // Transaction operations
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  getTransactionsByAccount(accountId: number): Promise<Transaction[]>;
+  postTransaction(transaction: InsertTransaction, options?: PostTransactionOptions): Promise<PostedTransaction | undefined>;
+  getTransaction(id: number): Promise<(Transaction & { account: Account }) | undefined>;
+  getTransactionsByAccount(accountId: number): Promise<TransactionWithReversal[]>;
+  reverseTransaction(transactionId: number, createdBy: string): Promise<PostedTransaction>;
+
+  // Batch operations
+  runBatch(batch: InsertBatch, transactions: InsertTransaction[], options?: PostTransactionOptions): Promise<BatchResult>;
+  runRentBatch(batch: InsertBatch, lines: RentChargeLine[]): Promise<BatchResult>;
+  getBatches(classroomId: number): Promise<(Batch & { createdByUser: User | null, reversedCount: number })[]>;
+  getBatch(id: number): Promise<(Batch & { createdByUser: User | null, transactions: (TransactionWithReversal & { user: User })[] }) | undefined>;
+  rollbackBatch(id: number, createdBy: string): Promise<BatchRollbackResult>;
+
+  // Reconciliation operations
+  getReconciliationReport(classroomId: number): Promise<ReconciliationReport>;
+  repairAccountBalance(accountId: number): Promise<Account>;
   
   // Withdrawal request operations
   createWithdrawalRequest(request: InsertWithdrawalRequest): Promise<WithdrawalRequest>;
-  getPendingWithdrawalRequests(): Promise<(WithdrawalRequest & { user: User, account: Account })[]>;
-  updateWithdrawalRequest(id: number, update: UpdateWithdrawalRequest): Promise<WithdrawalRequest>;
+  getPendingWithdrawalRequests(classroomId: number): Promise<(WithdrawalRequest & { user: User, account: Account, storeItem: StoreItem | null })[]>;
+  getWithdrawalRequest(id: number): Promise<(WithdrawalRequest & { account: Account }) | undefined>;
+  reviewWithdrawalRequest(id: number, update: UpdateWithdrawalRequest, onDate: string): Promise<WithdrawalRequest>;
+  expireWithdrawalRequests(now: Date): Promise<number>;
+  createStoreOrder(order: InsertWithdrawalRequest & { storeItemId: number; quantity: number }): Promise<WithdrawalRequest>;
+  getStudentStoreOrders(userId: string): Promise<(WithdrawalRequest & { storeItem: StoreItem })[]>;
+  getStoreItemOrderedCount(storeItemId: number, accountId: number): Promise<number>;
   
   // Stats operations
-  getTotalStudentCount(): Promise<number>;
-  getTotalBalance(): Promise<string>;
-  getPendingRequestCount(): Promise<number>;
-  getWeeklyTotal(): Promise<string>;
+  getTotalStudentCount(classroomId: number): Promise<number>;
+  getTotalBalance(classroomId: number): Promise<string>;
+  getPendingRequestCount(classroomId: number): Promise<number>;
+  getWeeklyTotal(classroomId: number): Promise<string>;
   
   // Custom quick actions operations
-  getCustomQuickActions(teacherId: string): Promise<CustomQuickAction[]>;
+  getCustomQuickActions(teacherId: string, classroomId: number): Promise<CustomQuickAction[]>;
+  getCustomQuickAction(id: number): Promise<CustomQuickAction | undefined>;
   createCustomQuickAction(action: InsertCustomQuickAction): Promise<CustomQuickAction>;
   deleteCustomQuickAction(id: number, teacherId: string): Promise<void>;
+  
+  // Job operations
+  getJobs(classroomId: number, onDate: string): Promise<JobWithAssignments[]>;
+  getJob(id: number): Promise<Job | undefined>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: number, update: UpdateJob): Promise<Job>;
+  deleteJob(id: number): Promise<void>;
+  getJobAssignment(id: number): Promise<(JobAssignment & { job: Job }) | undefined>;
+  getJobAssignmentsOn(jobId: number, onDate: string): Promise<JobAssignment[]>;
+  createJobAssignment(assignment: InsertJobAssignment): Promise<JobAssignment>;
+  endJobAssignment(id: number, endsOn: string): Promise<JobAssignment>;
+  getJobPayroll(classroomId: number, onDate: string): Promise<PayrollLine[]>;
+  getStudentJobAssignments(userId: string, onDate: string): Promise<(JobAssignment & { job: Job })[]>;
+  
+  // Job application operations
+  createJobApplication(application: InsertJobApplication): Promise<JobApplication>;
+  getJobApplication(id: number): Promise<(JobApplication & { job: Job }) | undefined>;
+  getPendingJobApplications(classroomId: number): Promise<(JobApplication & { user: User; job: Job })[]>;
+  getStudentJobApplications(userId: string): Promise<(JobApplication & { job: Job })[]>;
+  rejectJobApplication(id: number, reviewedBy: string): Promise<JobApplication>;
+  hireJobApplicant(id: number, reviewedBy: string, startsOn: string): Promise<{ application: JobApplication; assignment: JobAssignment }>;
+  
+  // Payroll schedule operations
+  getPayrollSchedules(classroomId: number): Promise<PayrollSchedule[]>;
+  getPayrollSchedule(id: number): Promise<PayrollSchedule | undefined>;
+  getActivePayrollSchedules(): Promise<(PayrollSchedule & { classroom: Classroom })[]>;
+  createPayrollSchedule(schedule: InsertPayrollSchedule): Promise<PayrollSchedule>;
+  updatePayrollSchedule(id: number, update: UpdatePayrollSchedule): Promise<PayrollSchedule>;
+  deletePayrollSchedule(id: number): Promise<void>;
+  recordPayrollScheduleRun(id: number, run: Pick<PayrollSchedule, "lastRunOn" | "lastBatchId" | "lastError">): Promise<void>;
+
+  // Housing operations
+  getHousingUnits(classroomId: number, onDate: string): Promise<HousingUnitWithResidents[]>;
+  getHousingUnit(id: number): Promise<HousingUnit | undefined>;
+  createHousingUnit(unit: InsertHousingUnit): Promise<HousingUnit>;
+  updateHousingUnit(id: number, update: UpdateHousingUnit): Promise<HousingUnit>;
+  deleteHousingUnit(id: number): Promise<void>;
+  getHousingAssignment(id: number): Promise<(HousingAssignment & { unit: HousingUnit }) | undefined>;
+  getHousingAssignmentsOn(unitId: number, onDate: string): Promise<HousingAssignment[]>;
+  getStudentHousingFrom(classroomId: number, userId: string, onDate: string): Promise<(HousingAssignment & { unit: HousingUnit }) | undefined>;
+  createHousingAssignment(assignment: InsertHousingAssignment): Promise<HousingAssignment>;
+  moveHousing(fromAssignmentId: number, movedOutOn: string, assignment: InsertHousingAssignment): Promise<HousingAssignment>;
+  endHousingAssignment(id: number, endsOn: string): Promise<HousingAssignment>;
+  getRentRoll(classroomId: number, onDate: string): Promise<RentRollLine[]>;
+
+  // Housing purchase operations
+  createHousingPurchase(purchase: InsertHousingPurchase): Promise<HousingPurchase>;
+  getHousingPurchase(id: number): Promise<(HousingPurchase & { unit: HousingUnit }) | undefined>;
+  getPendingHousingPurchases(classroomId: number): Promise<(HousingPurchase & { user: User; unit: HousingUnit })[]>;
+  getStudentHousingPurchases(userId: string): Promise<(HousingPurchase & { unit: HousingUnit })[]>;
+  reviewHousingPurchase(id: number, status: "approved" | "rejected", reviewedBy: string): Promise<HousingPurchase>;
+
+  // Store operations
+  getStoreItems(classroomId: number): Promise<StoreItem[]>;
+  getStoreItem(id: number): Promise<StoreItem | undefined>;
+  createStoreItem(item: InsertStoreItem): Promise<StoreItem>;
+  updateStoreItem(id: number, update: UpdateStoreItem): Promise<StoreItem>;
+  removeStoreItem(id: number, removedBy: string): Promise<void>;
+
+  // Inventory operations
+  getStudentInventory(classroomId: number, userId: string): Promise<(InventoryItem & { storeItem: StoreItem })[]>;
+  getClassroomInventory(classroomId: number): Promise<(InventoryItem & { user: User; storeItem: StoreItem })[]>;
+  getInventoryItem(id: number): Promise<(InventoryItem & { storeItem: StoreItem }) | undefined>;
+  redeemInventoryItem(id: number, redeemedBy: string): Promise<InventoryItem | undefined>;
+
+  // Auction operations
+  getAuctions(classroomId: number): Promise<Auction[]>;
+  getAuction(id: number): Promise<Auction | undefined>;
+  getDueAuctions(now: Date): Promise<Auction[]>;
+  getAuctionLots(auctionId: number): Promise<AuctionLotStanding[]>;
+  getAuctionLot(id: number): Promise<(AuctionLot & { auction: Auction }) | undefined>;
+  createAuction(auction: InsertAuction & { createdBy: string }): Promise<Auction>;
+  placeBid(lotId: number, userId: string, amount: string): Promise<AuctionBid>;
+  getBidHolds(userId: string): Promise<string>;
+  settleAuction(id: number): Promise<AuctionLot[] | undefined>;
+
+  // Savings operations
+  getSavingsSettings(classroomId: number): Promise<SavingsSettings | undefined>;
+  upsertSavingsSettings(settings: UpsertSavingsSettings & { updatedBy: string }): Promise<SavingsSettings>;
+  getClassroomSavers(classroomId: number): Promise<(User & { account: Account })[]>;
+
+  // Certificate of deposit operations
+  getCdProducts(classroomId: number): Promise<CdProduct[]>;
+  getCdProduct(id: number): Promise<CdProduct | undefined>;
+  createCdProduct(product: InsertCdProduct): Promise<CdProduct>;
+  removeCdProduct(id: number): Promise<void>;
+  getStudentCds(userId: string): Promise<(CertificateOfDeposit & { product: CdProduct })[]>;
+  getClassroomCds(classroomId: number): Promise<(CertificateOfDeposit & { user: User; product: CdProduct })[]>;
+  getCd(id: number): Promise<CertificateOfDeposit | undefined>;
+  getDueCds(now: Date): Promise<CertificateOfDeposit[]>;
+  openCd(userId: string, product: CdProduct, amount: string): Promise<CertificateOfDeposit>;
+  closeCd(id: number): Promise<CertificateOfDeposit | undefined>;
+
+  // School calendar operations
+  getCalendarEntries(classroomId: number, from: string, to: string): Promise<CalendarEntry[]>;
+  getCalendarEntry(id: number): Promise<CalendarEntry | undefined>;
+  createCalendarEntry(entry: InsertCalendarEntry): Promise<CalendarEntry>;
+  deleteCalendarEntry(id: number): Promise<void>;
+}
+
+// The least a lot's next bid can be: the starting bid, then one increment above the leading bid
+function minimumBid(lot: Pick<AuctionLot, "startingBid" | "increment">, leadingAmount: string | null) {
+  return leadingAmount === null
+    ? lot.startingBid
+    : (parseFloat(leadingAmount) + parseFloat(lot.increment)).toFixed(2);
+}
+
+// Assignments that cover the given day
+function jobAssignmentCovers(onDate: string) {
+  return and(
+    lte(jobAssignments.startsOn, onDate),
+    or(isNull(jobAssignments.endsOn), gte(jobAssignments.endsOn, onDate))
+  );
+}
+
+function housingAssignmentCovers(onDate: string) {
+  return and(
+    lte(housingAssignments.startsOn, onDate),
+    or(isNull(housingAssignments.endsOn), gte(housingAssignments.endsOn, onDate))
+  );
 }
 
 export class DatabaseStorage implements IStorage {
@@ -85,9 +523,212 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserRole(id: string, role: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (user.role === "student" && !(await this.getAccount(user.id))) {
+      await this.createAccount({ userId: user.id });
+    }
+
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+
+  async getUsersByEmails(emails: string[]): Promise<User[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(users)
+      .where(inArray(sql`lower(${users.email})`, emails.map(email => email.toLowerCase())));
+  }
+
+  // Hands a roster placeholder with the same email over to the logging-in user: the real user row is
+  // created under the login's id and the placeholder's account and enrollments are moved onto it.
+  async claimPlaceholderUser(userData: UpsertUser & { id: string, email: string }): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [placeholder] = await tx
+        .select()
+        .from(users)
+        .where(and(eq(users.isPlaceholder, true), sql`lower(${users.email}) = lower(${userData.email})`))
+        .for("update");
+
+      if (!placeholder) {
+        return undefined;
+      }
+
+      // Free the unique email before the real row takes it
+      await tx.update(users).set({ email: null }).where(eq(users.id, placeholder.id));
+
+      const [user] = await tx
+        .insert(users)
+        .values({
+          ...userData,
+          firstName: userData.firstName || placeholder.firstName,
+          lastName: userData.lastName || placeholder.lastName,
+          role: placeholder.role,
+        })
+        .returning();
+
+      // Everything that points at the placeholder moves to the real user, or the delete below fails the foreign
+      // keys. A table that adds a user reference has to be added here too.
+      const from = placeholder.id;
+      const to = user.id;
+      await tx.update(localCredentials).set({ userId: to }).where(eq(localCredentials.userId, from));
+      await tx.update(studentPins).set({ userId: to }).where(eq(studentPins.userId, from));
+      await tx.update(classrooms).set({ teacherId: to }).where(eq(classrooms.teacherId, from));
+      await tx.update(classroomEnrollments).set({ userId: to }).where(eq(classroomEnrollments.userId, from));
+      await tx.update(classroomStaff).set({ userId: to }).where(eq(classroomStaff.userId, from));
+      await tx.update(accounts).set({ userId: to }).where(eq(accounts.userId, from));
+      await tx.update(journalEntries).set({ createdBy: to }).where(eq(journalEntries.createdBy, from));
+      await tx.update(batches).set({ createdBy: to }).where(eq(batches.createdBy, from));
+      await tx.update(batches).set({ rolledBackBy: to }).where(eq(batches.rolledBackBy, from));
+      await tx.update(transactions).set({ createdBy: to }).where(eq(transactions.createdBy, from));
+      await tx.update(withdrawalRequests).set({ reviewedBy: to }).where(eq(withdrawalRequests.reviewedBy, from));
+      await tx.update(customQuickActions).set({ teacherId: to }).where(eq(customQuickActions.teacherId, from));
+      await tx.update(jobAssignments).set({ userId: to }).where(eq(jobAssignments.userId, from));
+      await tx.update(jobApplications).set({ userId: to }).where(eq(jobApplications.userId, from));
+      await tx.update(jobApplications).set({ reviewedBy: to }).where(eq(jobApplications.reviewedBy, from));
+      await tx.update(payrollSchedules).set({ createdBy: to }).where(eq(payrollSchedules.createdBy, from));
+      await tx.update(housingUnits).set({ ownerId: to }).where(eq(housingUnits.ownerId, from));
+      await tx.update(housingAssignments).set({ userId: to }).where(eq(housingAssignments.userId, from));
+      await tx.update(housingPurchases).set({ userId: to }).where(eq(housingPurchases.userId, from));
+      await tx.update(housingPurchases).set({ reviewedBy: to }).where(eq(housingPurchases.reviewedBy, from));
+      await tx.update(rentCharges).set({ userId: to }).where(eq(rentCharges.userId, from));
+      await tx.update(calendarEntries).set({ createdBy: to }).where(eq(calendarEntries.createdBy, from));
+      await tx.update(inventoryItems).set({ userId: to }).where(eq(inventoryItems.userId, from));
+      await tx.update(inventoryItems).set({ redeemedBy: to }).where(eq(inventoryItems.redeemedBy, from));
+      await tx.update(auctions).set({ createdBy: to }).where(eq(auctions.createdBy, from));
+      await tx.update(auctionLots).set({ winnerId: to }).where(eq(auctionLots.winnerId, from));
+      await tx.update(auctionBids).set({ userId: to }).where(eq(auctionBids.userId, from));
+      await tx.update(savingsSettings).set({ updatedBy: to }).where(eq(savingsSettings.updatedBy, from));
+      await tx.update(certificatesOfDeposit).set({ userId: to }).where(eq(certificatesOfDeposit.userId, from));
+      await tx.delete(users).where(eq(users.id, from));
+
+      return user;
+    });
+  }
+
+  // Local credential operations
+  async getLocalCredentials(userId: string): Promise<LocalCredential | undefined> {
+    const [credentials] = await db.select().from(localCredentials).where(eq(localCredentials.userId, userId));
+    return credentials;
+  }
+
+  async getLocalCredentialsByUsername(username: string): Promise<LocalCredential | undefined> {
+    const [credentials] = await db
+      .select()
+      .from(localCredentials)
+      .where(eq(localCredentials.username, username.trim().toLowerCase()));
+    return credentials;
+  }
+
+  async setLocalCredentials(userId: string, username: string, passwordHash: string): Promise<LocalCredential> {
+    const values = { userId, username: username.trim().toLowerCase(), passwordHash };
+    const [credentials] = await db
+      .insert(localCredentials)
+      .values(values)
+      .onConflictDoUpdate({
+        target: localCredentials.userId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return credentials;
+  }
+
+  // Student PIN operations
+  async getClassroomByLoginKey(loginKey: string): Promise<Classroom | undefined> {
+    const [classroom] = await db.select().from(classrooms).where(eq(classrooms.loginKey, loginKey));
+    return classroom;
+  }
+
+  async ensureClassroomLoginKey(classroomId: number): Promise<string> {
+    // Only fills in a missing key, so a bookmarked login page keeps working
+    await db
+      .update(classrooms)
+      .set({ loginKey: randomBytes(12).toString("base64url") })
+      .where(and(eq(classrooms.id, classroomId), sql`${classrooms.loginKey} is null`));
+
+    const classroom = await this.getClassroom(classroomId);
+    return classroom!.loginKey!;
+  }
+
+  // Students in the class who have a PIN or picture login set up
+  async getClassLoginRoster(classroomId: number): Promise<ClassLoginStudent[]> {
+    return await db
+      .select({
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        kind: studentPins.kind,
+        length: studentPins.length,
+      })
+      .from(users)
+      .innerJoin(studentPins, eq(studentPins.userId, users.id))
+      .where(and(eq(users.role, "student"), inArray(users.id, enrolledUserIds(classroomId))))
+      .orderBy(users.firstName, users.lastName);
+  }
+
+  async getStudentPin(userId: string): Promise<StudentPin | undefined> {
+    const [pin] = await db.select().from(studentPins).where(eq(studentPins.userId, userId));
+    return pin;
+  }
+
+  // Setting a new PIN also lifts any lockout
+  async setStudentPin(userId: string, kind: string, length: number, secretHash: string): Promise<StudentPin> {
+    const values = { userId, kind, length, secretHash, failedAttempts: 0, lockedUntil: null };
+    const [pin] = await db
+      .insert(studentPins)
+      .values(values)
+      .onConflictDoUpdate({
+        target: studentPins.userId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return pin;
+  }
+
+  // Counts a wrong guess; the attempt that reaches `maxAttempts` locks the login and starts the count over
+  async recordPinFailure(userId: string, maxAttempts: number, lockedUntil: Date): Promise<StudentPin> {
+    const reachesLimit = sql`${studentPins.failedAttempts} + 1 >= ${maxAttempts}`;
+    const [pin] = await db
+      .update(studentPins)
+      .set({
+        failedAttempts: sql`case when ${reachesLimit} then 0 else ${studentPins.failedAttempts} + 1 end`,
+        lockedUntil: sql`case when ${reachesLimit} then ${lockedUntil.toISOString()}::timestamp else ${studentPins.lockedUntil} end`,
+      })
+      .where(eq(studentPins.userId, userId))
+      .returning();
+    return pin;
+  }
+
+  async clearPinFailures(userId: string): Promise<void> {
+    await db
+      .update(studentPins)
+      .set({ failedAttempts: 0, lockedUntil: null })
+      .where(eq(studentPins.userId, userId));
+  }
+
   // Account operations
   async getAccount(userId: string): Promise<Account | undefined> {
-    const [account] = await db.select().from(accounts).where(eq(accounts.userId, userId));
+    const [account] = await db.select().from(accounts).where(checkingAccountOf(userId));
+    return account;
+  }
+
+  async getAccountById(id: number): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts).where(eq(accounts.id, id));
     return account;
   }
 
@@ -96,139 +737,2316 @@ export class DatabaseStorage implements IStorage {
     return newAccount;
   }
 
-  async updateAccountBalance(userId: string, newBalance: string): Promise<void> {
-    await db
-      .update(accounts)
-      .set({ balance: newBalance, updatedAt: new Date() })
-      .where(eq(accounts.userId, userId));
+  // What the student's pending requests and leading bids are holding; their available balance is the ledger
+  // balance less this
+  async getAccountHolds(userId: string): Promise<string> {
+    const account = await this.getAccount(userId);
+    return account ? await this.sumHolds(db, account) : "0.00";
   }
 
-  // Student operations
-  async getAllStudents(): Promise<(User & { account: Account })[]> {
-    const results = await db
-      .select()
-      .from(users)
-      .leftJoin(accounts, eq(users.id, accounts.userId))
-      .where(eq(users.role, "student"))
-      .orderBy(users.firstName, users.lastName);
+  private async sumHolds(executor: DbExecutor, account: Account): Promise<string> {
+    const [requests] = await executor
+      .select({ total: sql<string>`coalesce(sum(${withdrawalRequests.amount}), 0)::text` })
+      .from(withdrawalRequests)
+      .where(and(eq(withdrawalRequests.accountId, account.id), eq(withdrawalRequests.status, "pending")));
+    if (!account.userId) {
+      return parseFloat(requests.total).toFixed(2);
+    }
 
-    return results.map(row => ({
-      ...row.users,
-      account: row.accounts!,
-    }));
+    const [purchases] = await executor
+      .select({ total: sql<string>`coalesce(sum(${housingPurchases.price}), 0)::text` })
+      .from(housingPurchases)
+      .where(and(eq(housingPurchases.userId, account.userId), eq(housingPurchases.status, "pending")));
+    const bids = await this.sumBidHolds(executor, account.userId);
+
+    return (parseFloat(requests.total) + parseFloat(purchases.total) + parseFloat(bids)).toFixed(2);
   }
 
-  // Transaction operations
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const [newTransaction] = await db.insert(transactions).values(transaction).returning();
-    return newTransaction;
+  // Locks the account and returns what it can still spend. Anything that adds a hold checks it this way, so two
+  // requests filed at once can't both count the same money.
+  private async lockAvailableBalance(tx: DbTransaction, condition: SQL): Promise<number> {
+    const [account] = await tx.select().from(accounts).where(condition).for("update");
+    if (!account) {
+      throw new LedgerError("Account not found", 404);
+    }
+    return parseFloat(account.balance) - parseFloat(await this.sumHolds(tx, account));
   }
 
-  async getTransactionsByAccount(accountId: number): Promise<Transaction[]> {
-    return await db
+  private async assertAvailable(tx: DbTransaction, condition: SQL, amount: string) {
+    const available = await this.lockAvailableBalance(tx, condition);
+    if (parseFloat(amount) > available) {
+      throw new LedgerError(`Insufficient balance: only $${Math.max(available, 0).toFixed(2)} is available`);
+    }
+  }
+
+  async getSavingsAccount(userId: string): Promise<Account | undefined> {
+    const [account] = await db
       .select()
+      .from(accounts)
+      .where(and(eq(accounts.userId, userId), eq(accounts.kind, "savings")));
+    return account;
+  }
+
+  // Opening twice returns the account the student already has, still following its first class's rules
+  async openSavingsAccount(userId: string, classroomId: number): Promise<Account> {
+    await db.insert(accounts).values({ userId, kind: "savings", classroomId }).onConflictDoNothing();
+    return (await this.getSavingsAccount(userId))!;
+  }
+
+  // Moves money between the student's checking and savings as one journal entry whose two lines are on their own
+  // accounts, so the treasury isn't involved. Money held by pending requests and bids can't leave checking, and
+  // withdrawals from savings are counted under the account lock so two at once can't both slip under the limit.
+  async transferFunds(
+    userId: string,
+    from: "checking" | "savings",
+    amount: string,
+    createdBy: string,
+    withdrawalLimit?: SavingsWithdrawalLimit
+  ): Promise<{ checking: Account; savings: Account }> {
+    return await db.transaction(async (tx) => {
+      // Both rows are locked in id order so two transfers by the same student can't deadlock
+      const owned = await tx
+        .select()
+        .from(accounts)
+        .where(and(eq(accounts.userId, userId), inArray(accounts.kind, ["student", "savings"])))
+        .orderBy(accounts.id)
+        .for("update");
+      const checking = owned.find(account => account.kind === "student");
+      const savings = owned.find(account => account.kind === "savings");
+      if (!checking || !savings) {
+        throw new LedgerError("Open a savings account first", 404);
+      }
+
+      if (from === "savings" && withdrawalLimit) {
+        const { classroomName, limit, period, timeZone } = withdrawalLimit;
+        if (await this.countWithdrawalsThisPeriod(tx, savings.id, period, timeZone) >= limit) {
+          throw new LedgerError(`${classroomName} allows ${limit} ${limit === 1 ? "withdrawal" : "withdrawals"} from savings a ${period}`);
+        }
+      }
+
+      const [source, target] = from === "checking" ? [checking, savings] : [savings, checking];
+      const held = from === "checking" ? parseFloat(await this.sumHolds(tx, checking)) : 0;
+      const available = parseFloat(source.balance) - held;
+      if (parseFloat(amount) > available) {
+        throw new LedgerError(`Insufficient balance: only $${Math.max(available, 0).toFixed(2)} is available`);
+      }
+
+      const description = from === "checking" ? "Transfer to savings" : "Transfer from savings";
+      const [entry] = await tx.insert(journalEntries).values({ description, createdBy }).returning();
+
+      const updated = new Map<number, Account>();
+      for (const [account, lineAmount] of [[source, negateAmount(amount)], [target, amount]] as const) {
+        const [result] = await tx
+          .update(accounts)
+          .set({ balance: sql`${accounts.balance} + ${lineAmount}::numeric`, updatedAt: new Date() })
+          .where(eq(accounts.id, account.id))
+          .returning();
+        await tx.insert(transactions).values({
+          accountId: account.id,
+          journalEntryId: entry.id,
+          type: "transfer",
+          amount: lineAmount,
+          description,
+          createdBy,
+        });
+        updated.set(result.id, result);
+      }
+
+      return { checking: updated.get(checking.id)!, savings: updated.get(savings.id)! };
+    });
+  }
+
+  // Transfers out of the savings account so far this week or month, for showing what's left of a withdrawal limit.
+  // transferFunds enforces the limit with the same count.
+  async countSavingsWithdrawals(accountId: number, period: string, timeZone: string): Promise<number> {
+    return await this.countWithdrawalsThisPeriod(db, accountId, period, timeZone);
+  }
+
+  // Periods start on Sunday or the 1st in the class's time zone
+  private async countWithdrawalsThisPeriod(executor: DbExecutor, accountId: number, period: string, timeZone: string) {
+    const onDate = today(timeZone);
+    const since = period === "month"
+      ? `${onDate.slice(0, 8)}01`
+      : addDays(onDate, -new Date(`${onDate}T00:00:00Z`).getUTCDay());
+
+    // A month back covers the longest period; the exact start is a local day, so it's compared after loading
+    const withdrawals = await executor
+      .select({ createdAt: transactions.createdAt })
       .from(transactions)
-      .where(eq(transactions.accountId, accountId))
-      .orderBy(desc(transactions.createdAt));
+      .where(and(
+        eq(transactions.accountId, accountId),
+        eq(transactions.type, "transfer"),
+        sql`${transactions.amount} < 0`,
+        gte(transactions.createdAt, new Date(Date.now() - 32 * 24 * 60 * 60 * 1000))
+      ));
+    return withdrawals.filter(withdrawal => dayOf(withdrawal.createdAt!, timeZone) >= since).length;
   }
 
-  // Withdrawal request operations
-  async createWithdrawalRequest(request: InsertWithdrawalRequest): Promise<WithdrawalRequest> {
-    const [newRequest] = await db.insert(withdrawalRequests).values(request).returning();
-    return newRequest;
+  // Classroom operations
+  async getClassrooms(teacherId: string): Promise<(Classroom & { studentCount: number })[]> {
+    const results = await db
+      .select({
+        classroom: classrooms,
+        studentCount: sql<number>`(select count(*)::int from ${classroomEnrollments} where ${classroomEnrollments.classroomId} = ${classrooms.id} and ${classroomEnrollments.status} = 'active')`,
+      })
+      .from(classrooms)
+      .where(eq(classrooms.teacherId, teacherId))
+      .orderBy(classrooms.period, classrooms.name);
+
+    return results.map(row => ({ ...row.classroom, studentCount: row.studentCount }));
   }
 
-  async getPendingWithdrawalRequests(): Promise<(WithdrawalRequest & { user: User, account: Account })[]> {
+  // Classrooms the user owns or helps run, or every classroom for school admins
+  async getAccessibleClassrooms(
+    userId: string,
+    allClassrooms: boolean
+  ): Promise<(Classroom & { studentCount: number; staff: ClassroomStaff | null })[]> {
     const results = await db
-      .select()
-      .from(withdrawalRequests)
-      .leftJoin(accounts, eq(withdrawalRequests.accountId, accounts.id))
-      .leftJoin(users, eq(accounts.userId, users.id))
-      .where(eq(withdrawalRequests.status, "pending"))
-      .orderBy(desc(withdrawalRequests.createdAt));
+      .select({
+        classroom: classrooms,
+        studentCount: sql<number>`(select count(*)::int from ${classroomEnrollments} where ${classroomEnrollments.classroomId} = ${classrooms.id} and ${classroomEnrollments.status} = 'active')`,
+        staff: classroomStaff,
+      })
+      .from(classrooms)
+      .leftJoin(
+        classroomStaff,
+        and(eq(classroomStaff.classroomId, classrooms.id), eq(classroomStaff.userId, userId))
+      )
+      .where(
+        allClassrooms
+          ? undefined
+          : or(eq(classrooms.teacherId, userId), eq(classroomStaff.userId, userId))
+      )
+      .orderBy(classrooms.period, classrooms.name);
 
-    return results.map(row => ({
-      ...row.withdrawal_requests,
-      user: row.users!,
-      account: row.accounts!,
-    }));
+    return results.map(row => ({ ...row.classroom, studentCount: row.studentCount, staff: row.staff }));
   }
 
-  async updateWithdrawalRequest(id: number, update: UpdateWithdrawalRequest): Promise<WithdrawalRequest> {
-    const [updatedRequest] = await db
-      .update(withdrawalRequests)
-      .set({ ...update, reviewedAt: new Date() })
-      .where(eq(withdrawalRequests.id, id))
-      .returning();
-    return updatedRequest;
+  async getClassroom(id: number): Promise<Classroom | undefined> {
+    const [classroom] = await db.select().from(classrooms).where(eq(classrooms.id, id));
+    return classroom;
   }
 
-  // Stats operations
-  async getTotalStudentCount(): Promise<number> {
-    const [result] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(users)
-      .where(eq(users.role, "student"));
-    return result.count;
+  async createClassroom(classroom: InsertClassroom): Promise<Classroom> {
+    const [newClassroom] = await db.insert(classrooms).values(classroom).returning();
+    return newClassroom;
   }
 
-  async getTotalBalance(): Promise<string> {
-    const [result] = await db
-      .select({ total: sql<string>`coalesce(sum(balance), 0)` })
-      .from(accounts);
-    return result.total || "0.00";
+  async updateClassroom(id: number, update: UpdateClassroom): Promise<Classroom> {
+    const [classroom] = await db
+      .update(classrooms)
+      .set(update)
+      .where(eq(classrooms.id, id))
+      .returning();
+    return classroom;
   }
 
-  async getPendingRequestCount(): Promise<number> {
-    const [result] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(withdrawalRequests)
-      .where(eq(withdrawalRequests.status, "pending"));
-    return result.count;
+  async enrollStudent(classroomId: number, userId: string): Promise<void> {
+    await db
+      .insert(classroomEnrollments)
+      .values({ classroomId, userId })
+      .onConflictDoUpdate({
+        target: [classroomEnrollments.classroomId, classroomEnrollments.userId],
+        set: { status: "active" },
+      });
   }
 
-  async getWeeklyTotal(): Promise<string> {
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-    
-    const [result] = await db
-      .select({ total: sql<string>`coalesce(sum(amount), 0)` })
-      .from(transactions)
+  async unenrollStudent(classroomId: number, userId: string): Promise<void> {
+    await db
+      .delete(classroomEnrollments)
       .where(
         and(
-          eq(transactions.type, "paycheck"),
-          sql`${transactions.createdAt} >= ${oneWeekAgo}`
+          eq(classroomEnrollments.classroomId, classroomId),
+          eq(classroomEnrollments.userId, userId)
         )
       );
-    return result.total || "0.00";
   }
 
-  // Custom quick actions operations
-  async getCustomQuickActions(teacherId: string): Promise<CustomQuickAction[]> {
+  // Students not in any classroom yet, e.g. accounts created before classrooms existed
+  async getUnenrolledStudents(): Promise<User[]> {
     return await db
       .select()
-      .from(customQuickActions)
-      .where(eq(customQuickActions.teacherId, teacherId))
-      .orderBy(customQuickActions.name);
+      .from(users)
+      .where(
+        and(
+          eq(users.role, "student"),
+          notExists(
+            db.select().from(classroomEnrollments).where(eq(classroomEnrollments.userId, users.id))
+          )
+        )
+      )
+      .orderBy(users.firstName, users.lastName);
   }
 
-  async createCustomQuickAction(action: InsertCustomQuickAction): Promise<CustomQuickAction> {
-    const [newAction] = await db
-      .insert(customQuickActions)
-      .values(action)
-      .returning();
-    return newAction;
+  async getStudentClassrooms(userId: string): Promise<(Classroom & { enrollmentStatus: string })[]> {
+    const results = await db
+      .select()
+      .from(classroomEnrollments)
+      .innerJoin(classrooms, eq(classroomEnrollments.classroomId, classrooms.id))
+      .where(eq(classroomEnrollments.userId, userId))
+      .orderBy(classrooms.period, classrooms.name);
+
+    return results.map(row => ({
+      ...row.classrooms,
+      enrollmentStatus: row.classroom_enrollments.status,
+    }));
   }
 
-  async deleteCustomQuickAction(id: number, teacherId: string): Promise<void> {
-    await db
-      .delete(customQuickActions)
-      .where(
-        and(
-          eq(customQuickActions.id, id),
-          eq(customQuickActions.teacherId, teacherId)
-        )
-      );
+  // Classroom staff operations
+  async getClassroomStaff(classroomId: number): Promise<(ClassroomStaff & { user: User })[]> {
+    const results = await db
+      .select()
+      .from(classroomStaff)
+      .innerJoin(users, eq(classroomStaff.userId, users.id))
+      .where(eq(classroomStaff.classroomId, classroomId))
+      .orderBy(users.firstName, users.lastName);
+
+    return results.map(row => ({ ...row.classroom_staff, user: row.users }));
+  }
+
+  async getClassroomStaffGrant(classroomId: number, userId: string): Promise<ClassroomStaff | undefined> {
+    const [staff] = await db
+      .select()
+      .from(classroomStaff)
+      .where(and(eq(classroomStaff.classroomId, classroomId), eq(classroomStaff.userId, userId)));
+    return staff;
+  }
+
+  // Each grant comes with its classroom's time zone, which its date range follows
+  async getStaffGrants(userId: string): Promise<(ClassroomStaff & { timeZone: string })[]> {
+    const results = await db
+      .select({ staff: classroomStaff, timeZone: classrooms.timeZone })
+      .from(classroomStaff)
+      .innerJoin(classrooms, eq(classroomStaff.classroomId, classrooms.id))
+      .where(eq(classroomStaff.userId, userId));
+    return results.map(result => ({ ...result.staff, timeZone: result.timeZone }));
+  }
+
+  // Replaces any earlier grant for the same person in the classroom
+  async addClassroomStaff(grant: InsertClassroomStaff): Promise<ClassroomStaff> {
+    const [staff] = await db
+      .insert(classroomStaff)
+      .values(grant)
+      .onConflictDoUpdate({
+        target: [classroomStaff.classroomId, classroomStaff.userId],
+        set: {
+          role: grant.role,
+          permissions: grant.permissions ?? null,
+          withdrawalLimit: grant.withdrawalLimit ?? null,
+          startsOn: grant.startsOn ?? null,
+          endsOn: grant.endsOn ?? null,
+        },
+      })
+      .returning();
+    return staff;
+  }
+
+  async removeClassroomStaff(classroomId: number, userId: string): Promise<void> {
+    await db
+      .delete(classroomStaff)
+      .where(and(eq(classroomStaff.classroomId, classroomId), eq(classroomStaff.userId, userId)));
+  }
+
+  // Ledger lines on the classroom's students posted by anyone who is or was one of its student bankers
+  async getStudentBankerActivity(classroomId: number): Promise<StudentBankerActivity[]> {
+    const banker = alias(users, "banker");
+    const reversal = alias(transactions, "reversal");
+    const results = await db
+      .select()
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .innerJoin(users, eq(accounts.userId, users.id))
+      .innerJoin(banker, eq(transactions.createdBy, banker.id))
+      .innerJoin(
+        classroomStaff,
+        and(
+          eq(classroomStaff.userId, banker.id),
+          eq(classroomStaff.classroomId, classroomId),
+          eq(classroomStaff.role, "student-banker")
+        )
+      )
+      .leftJoin(reversal, eq(reversal.reversesTransactionId, transactions.id))
+      .where(inArray(accounts.userId, enrolledUserIds(classroomId)))
+      .orderBy(desc(transactions.createdAt))
+      .limit(200);
+
+    return results.map(row => ({
+      ...row.transactions,
+      reversedByTransactionId: row.reversal?.id ?? null,
+      student: { id: row.users.id, firstName: row.users.firstName, lastName: row.users.lastName },
+      banker: { id: row.banker.id, firstName: row.banker.firstName, lastName: row.banker.lastName },
+    }));
+  }
+
+  // Join code operations
+  async regenerateJoinCode(classroomId: number, expiresAt: Date | null): Promise<Classroom> {
+    // Codes are short, so retry on the rare collision with another classroom's code
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const [classroom] = await db
+          .update(classrooms)
+          .set({ joinCode: generateJoinCode(), joinCodeExpiresAt: expiresAt })
+          .where(eq(classrooms.id, classroomId))
+          .returning();
+        return classroom;
+      } catch (error) {
+        if ((error as { code?: string }).code !== "23505" || attempt >= 4) throw error;
+      }
+    }
+  }
+
+  async revokeJoinCode(classroomId: number): Promise<Classroom> {
+    const [classroom] = await db
+      .update(classrooms)
+      .set({ joinCode: null, joinCodeExpiresAt: null })
+      .where(eq(classrooms.id, classroomId))
+      .returning();
+    return classroom;
+  }
+
+  async getClassroomByJoinCode(code: string): Promise<Classroom | undefined> {
+    const [classroom] = await db
+      .select()
+      .from(classrooms)
+      .where(eq(classrooms.joinCode, code.trim().toUpperCase()));
+    return classroom;
+  }
+
+  // Enrolls the student as pending or active depending on the classroom's approval setting.
+  // Joining a class the student already belongs to returns the existing enrollment unchanged.
+  async joinClassroom(classroom: Classroom, userId: string): Promise<ClassroomEnrollment> {
+    const [enrollment] = await db
+      .insert(classroomEnrollments)
+      .values({
+        classroomId: classroom.id,
+        userId,
+        status: classroom.requireEnrollmentApproval ? "pending" : "active",
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!(await this.getAccount(userId))) {
+      await this.createAccount({ userId });
+    }
+
+    if (enrollment) return enrollment;
+
+    const [existing] = await db
+      .select()
+      .from(classroomEnrollments)
+      .where(and(eq(classroomEnrollments.classroomId, classroom.id), eq(classroomEnrollments.userId, userId)));
+    return existing;
+  }
+
+  async getPendingEnrollments(classroomId: number): Promise<(ClassroomEnrollment & { user: User })[]> {
+    const results = await db
+      .select()
+      .from(classroomEnrollments)
+      .innerJoin(users, eq(classroomEnrollments.userId, users.id))
+      .where(and(eq(classroomEnrollments.classroomId, classroomId), eq(classroomEnrollments.status, "pending")))
+      .orderBy(classroomEnrollments.createdAt);
+
+    return results.map(row => ({
+      ...row.classroom_enrollments,
+      user: row.users,
+    }));
+  }
+
+  async approveEnrollment(classroomId: number, userId: string): Promise<boolean> {
+    const [enrollment] = await db
+      .update(classroomEnrollments)
+      .set({ status: "active" })
+      .where(
+        and(
+          eq(classroomEnrollments.classroomId, classroomId),
+          eq(classroomEnrollments.userId, userId),
+          eq(classroomEnrollments.status, "pending")
+        )
+      )
+      .returning();
+    return !!enrollment;
+  }
+
+  // Student operations
+  async getClassroomStudents(classroomId: number): Promise<(User & { account: Account })[]> {
+    const results = await db
+      .select()
+      .from(users)
+      .leftJoin(accounts, and(eq(users.id, accounts.userId), eq(accounts.kind, "student")))
+      .where(and(eq(users.role, "student"), inArray(users.id, enrolledUserIds(classroomId))))
+      .orderBy(users.firstName, users.lastName);
+
+    return results.map(row => ({
+      ...row.users,
+      account: row.accounts!,
+    }));
+  }
+
+  // Pre-creates a student, with an account, before they have ever logged in
+  async createRosterStudent(classroomId: number, student: RosterStudent): Promise<User & { account: Account }> {
+    return await db.transaction((tx) => this.insertRosterStudent(tx, classroomId, student));
+  }
+
+  // Adds every student, with any starting balance, in one DB transaction so a failed import leaves nothing behind
+  async importRoster(students: RosterImportStudent[], createdBy: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      for (const student of students) {
+        const { account } = await this.insertRosterStudent(tx, student.classroomId, student);
+        if (student.startingBalance) {
+          await this.applyTransaction(
+            tx,
+            {
+              accountId: account.id,
+              type: "deposit",
+              amount: student.startingBalance,
+              description: "Starting balance",
+              createdBy,
+            },
+            {}
+          );
+        }
+      }
+      return students.length;
+    });
+  }
+
+  private async insertRosterStudent(
+    tx: DbTransaction,
+    classroomId: number,
+    student: RosterStudent,
+  ): Promise<User & { account: Account }> {
+    const [user] = await tx
+      .insert(users)
+      .values({
+        id: `placeholder_${randomUUID()}`,
+        email: student.email || null,
+        firstName: student.firstName,
+        lastName: student.lastName,
+        role: "student",
+        isPlaceholder: true,
+      })
+      .returning();
+
+    const [account] = await tx.insert(accounts).values({ userId: user.id }).returning();
+    await tx.insert(classroomEnrollments).values({ classroomId, userId: user.id });
+
+    return { ...user, account };
+  }
+
+  // Transaction operations
+  // Balance changes and their ledger rows are always written together in one DB transaction,
+  // with the account row locked so concurrent posts against it are serialized.
+  async postTransaction(transaction: InsertTransaction, options: PostTransactionOptions = {}): Promise<PostedTransaction | undefined> {
+    return await db.transaction((tx) => this.applyTransaction(tx, transaction, options));
+  }
+
+  // Posts a whole bulk run in one DB transaction. Replaying an idempotency key returns the original run;
+  // a concurrent replay waits on the unique key until the first run commits.
+  async runBatch(batch: InsertBatch, transactionList: InsertTransaction[], options: PostTransactionOptions = {}): Promise<BatchResult> {
+    return await db.transaction(async (tx) => {
+      const opened = await this.openBatch(tx, batch);
+      if ("replayed" in opened) {
+        return opened;
+      }
+
+      const posted: Transaction[] = [];
+      for (const transaction of transactionList) {
+        const result = await this.applyTransaction(tx, { ...transaction, batchId: opened.id }, options);
+        if (result) {
+          posted.push(result.transaction);
+        }
+      }
+
+      return await this.closeBatch(tx, opened.id, posted);
+    });
+  }
+
+  // A rent run that keeps what students couldn't pay: each is charged this run's rent plus what they still owe,
+  // as far as their balance goes, and every charge is recorded so the rest stays owed. What a student pays settles
+  // their oldest rent first, and each part goes to the owner that rent was owed to.
+  async runRentBatch(batch: InsertBatch, lines: RentChargeLine[]): Promise<BatchResult> {
+    return await db.transaction(async (tx) => {
+      const opened = await this.openBatch(tx, batch);
+      if ("replayed" in opened) {
+        return opened;
+      }
+
+      const owedRent = await this.getOwedRent(tx, opened.classroomId!);
+      const posted: Transaction[] = [];
+      for (const line of lines) {
+        const owedCharges = owedRent.get(line.userId) ?? [];
+        const owed = owedCharges.reduce((sum, owedCharge) => sum + owedCharge.cents, 0) / 100;
+        const charge = parseFloat(line.amountDue) + owed;
+        if (charge <= 0) {
+          continue;
+        }
+
+        const result = await this.applyTransaction(
+          tx,
+          {
+            accountId: line.accountId,
+            type: "rent",
+            amount: `-${charge.toFixed(2)}`,
+            description: owed > 0 ? `${line.description} + $${owed.toFixed(2)} owed` : line.description,
+            batchId: opened.id,
+            createdBy: line.createdBy,
+          },
+          { clampAtZero: true }
+        );
+        if (result) {
+          posted.push(result.transaction);
+        }
+
+        // Split the payment over the old charges, oldest first, then this run's rent. Owners' shares of old rent
+        // are paid together on one line per owner.
+        let unspent = result ? Math.round(-parseFloat(result.transaction.amount) * 100) : 0;
+        const owedPayouts = new Map<number, number>();
+        for (const owedCharge of owedCharges) {
+          const share = Math.min(unspent, owedCharge.cents);
+          unspent -= share;
+          if (owedCharge.landlordAccountId && share > 0) {
+            owedPayouts.set(owedCharge.landlordAccountId, (owedPayouts.get(owedCharge.landlordAccountId) ?? 0) + share);
+          }
+        }
+        const payouts = Array.from(owedPayouts, ([accountId, cents]) => ({
+          accountId,
+          cents,
+          description: `Owed rent from ${line.tenantName}`,
+        }));
+        if (line.landlord) {
+          payouts.push({
+            accountId: line.landlord.accountId,
+            cents: Math.min(unspent, Math.round(parseFloat(line.amountDue) * 100)),
+            description: line.landlord.description,
+          });
+        }
+
+        // Rent passed on to an owner isn't part of what the run collected, so it stays out of the batch totals
+        for (const payout of payouts.filter(payout => payout.cents > 0)) {
+          await this.applyTransaction(
+            tx,
+            {
+              accountId: payout.accountId,
+              type: "rent",
+              amount: (payout.cents / 100).toFixed(2),
+              description: payout.description,
+              batchId: opened.id,
+              createdBy: line.createdBy,
+            },
+            {}
+          );
+        }
+
+        await tx.insert(rentCharges).values({
+          batchId: opened.id,
+          userId: line.userId,
+          amountDue: line.amountDue,
+          amountPaid: result ? negateAmount(result.transaction.amount) : "0.00",
+          landlordAccountId: line.landlord?.accountId ?? null,
+        });
+      }
+
+      return await this.closeBatch(tx, opened.id, posted);
+    });
+  }
+
+  // Creates the batch row, or returns the earlier run when its idempotency key was used before
+  private async openBatch(tx: DbTransaction, batch: InsertBatch): Promise<Batch | BatchResult> {
+    const [created] = await tx
+      .insert(batches)
+      .values(batch)
+      .onConflictDoNothing({ target: batches.idempotencyKey })
+      .returning();
+    if (created) {
+      return created;
+    }
+
+    const [existing] = await tx
+      .select()
+      .from(batches)
+      .where(eq(batches.idempotencyKey, batch.idempotencyKey!));
+    // A replay has to be the same run; amounts are compared as numbers since the column comes back as "5.00"
+    const sameAmount = existing.amount === null || batch.amount == null
+      ? existing.amount === (batch.amount ?? null)
+      : parseFloat(existing.amount) === parseFloat(batch.amount);
+    if (
+      existing.type !== batch.type ||
+      existing.classroomId !== batch.classroomId ||
+      !sameAmount ||
+      existing.description !== batch.description
+    ) {
+      throw new LedgerError("This request key was already used for a different run", 409);
+    }
+    return { batch: existing, transactions: await this.getBatchTransactions(tx, existing.id), replayed: true };
+  }
+
+  private async closeBatch(tx: DbTransaction, batchId: number, posted: Transaction[]): Promise<BatchResult> {
+    const [completed] = await tx
+      .update(batches)
+      .set({
+        studentsAffected: posted.length,
+        totalAmount: posted.reduce((total, t) => total + parseFloat(t.amount), 0).toFixed(2),
+      })
+      .where(eq(batches.id, batchId))
+      .returning();
+
+    return { batch: completed, transactions: posted, replayed: false };
+  }
+
+  async getBatches(classroomId: number): Promise<(Batch & { createdByUser: User | null, reversedCount: number })[]> {
+    const reversal = alias(transactions, "reversal");
+    const results = await db
+      .select({
+        batch: batches,
+        createdByUser: users,
+        reversedCount: sql<number>`(
+          select count(*)::int from ${transactions}
+          inner join ${accounts} on ${accounts.id} = ${transactions.accountId}
+          inner join ${reversal} on ${reversal.reversesTransactionId} = ${transactions.id}
+          where ${transactions.batchId} = ${batches.id} and ${accounts.kind} <> 'treasury'
+        )`,
+      })
+      .from(batches)
+      .leftJoin(users, eq(batches.createdBy, users.id))
+      .where(eq(batches.classroomId, classroomId))
+      .orderBy(desc(batches.createdAt));
+
+    return results.map(row => ({
+      ...row.batch,
+      createdByUser: row.createdByUser,
+      reversedCount: row.reversedCount,
+    }));
+  }
+
+  async getBatch(id: number): Promise<(Batch & { createdByUser: User | null, transactions: (TransactionWithReversal & { user: User })[] }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(batches)
+      .leftJoin(users, eq(batches.createdBy, users.id))
+      .where(eq(batches.id, id));
+
+    if (!result) {
+      return undefined;
+    }
+
+    const reversal = alias(transactions, "reversal");
+    const rows = await db
+      .select()
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .innerJoin(users, eq(accounts.userId, users.id))
+      .leftJoin(reversal, eq(reversal.reversesTransactionId, transactions.id))
+      .where(eq(transactions.batchId, id))
+      .orderBy(users.firstName, users.lastName);
+
+    return {
+      ...result.batches,
+      createdByUser: result.users,
+      transactions: rows.map(row => ({
+        ...row.transactions,
+        reversedByTransactionId: row.reversal?.id ?? null,
+        user: row.users,
+      })),
+    };
+  }
+
+  // Reverses every transaction of a run in one DB transaction. Each reversal runs in its own savepoint so a
+  // student who cannot cover theirs is reported and skipped instead of failing the whole rollback.
+  // Transactions that were already reversed individually are left alone, so a rollback can be re-run.
+  async rollbackBatch(id: number, createdBy: string): Promise<BatchRollbackResult> {
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx.select().from(batches).where(eq(batches.id, id)).for("update");
+      if (!batch) {
+        throw new LedgerError("Batch not found", 404);
+      }
+
+      const rows = await tx
+        .select()
+        .from(transactions)
+        .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+        .innerJoin(users, eq(accounts.userId, users.id))
+        .where(eq(transactions.batchId, id));
+
+      const reversals: Transaction[] = [];
+      const skipped: BatchRollbackResult["skipped"] = [];
+      for (const row of rows) {
+        try {
+          const posted = await tx.transaction((savepoint) =>
+            this.applyReversal(savepoint, row.transactions.id, createdBy)
+          );
+          reversals.push(posted.transaction);
+        } catch (error) {
+          if (!(error instanceof LedgerError)) {
+            throw error;
+          }
+          if (error.status === 409) {
+            continue;
+          }
+          skipped.push({
+            transactionId: row.transactions.id,
+            user: row.users,
+            amount: row.transactions.amount,
+            reason: error.message,
+          });
+        }
+      }
+
+      const [updated] = await tx
+        .update(batches)
+        .set({ rolledBackAt: new Date(), rolledBackBy: createdBy })
+        .where(eq(batches.id, id))
+        .returning();
+
+      return { batch: updated, reversals, skipped };
+    });
+  }
+
+  private async getBatchTransactions(tx: DbTransaction, batchId: number): Promise<Transaction[]> {
+    const rows = await tx
+      .select()
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(and(eq(transactions.batchId, batchId), ne(accounts.kind, "treasury")));
+    return rows.map(row => row.transactions);
+  }
+
+  // Posts a balanced journal entry: the line on the target account plus the opposite line on the treasury.
+  // Returns undefined when a clamped debit had nothing left to take.
+  private async applyTransaction(
+    tx: DbTransaction,
+    transaction: InsertTransaction,
+    options: PostTransactionOptions,
+  ): Promise<PostedTransaction | undefined> {
+    // The treasury is locked before the student account so concurrent posts always lock in the same order
+    const treasury = await this.lockTreasuryAccount(tx);
+
+    const [current] = await tx
+      .select({
+        id: accounts.id,
+        clampedAmount: sql<string>`greatest(${transaction.amount}::numeric, -greatest(${accounts.balance}, 0))::text`,
+      })
+      .from(accounts)
+      .where(eq(accounts.id, transaction.accountId))
+      .for("update");
+
+    if (!current) {
+      throw new LedgerError("Account not found", 404);
+    }
+
+    const amount = options.clampAtZero ? current.clampedAmount : transaction.amount;
+    if (options.clampAtZero && parseFloat(amount) === 0) {
+      return undefined;
+    }
+
+    const [account] = await tx
+      .update(accounts)
+      .set({ balance: sql`${accounts.balance} + ${amount}::numeric`, updatedAt: new Date() })
+      .where(
+        options.allowNegative || options.clampAtZero
+          ? eq(accounts.id, current.id)
+          : and(eq(accounts.id, current.id), sql`${accounts.balance} + ${amount}::numeric >= 0`)
+      )
+      .returning();
+
+    if (!account) {
+      throw new LedgerError("Insufficient balance");
+    }
+
+    const [entry] = await tx
+      .insert(journalEntries)
+      .values({ description: transaction.description, createdBy: transaction.createdBy })
+      .returning();
+
+    await tx
+      .update(accounts)
+      .set({ balance: sql`${accounts.balance} - ${amount}::numeric`, updatedAt: new Date() })
+      .where(eq(accounts.id, treasury.id));
+
+    const [newTransaction] = await tx
+      .insert(transactions)
+      .values({ ...transaction, amount, journalEntryId: entry.id })
+      .returning();
+
+    await tx
+      .insert(transactions)
+      .values({
+        ...transaction,
+        accountId: treasury.id,
+        amount: negateAmount(amount),
+        journalEntryId: entry.id,
+        reversesTransactionId: null,
+      });
+
+    return { transaction: newTransaction, account };
+  }
+
+  private async lockTreasuryAccount(tx: DbTransaction): Promise<Account> {
+    const [existing] = await tx.select().from(accounts).where(eq(accounts.kind, "treasury")).for("update");
+    if (existing) {
+      return existing;
+    }
+
+    await tx.insert(accounts).values({ kind: "treasury" }).onConflictDoNothing();
+    const [treasury] = await tx.select().from(accounts).where(eq(accounts.kind, "treasury")).for("update");
+    return treasury;
+  }
+
+  async getTransaction(id: number): Promise<(Transaction & { account: Account }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(eq(transactions.id, id));
+    return result && { ...result.transactions, account: result.accounts };
+  }
+
+  async getTransactionsByAccount(accountId: number): Promise<TransactionWithReversal[]> {
+    const reversal = alias(transactions, "reversal");
+    const results = await db
+      .select()
+      .from(transactions)
+      .leftJoin(reversal, eq(reversal.reversesTransactionId, transactions.id))
+      .where(eq(transactions.accountId, accountId))
+      .orderBy(desc(transactions.createdAt));
+
+    return results.map(row => ({
+      ...row.transactions,
+      reversedByTransactionId: row.reversal?.id ?? null,
+    }));
+  }
+
+  // Posts a compensating entry linked to the original; a transaction can be reversed at most once
+  async reverseTransaction(transactionId: number, createdBy: string): Promise<PostedTransaction> {
+    return await db.transaction((tx) => this.applyReversal(tx, transactionId, createdBy));
+  }
+
+  private async applyReversal(tx: DbTransaction, transactionId: number, createdBy: string): Promise<PostedTransaction> {
+    const [original] = await tx
+      .select()
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(eq(transactions.id, transactionId))
+      .for("update", { of: transactions });
+
+    if (!original || original.accounts.kind === "treasury") {
+      throw new LedgerError("Transaction not found", 404);
+    }
+    // Its other line is on the student's other account, not the treasury, so a reversal would unbalance it
+    if (original.transactions.type === "transfer") {
+      throw new LedgerError("Transfers can't be reversed; the student can transfer the money back");
+    }
+    // Undoing a deposit or payout would leave the CD itself open or closed
+    if (original.transactions.type === "cd") {
+      throw new LedgerError("CD deposits and payouts can't be reversed");
+    }
+    if (original.transactions.reversesTransactionId !== null) {
+      throw new LedgerError("A reversal cannot itself be reversed");
+    }
+
+    const [existingReversal] = await tx
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(eq(transactions.reversesTransactionId, transactionId));
+
+    if (existingReversal) {
+      throw new LedgerError("This transaction has already been reversed", 409);
+    }
+
+    const posted = await this.applyTransaction(tx, {
+      accountId: original.transactions.accountId,
+      type: "reversal",
+      amount: negateAmount(original.transactions.amount),
+      description: `Reversal: ${original.transactions.description}`,
+      reversesTransactionId: original.transactions.id,
+      createdBy,
+    }, {});
+
+    // Rent the tenant gets back is owed again, to the class that refunded it. The new charge sits in the same run,
+    // so rolling the run back still drops everything it recorded.
+    if (original.transactions.type === "rent" && original.transactions.batchId && parseFloat(original.transactions.amount) < 0) {
+      await tx.insert(rentCharges).values({
+        batchId: original.transactions.batchId,
+        userId: original.accounts.userId!,
+        amountDue: negateAmount(original.transactions.amount),
+        amountPaid: "0.00",
+      });
+    }
+
+    return posted!;
+  }
+
+  // Reconciliation operations
+  // Covers the classroom's students plus the shared treasury; unbalanced entries are checked across the whole ledger
+  async getReconciliationReport(classroomId: number): Promise<ReconciliationReport> {
+    const ledgerBalance = sql`coalesce(sum(${transactions.amount}), 0)`;
+    const rows = await db
+      .select({
+        accountId: accounts.id,
+        kind: accounts.kind,
+        userId: accounts.userId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        cachedBalance: accounts.balance,
+        ledgerBalance: sql<string>`${ledgerBalance}::text`,
+        difference: sql<string>`(${accounts.balance} - ${ledgerBalance})::text`,
+      })
+      .from(accounts)
+      .leftJoin(users, eq(accounts.userId, users.id))
+      .leftJoin(transactions, eq(transactions.accountId, accounts.id))
+      .where(or(eq(accounts.kind, "treasury"), inArray(accounts.userId, enrolledUserIds(classroomId))))
+      .groupBy(accounts.id, users.id)
+      .orderBy(accounts.kind, users.firstName, users.lastName);
+
+    const unbalancedEntries = await db
+      .select({
+        journalEntryId: sql<number>`${transactions.journalEntryId}`,
+        total: sql<string>`sum(${transactions.amount})::text`,
+      })
+      .from(transactions)
+      .where(sql`${transactions.journalEntryId} is not null`)
+      .groupBy(transactions.journalEntryId)
+      .having(sql`sum(${transactions.amount}) <> 0`);
+
+    return {
+      accounts: rows,
+      mismatchedAccounts: rows.filter(row => parseFloat(row.difference) !== 0).length,
+      unbalancedEntries,
+    };
+  }
+
+  // Resets the cached balance to the sum of the account's ledger lines
+  async repairAccountBalance(accountId: number): Promise<Account> {
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ id: accounts.id })
+        .from(accounts)
+        .where(eq(accounts.id, accountId))
+        .for("update");
+
+      if (!locked) {
+        throw new LedgerError("Account not found", 404);
+      }
+
+      const [account] = await tx
+        .update(accounts)
+        .set({
+          balance: sql`(select coalesce(sum(${transactions.amount}), 0) from ${transactions} where ${transactions.accountId} = ${accountId})`,
+          updatedAt: new Date(),
+        })
+        .where(eq(accounts.id, accountId))
+        .returning();
+      return account;
+    });
+  }
+
+  // Withdrawal request operations
+  async createWithdrawalRequest(request: InsertWithdrawalRequest): Promise<WithdrawalRequest> {
+    return await this.insertHeldRequest(request);
+  }
+
+  // Holds the amount until the request is reviewed or expires
+  private async insertHeldRequest(request: typeof withdrawalRequests.$inferInsert): Promise<WithdrawalRequest> {
+    return await db.transaction(async (tx) => {
+      await this.assertAvailable(tx, eq(accounts.id, request.accountId), request.amount);
+
+      const expiresAt = new Date(Date.now() + WITHDRAWAL_REQUEST_HOLD_DAYS * 24 * 60 * 60 * 1000);
+      const [newRequest] = await tx.insert(withdrawalRequests).values({ ...request, expiresAt }).returning();
+      return newRequest;
+    });
+  }
+
+  async getPendingWithdrawalRequests(classroomId: number): Promise<(WithdrawalRequest & { user: User, account: Account, storeItem: StoreItem | null })[]> {
+    const results = await db
+      .select()
+      .from(withdrawalRequests)
+      .leftJoin(accounts, eq(withdrawalRequests.accountId, accounts.id))
+      .leftJoin(users, eq(accounts.userId, users.id))
+      .leftJoin(storeItems, eq(withdrawalRequests.storeItemId, storeItems.id))
+      .where(
+        and(
+          eq(withdrawalRequests.status, "pending"),
+          inArray(accounts.userId, enrolledUserIds(classroomId)),
+          // Store orders are only reviewed in the item's classroom
+          or(isNull(withdrawalRequests.storeItemId), eq(storeItems.classroomId, classroomId))
+        )
+      )
+      .orderBy(desc(withdrawalRequests.createdAt));
+
+    return results.map(row => ({
+      ...row.withdrawal_requests,
+      user: row.users!,
+      account: row.accounts!,
+      storeItem: row.store_items,
+    }));
+  }
+
+  async getWithdrawalRequest(id: number): Promise<(WithdrawalRequest & { account: Account }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(withdrawalRequests)
+      .innerJoin(accounts, eq(withdrawalRequests.accountId, accounts.id))
+      .where(eq(withdrawalRequests.id, id));
+    return result && { ...result.withdrawal_requests, account: result.accounts };
+  }
+
+  // Marks a pending request as reviewed and, if approved, posts the withdrawal in the same DB transaction.
+  // Approving a store order also takes the items out of stock and adds them to the student's inventory; the
+  // item is locked so two approvals can't both take the last one. Coupons' days start on onDate.
+  async reviewWithdrawalRequest(id: number, update: UpdateWithdrawalRequest, onDate: string): Promise<WithdrawalRequest> {
+    return await db.transaction(async (tx) => {
+      const [updatedRequest] = await tx
+        .update(withdrawalRequests)
+        .set({ ...update, reviewedAt: new Date() })
+        .where(and(
+          eq(withdrawalRequests.id, id),
+          eq(withdrawalRequests.status, "pending"),
+          or(isNull(withdrawalRequests.expiresAt), gt(withdrawalRequests.expiresAt, new Date()))
+        ))
+        .returning();
+
+      if (!updatedRequest) {
+        throw new LedgerError("Withdrawal request not found, already reviewed or expired", 404);
+      }
+
+      if (updatedRequest.status === "approved" && updatedRequest.storeItemId) {
+        const [item] = await tx
+          .select()
+          .from(storeItems)
+          .where(eq(storeItems.id, updatedRequest.storeItemId))
+          .for("update");
+
+        if (item.removedAt) {
+          throw new LedgerError(`${item.name} was taken out of the store`, 409);
+        }
+        if (item.stock !== null && item.stock < updatedRequest.quantity) {
+          throw new LedgerError(item.stock === 0 ? `${item.name} is sold out` : `Only ${item.stock} ${item.name} left`, 409);
+        }
+        // This order is already marked approved, so it counts towards the limit
+        if (
+          item.perStudentLimit !== null &&
+          (await this.sumStoreOrders(tx, item.id, updatedRequest.accountId, ["approved"])) > item.perStudentLimit
+        ) {
+          throw new LedgerError(`Students can only buy ${item.perStudentLimit} ${item.name}`, 409);
+        }
+
+        if (item.stock !== null) {
+          await tx
+            .update(storeItems)
+            .set({ stock: sql`${storeItems.stock} - ${updatedRequest.quantity}` })
+            .where(eq(storeItems.id, item.id));
+        }
+        await this.applyTransaction(tx, {
+          accountId: updatedRequest.accountId,
+          type: "purchase",
+          amount: `-${updatedRequest.amount}`,
+          description: updatedRequest.quantity > 1 ? `Bought ${updatedRequest.quantity} × ${item.name}` : `Bought ${item.name}`,
+          storeItemId: item.id,
+          createdBy: update.reviewedBy,
+        }, {});
+
+        const [account] = await tx
+          .select({ userId: accounts.userId })
+          .from(accounts)
+          .where(eq(accounts.id, updatedRequest.accountId));
+        const expiresOn = item.kind === "coupon" && item.validDays ? addDays(onDate, item.validDays - 1) : null;
+        await tx.insert(inventoryItems).values(
+          Array.from({ length: updatedRequest.quantity }, () => ({
+            userId: account.userId!,
+            storeItemId: item.id,
+            orderId: updatedRequest.id,
+            expiresOn,
+          }))
+        );
+      } else if (updatedRequest.status === "approved") {
+        await this.applyTransaction(tx, {
+          accountId: updatedRequest.accountId,
+          type: "withdrawal",
+          amount: `-${updatedRequest.amount}`,
+          description: `Withdrawal: ${updatedRequest.reason}`,
+          createdBy: update.reviewedBy,
+        }, {});
+      }
+
+      return updatedRequest;
+    });
+  }
+
+  // Requests nobody reviewed in time stop holding the student's money
+  async expireWithdrawalRequests(now: Date): Promise<number> {
+    const expired = await db
+      .update(withdrawalRequests)
+      .set({ status: "expired" })
+      .where(and(eq(withdrawalRequests.status, "pending"), lte(withdrawalRequests.expiresAt, now)))
+      .returning({ id: withdrawalRequests.id });
+    return expired.length;
+  }
+
+  async createStoreOrder(order: InsertWithdrawalRequest & { storeItemId: number; quantity: number }): Promise<WithdrawalRequest> {
+    return await this.insertHeldRequest(order);
+  }
+
+  async getStudentStoreOrders(userId: string): Promise<(WithdrawalRequest & { storeItem: StoreItem })[]> {
+    const results = await db
+      .select()
+      .from(withdrawalRequests)
+      .innerJoin(accounts, eq(withdrawalRequests.accountId, accounts.id))
+      .innerJoin(storeItems, eq(withdrawalRequests.storeItemId, storeItems.id))
+      .where(eq(accounts.userId, userId))
+      .orderBy(desc(withdrawalRequests.createdAt));
+
+    return results.map(row => ({ ...row.withdrawal_requests, storeItem: row.store_items }));
+  }
+
+  // How many of the item the account has bought or is waiting to buy, for checking per-student limits
+  async getStoreItemOrderedCount(storeItemId: number, accountId: number): Promise<number> {
+    return await this.sumStoreOrders(db, storeItemId, accountId, ["pending", "approved"]);
+  }
+
+  private async sumStoreOrders(executor: DbExecutor, storeItemId: number, accountId: number, statuses: string[]) {
+    const [result] = await executor
+      .select({ total: sql<string>`coalesce(sum(${withdrawalRequests.quantity}), 0)` })
+      .from(withdrawalRequests)
+      .where(and(
+        eq(withdrawalRequests.storeItemId, storeItemId),
+        eq(withdrawalRequests.accountId, accountId),
+        inArray(withdrawalRequests.status, statuses)
+      ));
+    return Number(result.total);
+  }
+
+  // Stats operations
+  async getTotalStudentCount(classroomId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(users)
+      .where(and(eq(users.role, "student"), inArray(users.id, enrolledUserIds(classroomId))));
+    return result.count;
+  }
+
+  // Money in open CDs sits in the treasury until it's paid back, so it's counted too
+  async getTotalBalance(classroomId: number): Promise<string> {
+    const [result] = await db
+      .select({ total: sql<string>`coalesce(sum(balance), 0)` })
+      .from(accounts)
+      .where(and(inArray(accounts.kind, ["student", "savings"]), inArray(accounts.userId, enrolledUserIds(classroomId))));
+    const [cds] = await db
+      .select({ total: sql<string>`coalesce(sum(${certificatesOfDeposit.principal}), 0)` })
+      .from(certificatesOfDeposit)
+      .where(and(
+        eq(certificatesOfDeposit.status, "open"),
+        inArray(certificatesOfDeposit.userId, enrolledUserIds(classroomId))
+      ));
+    return (parseFloat(result.total || "0") + parseFloat(cds.total || "0")).toFixed(2);
+  }
+
+  async getPendingRequestCount(classroomId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(withdrawalRequests)
+      .innerJoin(accounts, eq(withdrawalRequests.accountId, accounts.id))
+      .where(
+        and(
+          eq(withdrawalRequests.status, "pending"),
+          inArray(accounts.userId, enrolledUserIds(classroomId))
+        )
+      );
+    return result.count;
+  }
+
+  async getWeeklyTotal(classroomId: number): Promise<string> {
+    const oneWeekAgo = new Date();
+    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+    
+    const [result] = await db
+      .select({ total: sql<string>`coalesce(sum(${transactions.amount}), 0)` })
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .where(
+        and(
+          eq(transactions.type, "paycheck"),
+          eq(accounts.kind, "student"),
+          inArray(accounts.userId, enrolledUserIds(classroomId)),
+          sql`${transactions.createdAt} >= ${oneWeekAgo}`
+        )
+      );
+    return result.total || "0.00";
+  }
+
+  // Custom quick actions operations
+  // Actions saved before they belonged to a classroom have no classroomId and show in all of the teacher's classes
+  async getCustomQuickActions(teacherId: string, classroomId: number): Promise<CustomQuickAction[]> {
+    return await db
+      .select()
+      .from(customQuickActions)
+      .where(
+        and(
+          eq(customQuickActions.teacherId, teacherId),
+          or(eq(customQuickActions.classroomId, classroomId), isNull(customQuickActions.classroomId))
+        )
+      )
+      .orderBy(customQuickActions.name);
+  }
+
+  async getCustomQuickAction(id: number): Promise<CustomQuickAction | undefined> {
+    const [action] = await db.select().from(customQuickActions).where(eq(customQuickActions.id, id));
+    return action;
+  }
+
+  async createCustomQuickAction(action: InsertCustomQuickAction): Promise<CustomQuickAction> {
+    const [newAction] = await db
+      .insert(customQuickActions)
+      .values(action)
+      .returning();
+    return newAction;
+  }
+
+  async deleteCustomQuickAction(id: number, teacherId: string): Promise<void> {
+    await db
+      .delete(customQuickActions)
+      .where(
+        and(
+          eq(customQuickActions.id, id),
+          eq(customQuickActions.teacherId, teacherId)
+        )
+      );
+  }
+
+  // Job operations
+  // Each job with the assignments that haven't ended yet, including ones starting later
+  async getJobs(classroomId: number, onDate: string): Promise<JobWithAssignments[]> {
+    const classroomJobs = await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.classroomId, classroomId))
+      .orderBy(jobs.title);
+
+    const rows = await db
+      .select()
+      .from(jobAssignments)
+      .innerJoin(jobs, eq(jobAssignments.jobId, jobs.id))
+      .innerJoin(users, eq(jobAssignments.userId, users.id))
+      .where(
+        and(
+          eq(jobs.classroomId, classroomId),
+          or(isNull(jobAssignments.endsOn), gte(jobAssignments.endsOn, onDate))
+        )
+      )
+      .orderBy(jobAssignments.startsOn, users.firstName, users.lastName);
+
+    return classroomJobs.map(job => ({
+      ...job,
+      assignments: rows
+        .filter(row => row.job_assignments.jobId === job.id)
+        .map(row => ({ ...row.job_assignments, user: row.users })),
+    }));
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const [newJob] = await db.insert(jobs).values(job).returning();
+    return newJob;
+  }
+
+  async updateJob(id: number, update: UpdateJob): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set(update)
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Past paychecks only keep the job title in their description, so the assignments can go with the job
+  async deleteJob(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(jobApplications).where(eq(jobApplications.jobId, id));
+      await tx.delete(jobAssignments).where(eq(jobAssignments.jobId, id));
+      await tx.delete(jobs).where(eq(jobs.id, id));
+    });
+  }
+
+  async getJobAssignment(id: number): Promise<(JobAssignment & { job: Job }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(jobAssignments)
+      .innerJoin(jobs, eq(jobAssignments.jobId, jobs.id))
+      .where(eq(jobAssignments.id, id));
+
+    return result ? { ...result.job_assignments, job: result.jobs } : undefined;
+  }
+
+  async getJobAssignmentsOn(jobId: number, onDate: string): Promise<JobAssignment[]> {
+    return await db
+      .select()
+      .from(jobAssignments)
+      .where(and(eq(jobAssignments.jobId, jobId), jobAssignmentCovers(onDate)));
+  }
+
+  // Checks for an opening and inserts in one DB transaction, with the job row locked so two hires can't both
+  // take the last slot
+  async createJobAssignment(assignment: InsertJobAssignment): Promise<JobAssignment> {
+    return await db.transaction(async (tx) => {
+      await this.assertJobOpening(tx, assignment.jobId, assignment.userId, assignment.startsOn, assignment.endsOn ?? null);
+      const [newAssignment] = await tx.insert(jobAssignments).values(assignment).returning();
+      return newAssignment;
+    });
+  }
+
+  // Locks the job, then refuses an assignment from startsOn through endsOn (open-ended when null) if the student
+  // already holds the job during it or every slot is taken on any of its days. Holders only change on the day an
+  // assignment starts, so those are the days to count.
+  private async assertJobOpening(tx: DbTransaction, jobId: number, userId: string, startsOn: string, endsOn: string | null) {
+    const [job] = await tx.select().from(jobs).where(eq(jobs.id, jobId)).for("update");
+    if (!job) {
+      throw new LedgerError("Job not found", 404);
+    }
+
+    const overlapping = await tx
+      .select()
+      .from(jobAssignments)
+      .where(and(
+        eq(jobAssignments.jobId, jobId),
+        endsOn ? lte(jobAssignments.startsOn, endsOn) : undefined,
+        or(isNull(jobAssignments.endsOn), gte(jobAssignments.endsOn, startsOn))
+      ));
+    if (overlapping.some(assignment => assignment.userId === userId)) {
+      const [student] = await tx.select().from(users).where(eq(users.id, userId));
+      throw new LedgerError(`${student?.firstName ?? "This student"} already has this job`);
+    }
+
+    const days = [startsOn, ...overlapping.map(assignment => assignment.startsOn).filter(day => day > startsOn)].sort();
+    const fullDay = days.find(day => overlapping.filter(assignment =>
+      assignment.startsOn <= day && (assignment.endsOn === null || assignment.endsOn >= day)
+    ).length >= job.slots);
+    if (fullDay) {
+      throw new LedgerError(`All ${job.slots} ${job.title} slots are filled on ${fullDay}`);
+    }
+  }
+
+  async endJobAssignment(id: number, endsOn: string): Promise<JobAssignment> {
+    const [assignment] = await db
+      .update(jobAssignments)
+      .set({ endsOn })
+      .where(eq(jobAssignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async getJobPayroll(classroomId: number, onDate: string): Promise<PayrollLine[]> {
+    const students = await this.getClassroomStudents(classroomId);
+    const rows = await db
+      .select({ userId: jobAssignments.userId, id: jobs.id, title: jobs.title, wage: jobs.wage })
+      .from(jobAssignments)
+      .innerJoin(jobs, eq(jobAssignments.jobId, jobs.id))
+      .where(and(eq(jobs.classroomId, classroomId), jobAssignmentCovers(onDate)))
+      .orderBy(jobs.title);
+
+    return students.map(student => {
+      const studentJobs = rows
+        .filter(row => row.userId === student.id)
+        .map(({ id, title, wage }) => ({ id, title, wage }));
+      return {
+        student,
+        jobs: studentJobs,
+        amount: studentJobs.reduce((total, job) => total + parseFloat(job.wage), 0).toFixed(2),
+      };
+    });
+  }
+
+  // The student's jobs that haven't ended yet, in every classroom
+  async getStudentJobAssignments(userId: string, onDate: string): Promise<(JobAssignment & { job: Job })[]> {
+    const results = await db
+      .select()
+      .from(jobAssignments)
+      .innerJoin(jobs, eq(jobAssignments.jobId, jobs.id))
+      .where(
+        and(
+          eq(jobAssignments.userId, userId),
+          or(isNull(jobAssignments.endsOn), gte(jobAssignments.endsOn, onDate))
+        )
+      )
+      .orderBy(jobAssignments.startsOn);
+
+    return results.map(row => ({ ...row.job_assignments, job: row.jobs }));
+  }
+
+  // Job application operations
+  async createJobApplication(application: InsertJobApplication): Promise<JobApplication> {
+    const [newApplication] = await db.insert(jobApplications).values(application).returning();
+    return newApplication;
+  }
+
+  async getJobApplication(id: number): Promise<(JobApplication & { job: Job }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(jobApplications)
+      .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+      .where(eq(jobApplications.id, id));
+
+    return result ? { ...result.job_applications, job: result.jobs } : undefined;
+  }
+
+  async getPendingJobApplications(classroomId: number): Promise<(JobApplication & { user: User; job: Job })[]> {
+    const results = await db
+      .select()
+      .from(jobApplications)
+      .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+      .innerJoin(users, eq(jobApplications.userId, users.id))
+      .where(
+        and(
+          eq(jobs.classroomId, classroomId),
+          eq(jobApplications.status, "pending"),
+          inArray(jobApplications.userId, enrolledUserIds(classroomId))
+        )
+      )
+      .orderBy(jobApplications.createdAt);
+
+    return results.map(row => ({ ...row.job_applications, user: row.users, job: row.jobs }));
+  }
+
+  async getStudentJobApplications(userId: string): Promise<(JobApplication & { job: Job })[]> {
+    const results = await db
+      .select()
+      .from(jobApplications)
+      .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+      .where(eq(jobApplications.userId, userId))
+      .orderBy(desc(jobApplications.createdAt));
+
+    return results.map(row => ({ ...row.job_applications, job: row.jobs }));
+  }
+
+  async rejectJobApplication(id: number, reviewedBy: string): Promise<JobApplication> {
+    const [application] = await db
+      .update(jobApplications)
+      .set({ status: "rejected", reviewedBy, reviewedAt: new Date() })
+      .where(eq(jobApplications.id, id))
+      .returning();
+    return application;
+  }
+
+  // Marks the application hired and starts the student's open-ended assignment together, so neither happens alone
+  // and the hire is refused like createJobAssignment when the job has no opening
+  async hireJobApplicant(
+    id: number,
+    reviewedBy: string,
+    startsOn: string
+  ): Promise<{ application: JobApplication; assignment: JobAssignment }> {
+    return await db.transaction(async (tx) => {
+      const [application] = await tx
+        .update(jobApplications)
+        .set({ status: "hired", reviewedBy, reviewedAt: new Date() })
+        .where(eq(jobApplications.id, id))
+        .returning();
+      await this.assertJobOpening(tx, application.jobId, application.userId, startsOn, null);
+      const [assignment] = await tx
+        .insert(jobAssignments)
+        .values({ jobId: application.jobId, userId: application.userId, startsOn })
+        .returning();
+      return { application, assignment };
+    });
+  }
+
+  // Payroll schedule operations
+  async getPayrollSchedules(classroomId: number): Promise<PayrollSchedule[]> {
+    return await db
+      .select()
+      .from(payrollSchedules)
+      .where(eq(payrollSchedules.classroomId, classroomId))
+      .orderBy(payrollSchedules.kind, payrollSchedules.createdAt);
+  }
+
+  async getPayrollSchedule(id: number): Promise<PayrollSchedule | undefined> {
+    const [schedule] = await db.select().from(payrollSchedules).where(eq(payrollSchedules.id, id));
+    return schedule;
+  }
+
+  async getActivePayrollSchedules(): Promise<(PayrollSchedule & { classroom: Classroom })[]> {
+    const results = await db
+      .select()
+      .from(payrollSchedules)
+      .innerJoin(classrooms, eq(payrollSchedules.classroomId, classrooms.id))
+      .where(eq(payrollSchedules.active, true));
+
+    return results.map(row => ({ ...row.payroll_schedules, classroom: row.classrooms }));
+  }
+
+  async createPayrollSchedule(schedule: InsertPayrollSchedule): Promise<PayrollSchedule> {
+    const [newSchedule] = await db.insert(payrollSchedules).values(schedule).returning();
+    return newSchedule;
+  }
+
+  async updatePayrollSchedule(id: number, update: UpdatePayrollSchedule): Promise<PayrollSchedule> {
+    const [schedule] = await db
+      .update(payrollSchedules)
+      .set(update)
+      .where(eq(payrollSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async deletePayrollSchedule(id: number): Promise<void> {
+    await db.delete(payrollSchedules).where(eq(payrollSchedules.id, id));
+  }
+
+  async recordPayrollScheduleRun(
+    id: number,
+    run: Pick<PayrollSchedule, "lastRunOn" | "lastBatchId" | "lastError">
+  ): Promise<void> {
+    await db.update(payrollSchedules).set(run).where(eq(payrollSchedules.id, id));
+  }
+
+  // Housing operations
+  // Each unit with the residents who haven't moved out yet, including ones moving in later
+  async getHousingUnits(classroomId: number, onDate: string): Promise<HousingUnitWithResidents[]> {
+    const units = await db
+      .select()
+      .from(housingUnits)
+      .leftJoin(users, eq(housingUnits.ownerId, users.id))
+      .where(eq(housingUnits.classroomId, classroomId))
+      .orderBy(housingUnits.name);
+
+    const rows = await db
+      .select()
+      .from(housingAssignments)
+      .innerJoin(housingUnits, eq(housingAssignments.unitId, housingUnits.id))
+      .innerJoin(users, eq(housingAssignments.userId, users.id))
+      .where(
+        and(
+          eq(housingUnits.classroomId, classroomId),
+          or(isNull(housingAssignments.endsOn), gte(housingAssignments.endsOn, onDate))
+        )
+      )
+      .orderBy(housingAssignments.startsOn, users.firstName, users.lastName);
+
+    return units.map(({ housing_units: unit, users: owner }) => ({
+      ...unit,
+      owner,
+      assignments: rows
+        .filter(row => row.housing_assignments.unitId === unit.id)
+        .map(row => ({ ...row.housing_assignments, user: row.users })),
+    }));
+  }
+
+  async getHousingUnit(id: number): Promise<HousingUnit | undefined> {
+    const [unit] = await db.select().from(housingUnits).where(eq(housingUnits.id, id));
+    return unit;
+  }
+
+  async createHousingUnit(unit: InsertHousingUnit): Promise<HousingUnit> {
+    const [newUnit] = await db.insert(housingUnits).values(unit).returning();
+    return newUnit;
+  }
+
+  async updateHousingUnit(id: number, update: UpdateHousingUnit): Promise<HousingUnit> {
+    const [unit] = await db
+      .update(housingUnits)
+      .set(update)
+      .where(eq(housingUnits.id, id))
+      .returning();
+    return unit;
+  }
+
+  // Rent already charged stays on the students' rent charges, so the assignments can go with the unit, and so
+  // can purchase requests, which stop holding the buyers' money. A unit a student bought can't be deleted.
+  async deleteHousingUnit(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Purchase requests, then the unit: the order reviewHousingPurchase locks them in, so an approval at the
+      // same time either lands first and blocks this, or waits and finds the request gone
+      await tx.select({ id: housingPurchases.id }).from(housingPurchases).where(eq(housingPurchases.unitId, id)).for("update");
+      const [unit] = await tx.select().from(housingUnits).where(eq(housingUnits.id, id)).for("update");
+      if (unit?.ownerId) {
+        throw new LedgerError(`${unit.name} belongs to a student and can't be deleted`, 409);
+      }
+
+      await tx.delete(housingPurchases).where(eq(housingPurchases.unitId, id));
+      await tx.delete(housingAssignments).where(eq(housingAssignments.unitId, id));
+      await tx.delete(housingUnits).where(eq(housingUnits.id, id));
+    });
+  }
+
+  async getHousingAssignment(id: number): Promise<(HousingAssignment & { unit: HousingUnit }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(housingAssignments)
+      .innerJoin(housingUnits, eq(housingAssignments.unitId, housingUnits.id))
+      .where(eq(housingAssignments.id, id));
+
+    return result ? { ...result.housing_assignments, unit: result.housing_units } : undefined;
+  }
+
+  async getHousingAssignmentsOn(unitId: number, onDate: string): Promise<HousingAssignment[]> {
+    return await db
+      .select()
+      .from(housingAssignments)
+      .where(and(eq(housingAssignments.unitId, unitId), housingAssignmentCovers(onDate)));
+  }
+
+  // Where the student lives in the classroom on or after the day, if anywhere
+  async getStudentHousingFrom(
+    classroomId: number,
+    userId: string,
+    onDate: string
+  ): Promise<(HousingAssignment & { unit: HousingUnit }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(housingAssignments)
+      .innerJoin(housingUnits, eq(housingAssignments.unitId, housingUnits.id))
+      .where(
+        and(
+          eq(housingUnits.classroomId, classroomId),
+          eq(housingAssignments.userId, userId),
+          or(isNull(housingAssignments.endsOn), gte(housingAssignments.endsOn, onDate))
+        )
+      );
+
+    return result ? { ...result.housing_assignments, unit: result.housing_units } : undefined;
+  }
+
+  async createHousingAssignment(assignment: InsertHousingAssignment): Promise<HousingAssignment> {
+    const [newAssignment] = await db.insert(housingAssignments).values(assignment).returning();
+    return newAssignment;
+  }
+
+  // Ends the old home and starts the new one together, so the student is never without one or in two
+  async moveHousing(fromAssignmentId: number, movedOutOn: string, assignment: InsertHousingAssignment): Promise<HousingAssignment> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(housingAssignments)
+        .set({ endsOn: movedOutOn })
+        .where(eq(housingAssignments.id, fromAssignmentId));
+      const [newAssignment] = await tx.insert(housingAssignments).values(assignment).returning();
+      return newAssignment;
+    });
+  }
+
+  async endHousingAssignment(id: number, endsOn: string): Promise<HousingAssignment> {
+    const [assignment] = await db
+      .update(housingAssignments)
+      .set({ endsOn })
+      .where(eq(housingAssignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async getRentRoll(classroomId: number, onDate: string): Promise<RentRollLine[]> {
+    const students = await this.getClassroomStudents(classroomId);
+    const rows = await db
+      .select({
+        userId: housingAssignments.userId,
+        id: housingUnits.id,
+        name: housingUnits.name,
+        rent: housingUnits.rent,
+        ownerId: housingUnits.ownerId,
+      })
+      .from(housingAssignments)
+      .innerJoin(housingUnits, eq(housingAssignments.unitId, housingUnits.id))
+      .where(and(eq(housingUnits.classroomId, classroomId), housingAssignmentCovers(onDate)));
+    const owedRent = await this.getOwedRent(db, classroomId);
+
+    return students.map(student => {
+      const row = rows.find(row => row.userId === student.id);
+      return {
+        student,
+        unit: row ? { id: row.id, name: row.name, rent: row.rent, ownerId: row.ownerId } : null,
+        owed: ((owedRent.get(student.id) ?? []).reduce((sum, owedCharge) => sum + owedCharge.cents, 0) / 100).toFixed(2),
+      };
+    });
+  }
+
+  // Housing purchase operations
+  async createHousingPurchase(purchase: InsertHousingPurchase): Promise<HousingPurchase> {
+    return await db.transaction(async (tx) => {
+      await this.assertAvailable(tx, checkingAccountOf(purchase.userId), purchase.price);
+
+      const [newPurchase] = await tx.insert(housingPurchases).values(purchase).returning();
+      return newPurchase;
+    });
+  }
+
+  async getHousingPurchase(id: number): Promise<(HousingPurchase & { unit: HousingUnit }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(housingPurchases)
+      .innerJoin(housingUnits, eq(housingPurchases.unitId, housingUnits.id))
+      .where(eq(housingPurchases.id, id));
+
+    return result ? { ...result.housing_purchases, unit: result.housing_units } : undefined;
+  }
+
+  async getPendingHousingPurchases(classroomId: number): Promise<(HousingPurchase & { user: User; unit: HousingUnit })[]> {
+    const results = await db
+      .select()
+      .from(housingPurchases)
+      .innerJoin(housingUnits, eq(housingPurchases.unitId, housingUnits.id))
+      .innerJoin(users, eq(housingPurchases.userId, users.id))
+      .where(
+        and(
+          eq(housingUnits.classroomId, classroomId),
+          eq(housingPurchases.status, "pending"),
+          inArray(housingPurchases.userId, enrolledUserIds(classroomId))
+        )
+      )
+      .orderBy(housingPurchases.createdAt);
+
+    return results.map(row => ({ ...row.housing_purchases, user: row.users, unit: row.housing_units }));
+  }
+
+  async getStudentHousingPurchases(userId: string): Promise<(HousingPurchase & { unit: HousingUnit })[]> {
+    const results = await db
+      .select()
+      .from(housingPurchases)
+      .innerJoin(housingUnits, eq(housingPurchases.unitId, housingUnits.id))
+      .where(eq(housingPurchases.userId, userId))
+      .orderBy(desc(housingPurchases.createdAt));
+
+    return results.map(row => ({ ...row.housing_purchases, unit: row.housing_units }));
+  }
+
+  // Approving pays for the unit and hands over the deed in one DB transaction; other students' pending
+  // requests for the same unit are turned down since it's no longer for sale
+  async reviewHousingPurchase(id: number, status: "approved" | "rejected", reviewedBy: string): Promise<HousingPurchase> {
+    return await db.transaction(async (tx) => {
+      const [purchase] = await tx
+        .update(housingPurchases)
+        .set({ status, reviewedBy, reviewedAt: new Date() })
+        .where(and(eq(housingPurchases.id, id), eq(housingPurchases.status, "pending")))
+        .returning();
+
+      if (!purchase) {
+        throw new LedgerError("Purchase request not found or already reviewed", 404);
+      }
+      if (status === "rejected") {
+        return purchase;
+      }
+
+      const [unit] = await tx.select().from(housingUnits).where(eq(housingUnits.id, purchase.unitId)).for("update");
+      if (unit.ownerId) {
+        throw new LedgerError(`${unit.name} already has an owner`, 409);
+      }
+      const [account] = await tx.select().from(accounts).where(checkingAccountOf(purchase.userId));
+      if (!account) {
+        throw new LedgerError("Account not found", 404);
+      }
+
+      await this.applyTransaction(tx, {
+        accountId: account.id,
+        type: "purchase",
+        amount: `-${purchase.price}`,
+        description: `Bought ${unit.name}`,
+        createdBy: reviewedBy,
+      }, {});
+      await tx.update(housingUnits).set({ ownerId: purchase.userId }).where(eq(housingUnits.id, unit.id));
+      await tx
+        .update(housingPurchases)
+        .set({ status: "rejected", reviewedBy, reviewedAt: new Date() })
+        .where(and(eq(housingPurchases.unitId, unit.id), eq(housingPurchases.status, "pending")));
+
+      return purchase;
+    });
+  }
+
+  // Rent each student still owes the classroom, from its rent batches that weren't rolled back: the unpaid part
+  // of each charge, oldest first. Everything a student has paid settles their oldest charges first.
+  private async getOwedRent(executor: DbExecutor, classroomId: number): Promise<Map<string, OwedRentCharge[]>> {
+    const rows = await executor
+      .select({
+        userId: rentCharges.userId,
+        amountDue: rentCharges.amountDue,
+        amountPaid: rentCharges.amountPaid,
+        landlordAccountId: rentCharges.landlordAccountId,
+      })
+      .from(rentCharges)
+      .innerJoin(batches, eq(rentCharges.batchId, batches.id))
+      .where(and(eq(batches.classroomId, classroomId), isNull(batches.rolledBackAt)))
+      .orderBy(rentCharges.id);
+
+    const paid = new Map<string, number>();
+    for (const row of rows) {
+      paid.set(row.userId, (paid.get(row.userId) ?? 0) + Math.round(parseFloat(row.amountPaid) * 100));
+    }
+
+    const owed = new Map<string, OwedRentCharge[]>();
+    for (const row of rows) {
+      const due = Math.round(parseFloat(row.amountDue) * 100);
+      const covered = Math.min(Math.max(paid.get(row.userId) ?? 0, 0), due);
+      paid.set(row.userId, paid.get(row.userId)! - covered);
+      if (due > covered) {
+        owed.set(row.userId, [...(owed.get(row.userId) ?? []), { landlordAccountId: row.landlordAccountId, cents: due - covered }]);
+      }
+    }
+    return owed;
+  }
+
+  // Store operations
+  async getStoreItems(classroomId: number): Promise<StoreItem[]> {
+    return await db
+      .select()
+      .from(storeItems)
+      .where(and(eq(storeItems.classroomId, classroomId), isNull(storeItems.removedAt)))
+      .orderBy(storeItems.name);
+  }
+
+  async getStoreItem(id: number): Promise<StoreItem | undefined> {
+    const [item] = await db.select().from(storeItems).where(eq(storeItems.id, id));
+    return item;
+  }
+
+  async createStoreItem(item: InsertStoreItem): Promise<StoreItem> {
+    const [newItem] = await db.insert(storeItems).values(item).returning();
+    return newItem;
+  }
+
+  async updateStoreItem(id: number, update: UpdateStoreItem): Promise<StoreItem> {
+    const [item] = await db.update(storeItems).set(update).where(eq(storeItems.id, id)).returning();
+    return item;
+  }
+
+  // Past purchases still point at the item, so it's hidden rather than deleted. Orders still waiting are denied.
+  async removeStoreItem(id: number, removedBy: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(storeItems).set({ removedAt: new Date() }).where(eq(storeItems.id, id));
+      await tx
+        .update(withdrawalRequests)
+        .set({ status: "denied", reviewedBy: removedBy, reviewedAt: new Date() })
+        .where(and(eq(withdrawalRequests.storeItemId, id), eq(withdrawalRequests.status, "pending")));
+    });
+  }
+
+  // Inventory operations
+  async getStudentInventory(classroomId: number, userId: string): Promise<(InventoryItem & { storeItem: StoreItem })[]> {
+    const results = await db
+      .select()
+      .from(inventoryItems)
+      .innerJoin(storeItems, eq(inventoryItems.storeItemId, storeItems.id))
+      .where(and(eq(storeItems.classroomId, classroomId), eq(inventoryItems.userId, userId)))
+      .orderBy(desc(inventoryItems.createdAt));
+
+    return results.map(row => ({ ...row.inventory_items, storeItem: row.store_items }));
+  }
+
+  async getClassroomInventory(classroomId: number): Promise<(InventoryItem & { user: User; storeItem: StoreItem })[]> {
+    const results = await db
+      .select()
+      .from(inventoryItems)
+      .innerJoin(storeItems, eq(inventoryItems.storeItemId, storeItems.id))
+      .innerJoin(users, eq(inventoryItems.userId, users.id))
+      .where(and(
+        eq(storeItems.classroomId, classroomId),
+        inArray(inventoryItems.userId, enrolledUserIds(classroomId))
+      ))
+      .orderBy(users.lastName, users.firstName, desc(inventoryItems.createdAt));
+
+    return results.map(row => ({ ...row.inventory_items, user: row.users, storeItem: row.store_items }));
+  }
+
+  async getInventoryItem(id: number): Promise<(InventoryItem & { storeItem: StoreItem }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(inventoryItems)
+      .innerJoin(storeItems, eq(inventoryItems.storeItemId, storeItems.id))
+      .where(eq(inventoryItems.id, id));
+
+    return result ? { ...result.inventory_items, storeItem: result.store_items } : undefined;
+  }
+
+  // Undefined when the item was already redeemed
+  async redeemInventoryItem(id: number, redeemedBy: string): Promise<InventoryItem | undefined> {
+    const [item] = await db
+      .update(inventoryItems)
+      .set({ status: "redeemed", redeemedBy, redeemedAt: new Date() })
+      .where(and(eq(inventoryItems.id, id), eq(inventoryItems.status, "owned")))
+      .returning();
+    return item;
+  }
+
+  // Auction operations
+  async getAuctions(classroomId: number): Promise<Auction[]> {
+    return await db
+      .select()
+      .from(auctions)
+      .where(eq(auctions.classroomId, classroomId))
+      .orderBy(desc(auctions.endsAt));
+  }
+
+  async getAuction(id: number): Promise<Auction | undefined> {
+    const [auction] = await db.select().from(auctions).where(eq(auctions.id, id));
+    return auction;
+  }
+
+  // Auctions whose bidding has ended but that haven't been settled yet
+  async getDueAuctions(now: Date): Promise<Auction[]> {
+    return await db
+      .select()
+      .from(auctions)
+      .where(and(isNull(auctions.settledAt), lte(auctions.endsAt, now)));
+  }
+
+  async getAuctionLots(auctionId: number): Promise<AuctionLotStanding[]> {
+    const lots = await db
+      .select()
+      .from(auctionLots)
+      .where(eq(auctionLots.auctionId, auctionId))
+      .orderBy(auctionLots.id);
+    if (lots.length === 0) {
+      return [];
+    }
+
+    const bids = await db
+      .select()
+      .from(auctionBids)
+      .innerJoin(users, eq(auctionBids.userId, users.id))
+      .where(inArray(auctionBids.lotId, lots.map(lot => lot.id)))
+      .orderBy(desc(auctionBids.amount));
+
+    return lots.map(lot => {
+      const lotBids = bids.filter(row => row.auction_bids.lotId === lot.id);
+      const leading = lotBids[0];
+      return {
+        ...lot,
+        leadingBid: leading ? { ...leading.auction_bids, user: leading.users } : null,
+        winner: lotBids.find(row => row.auction_bids.userId === lot.winnerId)?.users ?? null,
+        bidCount: lotBids.length,
+        minimumBid: minimumBid(lot, leading?.auction_bids.amount ?? null),
+      };
+    });
+  }
+
+  async getAuctionLot(id: number): Promise<(AuctionLot & { auction: Auction }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(auctionLots)
+      .innerJoin(auctions, eq(auctionLots.auctionId, auctions.id))
+      .where(eq(auctionLots.id, id));
+
+    return result ? { ...result.auction_lots, auction: result.auctions } : undefined;
+  }
+
+  async createAuction({ lots, ...auction }: InsertAuction & { createdBy: string }): Promise<Auction> {
+    return await db.transaction(async (tx) => {
+      const [newAuction] = await tx.insert(auctions).values(auction).returning();
+      await tx.insert(auctionLots).values(lots.map(lot => ({ ...lot, auctionId: newAuction.id })));
+      return newAuction;
+    });
+  }
+
+  // The lot and its auction are locked, so bids on one auction (and its settling) happen one at a time; the
+  // bidder's account is locked so bids on different lots can't together hold more than their balance
+  async placeBid(lotId: number, userId: string, amount: string): Promise<AuctionBid> {
+    return await db.transaction(async (tx) => {
+      const [lot] = await tx
+        .select()
+        .from(auctionLots)
+        .innerJoin(auctions, eq(auctionLots.auctionId, auctions.id))
+        .where(eq(auctionLots.id, lotId))
+        .for("update");
+
+      if (!lot) {
+        throw new LedgerError("Lot not found", 404);
+      }
+      if (lot.auctions.settledAt || lot.auctions.endsAt <= new Date()) {
+        throw new LedgerError("Bidding on this auction has closed", 409);
+      }
+
+      const [leading] = await tx
+        .select()
+        .from(auctionBids)
+        .where(eq(auctionBids.lotId, lotId))
+        .orderBy(desc(auctionBids.amount))
+        .limit(1);
+
+      if (leading?.userId === userId) {
+        throw new LedgerError("You already have the top bid", 409);
+      }
+      const minimum = minimumBid(lot.auction_lots, leading?.amount ?? null);
+      if (parseFloat(amount) < parseFloat(minimum)) {
+        throw new LedgerError(`Bids must be at least $${minimum}`);
+      }
+
+      const available = await this.lockAvailableBalance(tx, checkingAccountOf(userId));
+      if (parseFloat(amount) > available) {
+        throw new LedgerError(`You only have $${Math.max(available, 0).toFixed(2)} available to bid`);
+      }
+
+      const [bid] = await tx.insert(auctionBids).values({ lotId, userId, amount }).returning();
+      return bid;
+    });
+  }
+
+  // What the student's leading bids on unsettled auctions are holding from their balance
+  async getBidHolds(userId: string): Promise<string> {
+    return await this.sumBidHolds(db, userId);
+  }
+
+  private async sumBidHolds(executor: DbExecutor, userId: string): Promise<string> {
+    const otherBids = alias(auctionBids, "other_bids");
+    const [result] = await executor
+      .select({ total: sql<string>`coalesce(sum(${auctionBids.amount}), 0)::text` })
+      .from(auctionBids)
+      .innerJoin(auctionLots, eq(auctionBids.lotId, auctionLots.id))
+      .innerJoin(auctions, eq(auctionLots.auctionId, auctions.id))
+      .where(and(
+        eq(auctionBids.userId, userId),
+        isNull(auctions.settledAt),
+        sql`${auctionBids.amount} = (select max(${otherBids.amount}) from ${otherBids} where ${otherBids.lotId} = ${auctionBids.lotId})`
+      ));
+    return result.total;
+  }
+
+  // Charges each lot's winner and ends the auction; undefined if it was already settled. A top bidder who can
+  // no longer pay loses the lot to the next bidder who can. Settling stops all bids holding money.
+  async settleAuction(id: number): Promise<AuctionLot[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const [auction] = await tx
+        .update(auctions)
+        .set({ settledAt: new Date(), endsAt: sql`least(${auctions.endsAt}, now())` })
+        .where(and(eq(auctions.id, id), isNull(auctions.settledAt)))
+        .returning();
+
+      if (!auction) {
+        return undefined;
+      }
+
+      // Balances are checked before posting, so take the treasury first to keep applyTransaction's lock order
+      await this.lockTreasuryAccount(tx);
+      const lots = await tx.select().from(auctionLots).where(eq(auctionLots.auctionId, id)).orderBy(auctionLots.id);
+      const settled: AuctionLot[] = [];
+      for (const lot of lots) {
+        const bids = await tx
+          .select()
+          .from(auctionBids)
+          .innerJoin(accounts, and(eq(auctionBids.userId, accounts.userId), eq(accounts.kind, "student")))
+          .where(eq(auctionBids.lotId, lot.id))
+          .orderBy(desc(auctionBids.amount));
+
+        let winner: AuctionBid | undefined;
+        for (const { auction_bids: bid, accounts: account } of bids) {
+          const [current] = await tx
+            .select({ balance: accounts.balance })
+            .from(accounts)
+            .where(eq(accounts.id, account.id))
+            .for("update");
+          if (parseFloat(current.balance) < parseFloat(bid.amount)) {
+            continue;
+          }
+
+          await this.applyTransaction(tx, {
+            accountId: account.id,
+            type: "auction",
+            amount: `-${bid.amount}`,
+            description: `Won at auction: ${lot.description}`,
+            createdBy: auction.createdBy,
+          }, {});
+          winner = bid;
+          break;
+        }
+
+        const [updatedLot] = await tx
+          .update(auctionLots)
+          .set({ winnerId: winner?.userId ?? null, winningBid: winner?.amount ?? null })
+          .where(eq(auctionLots.id, lot.id))
+          .returning();
+        settled.push(updatedLot);
+      }
+
+      return settled;
+    });
+  }
+
+  // Savings operations
+  async getSavingsSettings(classroomId: number): Promise<SavingsSettings | undefined> {
+    const [settings] = await db.select().from(savingsSettings).where(eq(savingsSettings.classroomId, classroomId));
+    return settings;
+  }
+
+  async upsertSavingsSettings(settings: UpsertSavingsSettings & { updatedBy: string }): Promise<SavingsSettings> {
+    const [saved] = await db
+      .insert(savingsSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: savingsSettings.classroomId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // The classroom's students whose savings account follows its rules, with that account
+  async getClassroomSavers(classroomId: number): Promise<(User & { account: Account })[]> {
+    const results = await db
+      .select()
+      .from(users)
+      .innerJoin(accounts, and(
+        eq(users.id, accounts.userId),
+        eq(accounts.kind, "savings"),
+        eq(accounts.classroomId, classroomId)
+      ))
+      .where(inArray(users.id, enrolledUserIds(classroomId)))
+      .orderBy(users.firstName, users.lastName);
+
+    return results.map(row => ({ ...row.users, account: row.accounts }));
+  }
+
+  // Certificate of deposit operations
+  async getCdProducts(classroomId: number): Promise<CdProduct[]> {
+    return await db
+      .select()
+      .from(cdProducts)
+      .where(and(eq(cdProducts.classroomId, classroomId), isNull(cdProducts.removedAt)))
+      .orderBy(cdProducts.termDays, cdProducts.name);
+  }
+
+  async getCdProduct(id: number): Promise<CdProduct | undefined> {
+    const [product] = await db.select().from(cdProducts).where(eq(cdProducts.id, id));
+    return product;
+  }
+
+  async createCdProduct(product: InsertCdProduct): Promise<CdProduct> {
+    const [newProduct] = await db.insert(cdProducts).values(product).returning();
+    return newProduct;
+  }
+
+  async removeCdProduct(id: number): Promise<void> {
+    await db.update(cdProducts).set({ removedAt: new Date() }).where(eq(cdProducts.id, id));
+  }
+
+  async getStudentCds(userId: string): Promise<(CertificateOfDeposit & { product: CdProduct })[]> {
+    const results = await db
+      .select()
+      .from(certificatesOfDeposit)
+      .innerJoin(cdProducts, eq(certificatesOfDeposit.productId, cdProducts.id))
+      .where(eq(certificatesOfDeposit.userId, userId))
+      .orderBy(desc(certificatesOfDeposit.createdAt));
+
+    return results.map(row => ({ ...row.certificates_of_deposit, product: row.cd_products }));
+  }
+
+  async getClassroomCds(classroomId: number): Promise<(CertificateOfDeposit & { user: User; product: CdProduct })[]> {
+    const results = await db
+      .select()
+      .from(certificatesOfDeposit)
+      .innerJoin(cdProducts, eq(certificatesOfDeposit.productId, cdProducts.id))
+      .innerJoin(users, eq(certificatesOfDeposit.userId, users.id))
+      .where(and(
+        eq(cdProducts.classroomId, classroomId),
+        inArray(certificatesOfDeposit.userId, enrolledUserIds(classroomId))
+      ))
+      .orderBy(desc(certificatesOfDeposit.createdAt));
+
+    return results.map(row => ({ ...row.certificates_of_deposit, user: row.users, product: row.cd_products }));
+  }
+
+  async getCd(id: number): Promise<CertificateOfDeposit | undefined> {
+    const [cd] = await db.select().from(certificatesOfDeposit).where(eq(certificatesOfDeposit.id, id));
+    return cd;
+  }
+
+  async getDueCds(now: Date): Promise<CertificateOfDeposit[]> {
+    return await db
+      .select()
+      .from(certificatesOfDeposit)
+      .where(and(eq(certificatesOfDeposit.status, "open"), lte(certificatesOfDeposit.maturesAt, now)));
+  }
+
+  // Moves the deposit from the student's checking account to the treasury. Money held by pending requests and
+  // bids can't be locked away in a CD.
+  async openCd(userId: string, product: CdProduct, amount: string): Promise<CertificateOfDeposit> {
+    return await db.transaction(async (tx) => {
+      // The balance is checked before posting, so take the treasury first to keep applyTransaction's lock order
+      await this.lockTreasuryAccount(tx);
+      await this.assertAvailable(tx, checkingAccountOf(userId), amount);
+      const [account] = await tx.select().from(accounts).where(checkingAccountOf(userId));
+
+      await this.applyTransaction(tx, {
+        accountId: account.id,
+        type: "cd",
+        amount: negateAmount(amount),
+        description: `CD opened: ${product.name}`,
+        createdBy: userId,
+      }, {});
+
+      const [cd] = await tx
+        .insert(certificatesOfDeposit)
+        .values({
+          userId,
+          productId: product.id,
+          principal: amount,
+          interestRate: product.interestRate,
+          penaltyRate: product.penaltyRate,
+          maturesAt: new Date(Date.now() + product.termDays * 24 * 60 * 60 * 1000),
+        })
+        .returning();
+      return cd;
+    });
+  }
+
+  // Pays an open CD back into the student's checking account: in full with interest once it has matured,
+  // otherwise broken early with the penalty taken off. Undefined if it was already closed.
+  async closeCd(id: number): Promise<CertificateOfDeposit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [open] = await tx
+        .select()
+        .from(certificatesOfDeposit)
+        .innerJoin(cdProducts, eq(certificatesOfDeposit.productId, cdProducts.id))
+        .where(and(eq(certificatesOfDeposit.id, id), eq(certificatesOfDeposit.status, "open")))
+        .for("update", { of: certificatesOfDeposit });
+
+      if (!open) {
+        return undefined;
+      }
+
+      const { certificates_of_deposit: cd, cd_products: product } = open;
+      const matured = cd.maturesAt <= new Date();
+      const payout = cdPayout(cd, matured);
+      if (parseFloat(payout) > 0) {
+        const [account] = await tx.select().from(accounts).where(checkingAccountOf(cd.userId));
+        await this.applyTransaction(tx, {
+          accountId: account.id,
+          type: "cd",
+          amount: payout,
+          description: matured ? `CD matured: ${product.name}` : `CD broken early: ${product.name}`,
+          createdBy: cd.userId,
+        }, {});
+      }
+
+      const [closed] = await tx
+        .update(certificatesOfDeposit)
+        .set({ status: matured ? "matured" : "broken", payout, closedAt: new Date() })
+        .where(eq(certificatesOfDeposit.id, cd.id))
+        .returning();
+      return closed;
+    });
+  }
+
+  // School calendar operations
+  // Entries overlapping from through to
+  async getCalendarEntries(classroomId: number, from: string, to: string): Promise<CalendarEntry[]> {
+    return await db
+      .select()
+      .from(calendarEntries)
+      .where(and(
+        eq(calendarEntries.classroomId, classroomId),
+        lte(calendarEntries.startsOn, to),
+        gte(calendarEntries.endsOn, from)
+      ))
+      .orderBy(calendarEntries.startsOn);
+  }
+
+  async getCalendarEntry(id: number): Promise<CalendarEntry | undefined> {
+    const [entry] = await db.select().from(calendarEntries).where(eq(calendarEntries.id, id));
+    return entry;
+  }
+
+  async createCalendarEntry(entry: InsertCalendarEntry): Promise<CalendarEntry> {
+    const [newEntry] = await db.insert(calendarEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async deleteCalendarEntry(id: number): Promise<void> {
+    await db.delete(calendarEntries).where(eq(calendarEntries.id, id));
   }
 }
 
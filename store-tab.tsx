@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+type ItemKind = "item" | "coupon";
+
+interface StoreItem {
+  id: number;
+  kind: ItemKind;
+  name: string;
+  price: string;
+  validDays: number | null;
+  imageUrl: string | null;
+  stock: number | null;
+  perStudentLimit: number | null;
+  availableFrom: string | null;
+  availableUntil: string | null;
+}
+
+export default function StoreTab({ classroomId }: { classroomId: number }) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<ItemKind>("item");
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState("");
+  const [validDays, setValidDays] = useState("");
+  const [imageUrl, setImageUrl] = useState("");
+  const [stock, setStock] = useState("");
+  const [perStudentLimit, setPerStudentLimit] = useState("");
+  const [availableFrom, setAvailableFrom] = useState("");
+  const [availableUntil, setAvailableUntil] = useState("");
+  // Restock amount typed for each item, keyed by item id
+  const [restocks, setRestocks] = useState<Record<number, string>>({});
+
+  const { data: items, isLoading } = useQuery<StoreItem[]>({
+    queryKey: ["/api/store-items", { classroomId }],
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Removing an item denies its waiting orders, so the request list refreshes too
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/store-items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pending-requests"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const createItemMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/store-items", {
+        classroomId,
+        kind,
+        name,
+        price: parseFloat(price).toFixed(2),
+        validDays: kind === "coupon" && validDays ? parseInt(validDays) : null,
+        imageUrl: imageUrl.trim() || null,
+        stock: stock ? parseInt(stock) : null,
+        perStudentLimit: perStudentLimit ? parseInt(perStudentLimit) : null,
+        availableFrom: availableFrom || null,
+        availableUntil: availableUntil || null,
+      });
+      return response.json();
+    },
+    onSuccess: (item) => {
+      handleSuccess(`${item.name} is in the store 🛍️`);
+      setName("");
+      setPrice("");
+      setValidDays("");
+      setImageUrl("");
+      setStock("");
+      setPerStudentLimit("");
+      setAvailableFrom("");
+      setAvailableUntil("");
+    },
+    onError: (error) => handleError(error, "Failed to add to the store"),
+  });
+
+  const restockMutation = useMutation({
+    mutationFn: async ({ itemId, stock }: { itemId: number; stock: number }) => {
+      const response = await apiRequest("PATCH", `/api/store-items/${itemId}`, { stock });
+      return response.json();
+    },
+    onSuccess: (item) => {
+      handleSuccess(`${item.name} now has ${item.stock} in stock`);
+      setRestocks({ ...restocks, [item.id]: "" });
+    },
+    onError: (error) => handleError(error, "Failed to update stock"),
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: number) => {
+      const response = await apiRequest("DELETE", `/api/store-items/${itemId}`);
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to remove store item"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const priceNum = parseFloat(price);
+    if (!name.trim() || isNaN(priceNum) || priceNum < 0 || (kind === "coupon" && validDays && !(parseInt(validDays) >= 1))) {
+      toast({
+        title: "Missing Information",
+        description: "Give the item a name and a price.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (availableFrom && availableUntil && availableFrom > availableUntil) {
+      toast({
+        title: "Check the dates",
+        description: "The item has to go on sale before it comes off sale.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createItemMutation.mutate();
+  };
+
+  const formatWindow = (item: StoreItem) => {
+    if (item.availableFrom && item.availableUntil) return `on sale ${item.availableFrom} to ${item.availableUntil}`;
+    if (item.availableFrom) return `on sale from ${item.availableFrom}`;
+    if (item.availableUntil) return `on sale until ${item.availableUntil}`;
+    return "always on sale";
+  };
+
+  return (
+    <CardContent className="p-6 space-y-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">Class Store</h3>
+        <form onSubmit={handleSubmit} className="bg-purple-50 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Kind</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as ItemKind)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="item">🎁 Something to keep</SelectItem>
+                  <SelectItem value="coupon">🎟️ Privilege coupon</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="store-name">{kind === "coupon" ? "Privilege" : "Item"}</Label>
+              <Input
+                id="store-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={kind === "coupon" ? "Homework Pass" : "Scented Pencil"}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="store-price">Price</Label>
+              <Input
+                id="store-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="5.00"
+                className="mt-1"
+              />
+            </div>
+            {kind === "coupon" && (
+              <div>
+                <Label htmlFor="store-valid-days">Good for (days)</Label>
+                <Input
+                  id="store-valid-days"
+                  type="number"
+                  min="1"
+                  value={validDays}
+                  onChange={(e) => setValidDays(e.target.value)}
+                  placeholder="Never expires"
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="store-image">Picture link (optional)</Label>
+              <Input
+                id="store-image"
+                type="url"
+                value={imageUrl}
+                onChange={(e) => setImageUrl(e.target.value)}
+                placeholder="https://..."
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="store-stock">In stock</Label>
+              <Input
+                id="store-stock"
+                type="number"
+                min="0"
+                value={stock}
+                onChange={(e) => setStock(e.target.value)}
+                placeholder="Unlimited"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="store-limit">Most per student</Label>
+              <Input
+                id="store-limit"
+                type="number"
+                min="1"
+                value={perStudentLimit}
+                onChange={(e) => setPerStudentLimit(e.target.value)}
+                placeholder="No limit"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="store-from">On sale from</Label>
+              <Input
+                id="store-from"
+                type="date"
+                value={availableFrom}
+                onChange={(e) => setAvailableFrom(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="store-until">On sale until</Label>
+              <Input
+                id="store-until"
+                type="date"
+                value={availableUntil}
+                onChange={(e) => setAvailableUntil(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={createItemMutation.isPending}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+          >
+            {createItemMutation.isPending ? "Saving..." : "🛍️ Add Item"}
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-lg">Loading...</p>
+        </div>
+      ) : items && items.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {items.map((item) => (
+            <div key={item.id} className="bg-gray-50 rounded-xl p-6 space-y-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-4">
+                  {item.imageUrl ? (
+                    <img src={item.imageUrl} alt={item.name} className="w-16 h-16 rounded-lg object-cover" />
+                  ) : (
+                    <div className="w-16 h-16 rounded-lg bg-white flex items-center justify-center text-3xl">
+                      {item.kind === "coupon" ? "🎟️" : "🛍️"}
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-semibold text-gray-800 text-lg">{item.name} • ${item.price}</p>
+                    <p className="text-gray-500 text-sm">
+                      {item.stock === null ? "Unlimited" : item.stock === 0 ? "Sold out" : `${item.stock} left`}
+                      {item.perStudentLimit !== null && ` • ${item.perStudentLimit} per student`}
+                    </p>
+                    <p className="text-gray-500 text-sm">{formatWindow(item)}</p>
+                    {item.kind === "coupon" && (
+                      <p className="text-gray-500 text-sm">
+                        Coupon{item.validDays !== null && `, good for ${item.validDays} ${item.validDays === 1 ? "day" : "days"}`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => removeItemMutation.mutate(item.id)}
+                  disabled={removeItemMutation.isPending}
+                  variant="outline"
+                  size="sm"
+                >
+                  Remove
+                </Button>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <Input
+                  type="number"
+                  min="0"
+                  value={restocks[item.id] || ""}
+                  onChange={(e) => setRestocks({ ...restocks, [item.id]: e.target.value })}
+                  placeholder="New stock"
+                  className="max-w-[140px]"
+                />
+                <Button
+                  onClick={() => restockMutation.mutate({ itemId: item.id, stock: parseInt(restocks[item.id]) })}
+                  disabled={!(parseInt(restocks[item.id]) >= 0) || restockMutation.isPending}
+                  variant="outline"
+                >
+                  Set Stock
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <span className="text-4xl mb-4 block">🛍️</span>
+          <p className="text-lg">The store is empty. Add something above!</p>
+        </div>
+      )}
+    </CardContent>
+  );
+}
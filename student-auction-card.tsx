@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useServerNow, formatCountdown } from "@/hooks/useCountdown";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Lot {
+  id: number;
+  description: string;
+  imageUrl: string | null;
+  startingBid: string;
+  minimumBid: string;
+  bidCount: number;
+  leadingBid: string | null;
+  leadingByMe: boolean;
+  wonByMe: boolean;
+  sold: boolean;
+  winningBid: string | null;
+}
+
+interface AuctionHouse {
+  balance: string;
+  held: string;
+  available: string;
+  serverTime: string;
+  auctions: {
+    id: number;
+    title: string;
+    classroomName: string;
+    endsAt: string;
+    settledAt: string | null;
+    lots: Lot[];
+  }[];
+}
+
+export default function StudentAuctionCard() {
+  const { toast } = useToast();
+  // Bid typed for each lot, keyed by lot id; empty means the minimum bid
+  const [bids, setBids] = useState<Record<number, string>>({});
+
+  // Polled so other students' bids show up while the auction is open
+  const { data: house, isLoading } = useQuery<AuctionHouse>({
+    queryKey: ["/api/auction-house"],
+    refetchInterval: 3000,
+    retry: false,
+  });
+
+  const now = useServerNow(house?.serverTime);
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Oops!",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const bidMutation = useMutation({
+    mutationFn: async ({ lotId, amount }: { lotId: number; amount: string }) => {
+      const response = await apiRequest("POST", "/api/auction-bids", { lotId, amount });
+      return response.json();
+    },
+    onSuccess: (data, { lotId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auction-house"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setBids({ ...bids, [lotId]: "" });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      // Someone may have outbid the student while they typed
+      queryClient.invalidateQueries({ queryKey: ["/api/auction-house"] });
+      handleError(error, "Failed to place bid");
+    },
+  });
+
+  // Nothing to show until the teacher opens an auction
+  if (isLoading || !house || house.auctions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+            <span className="text-3xl mr-3">🔨</span>
+            Auction
+          </h3>
+          <div className="text-right">
+            <p className="text-gray-800 font-semibold">${house.available} to bid with</p>
+            {parseFloat(house.held) > 0 && (
+              <p className="text-gray-500 text-sm">${house.held} held for bids you're winning</p>
+            )}
+          </div>
+        </div>
+
+        {house.auctions.map((auction) => {
+          const remaining = new Date(auction.endsAt).getTime() - now;
+          const isOpen = !auction.settledAt && remaining > 0;
+          return (
+            <div key={auction.id} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-gray-700">{auction.title} • {auction.classroomName}</p>
+                <Badge className={isOpen ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-600"}>
+                  {auction.settledAt ? "Closed" : isOpen ? `⏰ ${formatCountdown(remaining)}` : "Closing..."}
+                </Badge>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {auction.lots.map((lot) => {
+                  const amount = bids[lot.id] || lot.minimumBid;
+                  return (
+                    <div key={lot.id} className={`p-4 rounded-xl space-y-3 ${lot.leadingByMe || lot.wonByMe ? "bg-green-50" : "bg-gray-50"}`}>
+                      <div className="flex items-center space-x-4">
+                        {lot.imageUrl ? (
+                          <img src={lot.imageUrl} alt={lot.description} className="w-16 h-16 rounded-lg object-cover" />
+                        ) : (
+                          <div className="w-16 h-16 rounded-lg bg-white flex items-center justify-center text-3xl">🎁</div>
+                        )}
+                        <div>
+                          <p className="font-semibold text-gray-800">{lot.description}</p>
+                          <p className="text-gray-500 text-sm">
+                            {auction.settledAt
+                              ? lot.sold ? `Sold for $${lot.winningBid}` : "Not sold"
+                              : lot.leadingBid
+                                ? `Top bid $${lot.leadingBid} • ${lot.bidCount} ${lot.bidCount === 1 ? "bid" : "bids"}`
+                                : `Starts at $${lot.startingBid}`}
+                          </p>
+                        </div>
+                      </div>
+
+                      {lot.wonByMe ? (
+                        <Badge className="bg-green-100 text-green-800">🎉 You won!</Badge>
+                      ) : lot.leadingByMe && !auction.settledAt ? (
+                        <Badge className="bg-green-100 text-green-800">You're winning!</Badge>
+                      ) : isOpen && (
+                        <div className="flex items-center space-x-3">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min={lot.minimumBid}
+                            value={bids[lot.id] || ""}
+                            onChange={(e) => setBids({ ...bids, [lot.id]: e.target.value })}
+                            placeholder={lot.minimumBid}
+                            className="max-w-[120px]"
+                          />
+                          <Button
+                            onClick={() => bidMutation.mutate({ lotId: lot.id, amount: parseFloat(amount).toFixed(2) })}
+                            disabled={!(parseFloat(amount) >= parseFloat(lot.minimumBid)) || bidMutation.isPending}
+                            className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                          >
+                            Bid ${parseFloat(amount) >= 0 ? parseFloat(amount).toFixed(2) : lot.minimumBid}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
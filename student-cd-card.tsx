@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { CD_STATUS } from "@/components/cds-tab";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Cds {
+  products: {
+    id: number;
+    name: string;
+    termDays: number;
+    interestRate: string;
+    penaltyRate: string;
+    classroomName: string;
+  }[];
+  cds: {
+    id: number;
+    productName: string;
+    principal: string;
+    maturesAt: string;
+    status: string; // 'open', 'matured' or 'broken'
+    payout: string | null;
+    projectedValue: string;
+    breakValue: string;
+  }[];
+}
+
+export default function StudentCdCard() {
+  const { toast } = useToast();
+  // Deposit typed for each CD on offer, keyed by product id
+  const [deposits, setDeposits] = useState<Record<number, string>>({});
+
+  const { data, isLoading } = useQuery<Cds>({
+    queryKey: ["/api/cds"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Oops!",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cds"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async ({ productId, amount }: { productId: number; amount: string }) => {
+      const response = await apiRequest("POST", "/api/cds", { productId, amount });
+      return response.json();
+    },
+    onSuccess: (data, { productId }) => {
+      handleSuccess(data.message);
+      setDeposits({ ...deposits, [productId]: "" });
+    },
+    onError: (error) => handleError(error, "Failed to open CD"),
+  });
+
+  const breakMutation = useMutation({
+    mutationFn: async (cdId: number) => {
+      const response = await apiRequest("POST", "/api/cd-early-withdrawals", { cdId });
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to break CD"),
+  });
+
+  // Nothing to show until a class offers CDs
+  if (isLoading || !data || (data.products.length === 0 && data.cds.length === 0)) {
+    return null;
+  }
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6 space-y-6">
+        <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+          <span className="text-3xl mr-3">🔒</span>
+          Certificates of Deposit
+        </h3>
+
+        {data.cds.length > 0 && (
+          <div className="space-y-3">
+            {data.cds.map((cd) => {
+              const status = CD_STATUS[cd.status] ?? CD_STATUS.open;
+              return (
+                <div key={cd.id} className={`flex items-center justify-between p-4 rounded-xl ${cd.status === "open" ? "bg-blue-50" : "bg-gray-50"}`}>
+                  <div>
+                    <p className="font-semibold text-gray-800">{cd.productName} • ${cd.principal}</p>
+                    <p className="text-gray-600 text-sm">
+                      {cd.status === "open"
+                        ? `Worth $${cd.projectedValue} on ${formatDate(cd.maturesAt)}`
+                        : `Paid back $${cd.payout}`}
+                    </p>
+                  </div>
+                  {cd.status === "open" ? (
+                    <Button
+                      onClick={() => breakMutation.mutate(cd.id)}
+                      disabled={breakMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Break Early (get ${cd.breakValue})
+                    </Button>
+                  ) : (
+                    <Badge className={status.className}>{status.label}</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {data.products.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {data.products.map((product) => {
+              const amount = parseFloat(deposits[product.id] || "");
+              return (
+                <div key={product.id} className="p-4 bg-gray-50 rounded-xl space-y-3">
+                  <div>
+                    <p className="font-semibold text-gray-800">{product.name}</p>
+                    <p className="text-gray-500 text-sm">
+                      {product.classroomName} • locked {product.termDays} days • earns {product.interestRate}%
+                      {parseFloat(product.penaltyRate) > 0 && ` • ${product.penaltyRate}% penalty to break early`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={deposits[product.id] || ""}
+                      onChange={(e) => setDeposits({ ...deposits, [product.id]: e.target.value })}
+                      placeholder="0.00"
+                      className="max-w-[120px]"
+                    />
+                    <Button
+                      onClick={() => openMutation.mutate({ productId: product.id, amount: amount.toFixed(2) })}
+                      disabled={!(amount > 0) || openMutation.isPending}
+                      className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                    >
+                      {amount > 0
+                        ? `Lock In (worth $${(amount * (1 + parseFloat(product.interestRate) / 100)).toFixed(2)})`
+                        : "Lock In"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,21 +2,34 @@ import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import WithdrawalModal from "@/components/withdrawal-modal";
+import StudentJobsCard from "@/components/student-jobs-card";
+import StudentHousingCard from "@/components/student-housing-card";
+import StudentStoreCard from "@/components/student-store-card";
+import StudentInventoryCard from "@/components/student-inventory-card";
+import StudentAuctionCard from "@/components/student-auction-card";
+import StudentSavingsCard from "@/components/student-savings-card";
+import StudentCdCard from "@/components/student-cd-card";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { CLASS_LOGIN_PATH_KEY } from "@/pages/class-login";
 
 interface Transaction {
   id: number;
   type: string;
   amount: string;
   description: string;
+  reversesTransactionId: number | null;
+  reversedByTransactionId: number | null;
   createdAt: string;
 }
 
 export default function StudentDashboard() {
-  const { user, isLoading: authLoading } = useAuth();
+  const { user, isLoading: authLoading, can } = useAuth();
   const { toast } = useToast();
   const [showWithdrawalModal, setShowWithdrawalModal] = useState(false);
 
@@ -53,7 +66,13 @@ export default function StudentDashboard() {
     );
   }
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Back to the class roster so the next student on this device can log in
+    if (user.pinLogin) {
+      await apiRequest("POST", "/api/class-login/logout");
+      window.location.href = localStorage.getItem(CLASS_LOGIN_PATH_KEY) || "/";
+      return;
+    }
     window.location.href = "/api/logout";
   };
 
@@ -66,10 +85,22 @@ export default function StudentDashboard() {
         return "⭐";
       case "withdrawal":
         return "🛒";
+      case "purchase":
+        return "🛍️";
+      case "auction":
+        return "🔨";
       case "fine":
         return "⚠️";
       case "rent":
         return "🏠";
+      case "reversal":
+        return "↩️";
+      case "transfer":
+        return "↔️";
+      case "interest":
+        return "📈";
+      case "cd":
+        return "🔒";
       default:
         return "💳";
     }
@@ -113,13 +144,20 @@ export default function StudentDashboard() {
                 <p className="text-gray-600">Welcome back, {getFullName()}!</p>
               </div>
             </div>
-            <Button 
-              onClick={handleLogout}
-              variant="destructive"
-              className="font-semibold"
-            >
-              Logout
-            </Button>
+            <div className="flex items-center space-x-3">
+              {can("view_students") && !user.pinLogin && (
+                <Button asChild variant="outline" className="font-semibold">
+                  <Link href="/bank">🏦 Bank Desk</Link>
+                </Button>
+              )}
+              <Button 
+                onClick={handleLogout}
+                variant="destructive"
+                className="font-semibold"
+              >
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -129,13 +167,17 @@ export default function StudentDashboard() {
         <div className="bg-gradient-to-r from-secondary to-green-600 rounded-3xl p-8 text-white mb-8 shadow-xl">
           <div className="flex items-center justify-between">
             <div>
-              <h2 className="text-2xl font-bold mb-2">My Account Balance</h2>
+              <h2 className="text-2xl font-bold mb-2">Available to Spend</h2>
               <div className="flex items-center space-x-2">
                 <span className="text-5xl font-bold">
-                  ${user?.account?.balance || "0.00"}
+                  ${user?.account?.available || "0.00"}
                 </span>
                 <span className="text-2xl">💰</span>
               </div>
+              <p className="text-lg mt-2 opacity-90">
+                Account balance ${user?.account?.balance || "0.00"}
+                {user?.account && parseFloat(user.account.held) > 0 && ` • $${user.account.held} on hold for requests and bids`}
+              </p>
             </div>
             <div className="text-right">
               <div className="w-20 h-20 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
@@ -168,6 +210,23 @@ export default function StudentDashboard() {
           </Button>
         </div>
 
+        {/* Savings */}
+        <StudentSavingsCard />
+        <StudentCdCard />
+
+        {/* Jobs */}
+        <StudentJobsCard />
+        <StudentHousingCard />
+
+        {/* Store */}
+        <StudentStoreCard />
+
+        {/* Auction */}
+        <StudentAuctionCard />
+
+        {/* Inventory */}
+        <StudentInventoryCard />
+
         {/* Recent Activity */}
         <Card className="rounded-2xl shadow-lg">
           <CardContent className="p-6">
@@ -200,11 +259,16 @@ export default function StudentDashboard() {
                         <span className="text-xl">{getTransactionIcon(transaction.type)}</span>
                       </div>
                       <div>
-                        <p className="font-semibold text-gray-800">{transaction.description}</p>
+                        <div className="flex items-center space-x-2">
+                          <p className="font-semibold text-gray-800">{transaction.description}</p>
+                          {transaction.reversedByTransactionId !== null && (
+                            <Badge variant="outline">Reversed</Badge>
+                          )}
+                        </div>
                         <p className="text-gray-600 text-sm">{formatDate(transaction.createdAt)}</p>
                       </div>
                     </div>
-                    <span className={`font-bold text-lg ${getTransactionColor(transaction.amount)}`}>
+                    <span className={`font-bold text-lg ${getTransactionColor(transaction.amount)} ${transaction.reversedByTransactionId !== null ? "line-through opacity-60" : ""}`}>
                       {formatAmount(transaction.amount)}
                     </span>
                   </div>
@@ -224,7 +288,7 @@ export default function StudentDashboard() {
       <WithdrawalModal
         isOpen={showWithdrawalModal}
         onClose={() => setShowWithdrawalModal(false)}
-        currentBalance={user?.account?.balance || "0.00"}
+        currentBalance={user?.account?.available || "0.00"}
       />
     </div>
   );
@@ -0,0 +1,154 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Student {
+  id: string;
+  firstName: string;
+  lastName: string;
+  account: {
+    balance: string;
+  };
+}
+
+interface Transaction {
+  id: number;
+  type: string;
+  amount: string;
+  description: string;
+  reversesTransactionId: number | null;
+  reversedByTransactionId: number | null;
+  createdAt: string;
+}
+
+interface StudentHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  student: Student | null;
+  canReverse: boolean;
+}
+
+export default function StudentHistoryModal({ isOpen, onClose, student, canReverse }: StudentHistoryModalProps) {
+  const { toast } = useToast();
+  const transactionsUrl = `/api/students/${student?.id}/transactions`;
+
+  const { data: transactions, isLoading } = useQuery<Transaction[]>({
+    queryKey: [transactionsUrl],
+    enabled: isOpen && !!student,
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: async (transactionId: number) => {
+      const response = await apiRequest("POST", `/api/transactions/${transactionId}/reverse`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [transactionsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reverse transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getTransactionColor = (amount: string) => {
+    return parseFloat(amount) >= 0 ? "text-green-600" : "text-red-600";
+  };
+
+  const formatAmount = (amount: string) => {
+    const num = parseFloat(amount);
+    return num >= 0 ? `+$${amount}` : `-$${Math.abs(num).toFixed(2)}`;
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  };
+
+  if (!student) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl rounded-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">📜</span>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-gray-800">Transaction History</DialogTitle>
+          <p className="text-gray-600">
+            {student.firstName} {student.lastName} • Current balance: ${student.account.balance}
+          </p>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg">Loading...</p>
+          </div>
+        ) : transactions && transactions.length > 0 ? (
+          <div className="space-y-3">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-semibold text-gray-800">{transaction.description}</p>
+                    {transaction.reversedByTransactionId !== null && (
+                      <Badge variant="outline">Reversed</Badge>
+                    )}
+                  </div>
+                  <p className="text-gray-600 text-sm">{formatDate(transaction.createdAt)}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`font-bold text-lg ${getTransactionColor(transaction.amount)}`}>
+                    {formatAmount(transaction.amount)}
+                  </span>
+                  {canReverse && transaction.reversedByTransactionId === null && transaction.reversesTransactionId === null && (
+                    <Button
+                      onClick={() => reverseMutation.mutate(transaction.id)}
+                      disabled={reverseMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                    >
+                      ↩️ Reverse
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <span className="text-4xl mb-4 block">📭</span>
+            <p className="text-lg">No transactions yet!</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
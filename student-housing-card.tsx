@@ -0,0 +1,153 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface HousingUnit {
+  id: number;
+  name: string;
+  rent: string;
+  price: string | null;
+  classroomName: string;
+  ownedByMe: boolean;
+  livesHere: boolean;
+  tenants: number;
+}
+
+interface HousingMarket {
+  units: HousingUnit[];
+  purchases: { id: number; unitId: number; price: string; status: string; unit: { name: string } }[];
+}
+
+const PURCHASE_STATUS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Waiting", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Bought!", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Not this time", className: "bg-gray-100 text-gray-600" },
+};
+
+export default function StudentHousingCard() {
+  const { toast } = useToast();
+
+  const { data: market, isLoading } = useQuery<HousingMarket>({
+    queryKey: ["/api/housing-market"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Oops!",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const buyMutation = useMutation({
+    mutationFn: async (unitId: number) => {
+      const response = await apiRequest("POST", "/api/housing-purchases", { unitId });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/housing-market"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to send purchase request"),
+  });
+
+  const hasAsked = (unitId: number) =>
+    market?.purchases.some(purchase => purchase.unitId === unitId && purchase.status === "pending");
+  const myUnits = market?.units.filter(unit => unit.ownedByMe || unit.livesHere) || [];
+  const forSale = market?.units.filter(unit => unit.price !== null) || [];
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6 space-y-6">
+        <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+          <span className="text-3xl mr-3">🏠</span>
+          Housing
+        </h3>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-4">Loading...</p>
+        ) : (
+          <>
+            {myUnits.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-gray-700">My Housing</p>
+                {myUnits.map((unit) => (
+                  <div key={unit.id} className="p-4 bg-green-50 rounded-xl">
+                    <p className="font-semibold text-gray-800">{unit.name}</p>
+                    <p className="text-gray-600 text-sm">
+                      {unit.ownedByMe
+                        ? `You own it${unit.livesHere ? " and pay no rent" : ""} • ${unit.tenants} ${unit.tenants === 1 ? "tenant pays" : "tenants pay"} you $${unit.rent} each rent day`
+                        : `You rent it for $${unit.rent} each rent day`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <p className="font-semibold text-gray-700">For Sale</p>
+              {forSale.length > 0 ? (
+                forSale.map((unit) => (
+                  <div key={unit.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                    <div>
+                      <p className="font-semibold text-gray-800">{unit.name} • ${unit.price}</p>
+                      <p className="text-gray-500 text-sm">{unit.classroomName} • rent is ${unit.rent}</p>
+                    </div>
+                    {hasAsked(unit.id) ? (
+                      <Badge variant="outline">Asked</Badge>
+                    ) : (
+                      <Button
+                        onClick={() => buyMutation.mutate(unit.id)}
+                        disabled={buyMutation.isPending}
+                        className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                      >
+                        Buy
+                      </Button>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-gray-500">Nothing for sale right now. Check back later!</p>
+              )}
+            </div>
+
+            {market && market.purchases.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-gray-700">My Purchase Requests</p>
+                {market.purchases.map((purchase) => {
+                  const status = PURCHASE_STATUS[purchase.status] ?? PURCHASE_STATUS.pending;
+                  return (
+                    <div key={purchase.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                      <p className="text-gray-800">{purchase.unit.name} • ${purchase.price}</p>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
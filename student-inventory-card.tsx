@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { INVENTORY_STATUS } from "@/components/inventory-tab";
+
+interface InventoryItem {
+  id: number;
+  status: string; // 'owned', 'redeemed' or 'expired'
+  expiresOn: string | null;
+  name: string;
+  kind: string; // 'item' or 'coupon'
+  imageUrl: string | null;
+  classroomName: string;
+}
+
+export default function StudentInventoryCard() {
+  const { data: inventory, isLoading } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory"],
+    retry: false,
+  });
+
+  // Things still in hand first; used and expired coupons after
+  const sorted = [...(inventory || [])].sort((a, b) => Number(a.status !== "owned") - Number(b.status !== "owned"));
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6">
+        <h3 className="text-2xl font-bold text-gray-800 mb-6 flex items-center">
+          <span className="text-3xl mr-3">🎒</span>
+          My Stuff
+        </h3>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-4">Loading...</p>
+        ) : sorted.length > 0 ? (
+          <div className="space-y-4">
+            {sorted.map((item) => {
+              const status = INVENTORY_STATUS[item.status] ?? INVENTORY_STATUS.owned;
+              return (
+                <div key={item.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                  <div className="flex items-center space-x-4">
+                    {item.imageUrl ? (
+                      <img src={item.imageUrl} alt={item.name} className="w-12 h-12 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+                        <span className="text-xl">{item.kind === "coupon" ? "🎟️" : "🎁"}</span>
+                      </div>
+                    )}
+                    <div>
+                      <p className="font-semibold text-gray-800">{item.name}</p>
+                      <p className="text-gray-600 text-sm">
+                        {item.classroomName}
+                        {item.kind === "coupon" && item.status === "owned" && item.expiresOn && ` • use by ${item.expiresOn}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Badge className={status.className}>{status.label}</Badge>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <span className="text-4xl mb-4 block">🎒</span>
+            <p className="text-lg">Nothing here yet!</p>
+            <p>Things you buy from the class store will show up here.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Job {
+  id: number;
+  title: string;
+  description: string | null;
+  wage: string;
+}
+
+interface JobBoard {
+  jobs: (Job & { classroomName: string; openings: number })[];
+  applications: { id: number; jobId: number; status: string; createdAt: string; job: Job }[];
+  assignments: { id: number; startsOn: string; endsOn: string | null; job: Job }[];
+}
+
+const APPLICATION_STATUS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Waiting", className: "bg-yellow-100 text-yellow-800" },
+  hired: { label: "Hired!", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Not this time", className: "bg-gray-100 text-gray-600" },
+};
+
+export default function StudentJobsCard() {
+  const { toast } = useToast();
+  const [applyingTo, setApplyingTo] = useState<number | null>(null);
+  const [answer, setAnswer] = useState("");
+
+  const { data: board, isLoading } = useQuery<JobBoard>({
+    queryKey: ["/api/job-board"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Oops!",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: async ({ jobId, answer }: { jobId: number; answer: string }) => {
+      const response = await apiRequest("POST", "/api/job-applications", { jobId, answer });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-board"] });
+      setApplyingTo(null);
+      setAnswer("");
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to send application"),
+  });
+
+  const resignMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      const response = await apiRequest("POST", "/api/job-resignations", { assignmentId });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-board"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to resign"),
+  });
+
+  const handleApply = (e: React.FormEvent, jobId: number) => {
+    e.preventDefault();
+
+    if (!answer.trim()) {
+      toast({
+        title: "Tell us why!",
+        description: "Write a sentence about why you want this job.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    applyMutation.mutate({ jobId, answer });
+  };
+
+  const hasApplied = (jobId: number) =>
+    board?.applications.some(application => application.jobId === jobId && application.status === "pending");
+  const hasJob = (jobId: number) => board?.assignments.some(assignment => assignment.job.id === jobId);
+  const openJobs = board?.jobs.filter(job => job.openings > 0 && !hasJob(job.id)) || [];
+  const today = new Date().toLocaleDateString("en-CA");
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6 space-y-6">
+        <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+          <span className="text-3xl mr-3">💼</span>
+          Jobs
+        </h3>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-4">Loading...</p>
+        ) : (
+          <>
+            {board && board.assignments.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-gray-700">My Jobs</p>
+                {board.assignments.map((assignment) => (
+                  <div key={assignment.id} className="flex items-center justify-between p-4 bg-green-50 rounded-xl">
+                    <div>
+                      <p className="font-semibold text-gray-800">{assignment.job.title} • ${assignment.job.wage} per payday</p>
+                      <p className="text-gray-600 text-sm">
+                        {assignment.startsOn > today
+                          ? `Starts ${assignment.startsOn}`
+                          : assignment.endsOn ? `Last day ${assignment.endsOn}` : `Since ${assignment.startsOn}`}
+                      </p>
+                    </div>
+                    {assignment.endsOn === null && assignment.startsOn <= today && (
+                      <Button
+                        onClick={() => resignMutation.mutate(assignment.id)}
+                        disabled={resignMutation.isPending}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Resign
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <p className="font-semibold text-gray-700">Open Jobs</p>
+              {openJobs.length > 0 ? (
+                openJobs.map((job) => (
+                  <div key={job.id} className="p-4 bg-gray-50 rounded-xl space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-semibold text-gray-800">{job.title} • ${job.wage} per payday</p>
+                        {job.description && <p className="text-gray-600 text-sm">{job.description}</p>}
+                        <p className="text-gray-500 text-sm">
+                          {job.classroomName} • {job.openings} {job.openings === 1 ? "opening" : "openings"}
+                        </p>
+                      </div>
+                      {hasApplied(job.id) ? (
+                        <Badge variant="outline">Applied</Badge>
+                      ) : applyingTo !== job.id && (
+                        <Button
+                          onClick={() => {
+                            setApplyingTo(job.id);
+                            setAnswer("");
+                          }}
+                          className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                        >
+                          Apply
+                        </Button>
+                      )}
+                    </div>
+                    {applyingTo === job.id && (
+                      <form onSubmit={(e) => handleApply(e, job.id)} className="space-y-3">
+                        <Textarea
+                          value={answer}
+                          onChange={(e) => setAnswer(e.target.value)}
+                          placeholder="Why do you want this job?"
+                          maxLength={1000}
+                          autoFocus
+                        />
+                        <div className="flex space-x-3">
+                          <Button type="button" onClick={() => setApplyingTo(null)} variant="outline">
+                            Cancel
+                          </Button>
+                          <Button
+                            type="submit"
+                            disabled={applyMutation.isPending}
+                            className="bg-blue-500 hover:bg-blue-600 text-white"
+                          >
+                            {applyMutation.isPending ? "Sending..." : "Send Application"}
+                          </Button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-gray-500">No open jobs right now. Check back later!</p>
+              )}
+            </div>
+
+            {board && board.applications.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-gray-700">My Applications</p>
+                {board.applications.map((application) => {
+                  const status = APPLICATION_STATUS[application.status] ?? APPLICATION_STATUS.pending;
+                  return (
+                    <div key={application.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                      <p className="text-gray-800">{application.job.title}</p>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Student {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface StudentLoginModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  student: Student | null;
+}
+
+export default function StudentLoginModal({ isOpen, onClose, student }: StudentLoginModalProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const credentialsUrl = `/api/students/${student?.id}/credentials`;
+
+  const { data: credentials, isLoading } = useQuery<{ username: string | null }>({
+    queryKey: [credentialsUrl],
+    enabled: isOpen && !!student,
+  });
+
+  useEffect(() => {
+    if (credentials) {
+      setUsername(credentials.username ?? "");
+    }
+  }, [credentials]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ username, password }: { username: string; password: string }) => {
+      const response = await apiRequest("PUT", credentialsUrl, { username, password });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [credentialsUrl] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save login",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (username.trim().length < 3 || password.length < 6) {
+      toast({
+        title: "Missing Information",
+        description: "Usernames need at least 3 characters and passwords at least 6.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate({ username: username.trim(), password });
+  };
+
+  const handleClose = () => {
+    setPassword("");
+    onClose();
+  };
+
+  if (!student) return null;
+
+  const hasLogin = !!credentials?.username;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md rounded-3xl">
+        <DialogHeader className="text-center">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">🔐</span>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-gray-800">
+            {hasLogin ? "Reset Password" : "Create Login"}
+          </DialogTitle>
+          <p className="text-gray-600">{student.firstName} {student.lastName}</p>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500">Loading...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="student-username">Username</Label>
+              <Input
+                id="student-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="e.g., maya.r"
+                autoComplete="off"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="student-password">{hasLogin ? "New Password" : "Password"}</Label>
+              <Input
+                id="student-password"
+                type="text"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="At least 6 characters"
+                autoComplete="off"
+                className="mt-1"
+              />
+              <p className="text-sm text-gray-500 mt-1">Write it down for the student before saving.</p>
+            </div>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Login"}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
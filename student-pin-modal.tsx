@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import PictureGrid, { PICTURES } from "@/components/picture-grid";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Student {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface StudentPin {
+  kind: "pin" | "picture";
+  length: number;
+  lockedUntil: string | null;
+}
+
+interface StudentPinModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  student: Student | null;
+}
+
+export default function StudentPinModal({ isOpen, onClose, student }: StudentPinModalProps) {
+  const [kind, setKind] = useState<"pin" | "picture">("pin");
+  const [pin, setPin] = useState("");
+  const [pictureSequence, setPictureSequence] = useState<number[]>([]);
+  const { toast } = useToast();
+  const pinUrl = `/api/students/${student?.id}/pin`;
+
+  const { data: currentPin } = useQuery<StudentPin | null>({
+    queryKey: [pinUrl],
+    enabled: isOpen && !!student,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ kind, secret }: { kind: "pin" | "picture"; secret: string }) => {
+      const response = await apiRequest("PUT", pinUrl, { kind, secret });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [pinUrl] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save PIN",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (kind === "pin" && !/^\d{4,6}$/.test(pin)) {
+      toast({
+        title: "Invalid PIN",
+        description: "PINs must be 4 to 6 digits.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (kind === "picture" && pictureSequence.length < 3) {
+      toast({
+        title: "Too Short",
+        description: "Pick at least 3 pictures.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate({
+      kind,
+      secret: kind === "pin" ? pin : pictureSequence.join("-"),
+    });
+  };
+
+  const handleClose = () => {
+    setPin("");
+    setPictureSequence([]);
+    onClose();
+  };
+
+  if (!student) return null;
+
+  const isLocked = !!currentPin?.lockedUntil && new Date(currentPin.lockedUntil) > new Date();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md rounded-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center">
+          <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">🔢</span>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-gray-800">Class Login</DialogTitle>
+          <p className="text-gray-600">
+            {student.firstName} {student.lastName} •{" "}
+            {currentPin ? `Has a ${currentPin.kind === "pin" ? "PIN" : "picture password"}` : "No PIN yet"}
+          </p>
+        </DialogHeader>
+
+        {isLocked && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-gray-700">
+            🔒 Locked after too many wrong tries. Saving a new one unlocks it.
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Tabs value={kind} onValueChange={(value) => setKind(value as "pin" | "picture")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="pin">🔢 PIN</TabsTrigger>
+              <TabsTrigger value="picture">🖼️ Pictures</TabsTrigger>
+            </TabsList>
+            <TabsContent value="pin">
+              <Input
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                placeholder="4 to 6 digits"
+                maxLength={6}
+                inputMode="numeric"
+                autoComplete="off"
+                className="text-center text-2xl tracking-widest h-14"
+              />
+            </TabsContent>
+            <TabsContent value="picture" className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="text-3xl h-10">
+                  {pictureSequence.map((index, position) => (
+                    <span key={position}>{PICTURES[index]}</span>
+                  ))}
+                </div>
+                <Button type="button" onClick={() => setPictureSequence([])} variant="ghost" size="sm">
+                  Clear
+                </Button>
+              </div>
+              <PictureGrid
+                onPick={(index) => setPictureSequence([...pictureSequence, index])}
+                disabled={pictureSequence.length >= 6}
+              />
+            </TabsContent>
+          </Tabs>
+          <p className="text-sm text-gray-500">Write it down for the student before saving.</p>
+          <Button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="w-full bg-yellow-500 hover:bg-yellow-600 text-white"
+          >
+            {saveMutation.isPending ? "Saving..." : currentPin ? "Reset Login" : "Save Login"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface Savings {
+  account: { id: number; balance: string } | null;
+  // Classes the student could open their account with
+  offers: { classroomId: number; classroomName: string; interestRate: string }[];
+  // What the account's class pays and allows; null once that class stops offering savings
+  rules: {
+    classroomName: string;
+    interestRate: string;
+    minimumBalance: string | null;
+    withdrawalLimit: number | null;
+    withdrawalPeriod: string;
+    withdrawalsLeft: number | null;
+  } | null;
+  transactions: { id: number; type: string; amount: string; description: string; createdAt: string }[];
+}
+
+export default function StudentSavingsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+
+  const { data: savings, isLoading } = useQuery<Savings>({
+    queryKey: ["/api/savings"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Oops!",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/savings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async (classroomId: number) => {
+      const response = await apiRequest("POST", "/api/savings", { classroomId });
+      return response.json();
+    },
+    onSuccess: (data) => handleSuccess(data.message),
+    onError: (error) => handleError(error, "Failed to open savings account"),
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (from: "checking" | "savings") => {
+      const response = await apiRequest("POST", "/api/transfers", { from, amount: parseFloat(amount).toFixed(2) });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      handleSuccess(data.message);
+      setAmount("");
+    },
+    onError: (error) => handleError(error, "Failed to move money"),
+  });
+
+  const amountNum = parseFloat(amount);
+  const canMove = amountNum > 0 && !transferMutation.isPending;
+  const withdrawalsUsedUp = savings?.rules?.withdrawalsLeft === 0;
+
+  const formatAmount = (value: string) => {
+    const num = parseFloat(value);
+    return num >= 0 ? `+$${value}` : `-$${Math.abs(num).toFixed(2)}`;
+  };
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6 space-y-6">
+        <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+          <span className="text-3xl mr-3">🐖</span>
+          Savings
+        </h3>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-4">Loading...</p>
+        ) : !savings?.account ? (
+          <div className="text-center py-4 space-y-4">
+            {savings && savings.offers.length > 0 ? (
+              <>
+                <p className="text-gray-600">
+                  Put money aside in a savings account and earn interest!
+                  {savings.offers.length > 1 && " Your account follows the rules of the class you open it with."}
+                </p>
+                <div className="flex flex-wrap justify-center gap-3">
+                  {savings.offers.map((offer) => (
+                    <Button
+                      key={offer.classroomId}
+                      onClick={() => openMutation.mutate(offer.classroomId)}
+                      disabled={openMutation.isPending}
+                      className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                    >
+                      {openMutation.isPending
+                        ? "Opening..."
+                        : `🐖 Open with ${offer.classroomName} (${offer.interestRate}%)`}
+                    </Button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-gray-600">None of your classes offers savings accounts yet.</p>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between p-4 bg-blue-50 rounded-xl">
+              <div>
+                <p className="text-gray-600">In savings</p>
+                <p className="text-3xl font-bold text-gray-800">${savings.account.balance}</p>
+              </div>
+              <div className="text-right text-gray-600 text-sm space-y-1">
+                {savings.rules && (
+                  <p>
+                    📈 {savings.rules.interestRate}% interest from {savings.rules.classroomName}
+                    {savings.rules.minimumBalance && ` on $${savings.rules.minimumBalance} or more`}
+                  </p>
+                )}
+                {savings.rules?.withdrawalLimit && (
+                  <p>
+                    {savings.rules.withdrawalsLeft} of {savings.rules.withdrawalLimit}{" "}
+                    {savings.rules.withdrawalLimit === 1 ? "withdrawal" : "withdrawals"} left this {savings.rules.withdrawalPeriod}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="max-w-[140px]"
+              />
+              <Button
+                onClick={() => transferMutation.mutate("checking")}
+                disabled={!canMove || amountNum > parseFloat(user?.account?.available || "0")}
+                className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+              >
+                ➡️ Move to Savings
+              </Button>
+              <Button
+                onClick={() => transferMutation.mutate("savings")}
+                disabled={!canMove || withdrawalsUsedUp || amountNum > parseFloat(savings.account.balance)}
+                variant="outline"
+                className="font-semibold"
+              >
+                ⬅️ Move to Spending
+              </Button>
+            </div>
+
+            {savings.transactions.length > 0 && (
+              <div className="space-y-2">
+                {savings.transactions.map((transaction) => (
+                  <div key={transaction.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <p className="text-gray-700">
+                      {transaction.type === "interest" ? "📈" : "↔️"} {transaction.description}
+                    </p>
+                    <p className={`font-semibold ${parseFloat(transaction.amount) >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatAmount(transaction.amount)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface StoreItem {
+  id: number;
+  kind: string; // 'item' or 'coupon'
+  name: string;
+  price: string;
+  validDays: number | null;
+  imageUrl: string | null;
+  stock: number | null;
+  perStudentLimit: number | null;
+  availableUntil: string | null;
+  classroomName: string;
+  ordered: number;
+}
+
+interface Store {
+  items: StoreItem[];
+  orders: { id: number; amount: string; quantity: number; status: string; storeItem: { name: string } }[];
+}
+
+const ORDER_STATUS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Waiting", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Bought!", className: "bg-green-100 text-green-800" },
+  denied: { label: "Not this time", className: "bg-gray-100 text-gray-600" },
+  expired: { label: "Expired", className: "bg-gray-100 text-gray-600" },
+};
+
+export default function StudentStoreCard() {
+  const { toast } = useToast();
+  // How many of each item the student wants, keyed by item id
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+  const { data: store, isLoading } = useQuery<Store>({
+    queryKey: ["/api/store"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Oops!",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const orderMutation = useMutation({
+    mutationFn: async ({ storeItemId, quantity }: { storeItemId: number; quantity: number }) => {
+      const response = await apiRequest("POST", "/api/store-orders", { storeItemId, quantity });
+      return response.json();
+    },
+    onSuccess: (data, { storeItemId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setQuantities({ ...quantities, [storeItemId]: "1" });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to send order"),
+  });
+
+  // What's left for this student: the stock, capped by their per-student limit
+  const canStillBuy = (item: StoreItem) => {
+    const limitLeft = item.perStudentLimit === null ? Infinity : item.perStudentLimit - item.ordered;
+    return Math.min(item.stock ?? Infinity, limitLeft);
+  };
+
+  return (
+    <Card className="rounded-2xl shadow-lg mb-8">
+      <CardContent className="p-6 space-y-6">
+        <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+          <span className="text-3xl mr-3">🛍️</span>
+          Class Store
+        </h3>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-4">Loading...</p>
+        ) : (
+          <>
+            {store && store.items.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {store.items.map((item) => {
+                  const left = canStillBuy(item);
+                  const quantity = parseInt(quantities[item.id] || "1");
+                  return (
+                    <div key={item.id} className="p-4 bg-gray-50 rounded-xl space-y-3">
+                      <div className="flex items-center space-x-4">
+                        {item.imageUrl ? (
+                          <img src={item.imageUrl} alt={item.name} className="w-16 h-16 rounded-lg object-cover" />
+                        ) : (
+                          <div className="w-16 h-16 rounded-lg bg-white flex items-center justify-center text-3xl">
+                            {item.kind === "coupon" ? "🎟️" : "🎁"}
+                          </div>
+                        )}
+                        <div>
+                          <p className="font-semibold text-gray-800">{item.name} • ${item.price}</p>
+                          <p className="text-gray-500 text-sm">
+                            {item.classroomName}
+                            {item.stock !== null && ` • ${item.stock === 0 ? "Sold out" : `${item.stock} left`}`}
+                            {item.perStudentLimit !== null && ` • ${item.perStudentLimit} per student`}
+                          </p>
+                          {item.kind === "coupon" && (
+                            <p className="text-gray-500 text-sm">
+                              Coupon{item.validDays !== null && `, good for ${item.validDays} ${item.validDays === 1 ? "day" : "days"}`}
+                            </p>
+                          )}
+                          {item.availableUntil && (
+                            <p className="text-gray-500 text-sm">On sale until {item.availableUntil}</p>
+                          )}
+                        </div>
+                      </div>
+                      {left > 0 ? (
+                        <div className="flex items-center space-x-3">
+                          <Input
+                            type="number"
+                            min="1"
+                            max={Number.isFinite(left) ? left : undefined}
+                            value={quantities[item.id] || "1"}
+                            onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                            className="max-w-[80px]"
+                          />
+                          <Button
+                            onClick={() => orderMutation.mutate({ storeItemId: item.id, quantity })}
+                            disabled={!(quantity >= 1 && quantity <= left) || orderMutation.isPending}
+                            className="bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+                          >
+                            Buy for ${((quantity >= 1 ? quantity : 1) * parseFloat(item.price)).toFixed(2)}
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline">{item.stock === 0 ? "Sold out" : "You've reached the limit"}</Badge>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-gray-500">Nothing for sale right now. Check back later!</p>
+            )}
+
+            {store && store.orders.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-gray-700">My Orders</p>
+                {store.orders.map((order) => {
+                  const status = ORDER_STATUS[order.status] ?? ORDER_STATUS.pending;
+                  return (
+                    <div key={order.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                      <p className="text-gray-800">
+                        {order.quantity > 1 && `${order.quantity} × `}{order.storeItem.name} • ${order.amount}
+                      </p>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,48 @@
-import { useAuth } from "@/hooks/useAuth";
+import { useAuth, useAuthProvider } from "@/hooks/useAuth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import PaycheckModal from "@/components/paycheck-modal";
 import AdjustBalanceModal from "@/components/adjust-balance-modal";
 import QuickActionsModal from "@/components/quick-actions-modal";
 import RentCollectionModal from "@/components/rent-collection-modal";
+import ReconciliationTab from "@/components/reconciliation-tab";
+import BatchHistoryTab from "@/components/batch-history-tab";
+import BankerTab from "@/components/banker-tab";
+import JobsTab from "@/components/jobs-tab";
+import JobApplicationsTab from "@/components/job-applications-tab";
+import HousingTab from "@/components/housing-tab";
+import HousingPurchaseRequests from "@/components/housing-purchase-requests";
+import StoreTab from "@/components/store-tab";
+import InventoryTab from "@/components/inventory-tab";
+import AuctionsTab from "@/components/auctions-tab";
+import RentArrearsTab from "@/components/rent-arrears-tab";
+import SavingsTab from "@/components/savings-tab";
+import CdsTab from "@/components/cds-tab";
+import SchedulesTab, { describeSchedule, type PayrollSchedules } from "@/components/schedules-tab";
+import SchoolCalendarTab from "@/components/school-calendar-tab";
+import StudentHistoryModal from "@/components/student-history-modal";
+import ClassroomModal from "@/components/classroom-modal";
+import JoinCodeModal from "@/components/join-code-modal";
+import AddStudentModal from "@/components/add-student-modal";
+import RosterImportModal from "@/components/roster-import-modal";
+import StudentLoginModal from "@/components/student-login-modal";
+import StudentPinModal from "@/components/student-pin-modal";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Permission } from "@shared/permissions";
 
 interface Student {
   id: string;
   firstName: string;
   lastName: string;
   email: string;
+  isPlaceholder: boolean;
   account: {
     id: number;
     balance: string;
@@ -27,16 +53,32 @@ interface WithdrawalRequest {
   id: number;
   amount: string;
   reason: string;
+  quantity: number;
+  storeItem: { name: string } | null;
   createdAt: string;
   user: {
     firstName: string;
     lastName: string;
   };
   account: {
+    userId: string;
     balance: string;
   };
 }
 
+interface Classroom {
+  id: number;
+  name: string;
+  period: string | null;
+  joinCode: string | null;
+  joinCodeExpiresAt: string | null;
+  requireEnrollmentApproval: boolean;
+  studentCount: number;
+  timeZone: string;
+  permissions: Permission[];
+  withdrawalLimit: string | null;
+}
+
 interface Stats {
   totalStudents: number;
   totalBalance: string;
@@ -45,7 +87,8 @@ interface Stats {
 }
 
 export default function TeacherDashboard() {
-  const { user, isLoading: authLoading } = useAuth();
+  const { user, isLoading: authLoading, can } = useAuth();
+  const authProvider = useAuthProvider();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("students");
   const [searchTerm, setSearchTerm] = useState("");
@@ -53,23 +96,71 @@ export default function TeacherDashboard() {
   const [showAdjustModal, setShowAdjustModal] = useState(false);
   const [showQuickActionsModal, setShowQuickActionsModal] = useState(false);
   const [showRentModal, setShowRentModal] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showClassroomModal, setShowClassroomModal] = useState(false);
+  const [showJoinCodeModal, setShowJoinCodeModal] = useState(false);
+  const [showAddStudentModal, setShowAddStudentModal] = useState(false);
+  const [showRosterImportModal, setShowRosterImportModal] = useState(false);
+  const [showLoginModal, setShowLoginModal] = useState(false);
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [classroomId, setClassroomId] = useState<number | null>(() => {
+    const stored = localStorage.getItem("selectedClassroomId");
+    return stored ? parseInt(stored) : null;
+  });
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [adjustmentType, setAdjustmentType] = useState<"add" | "subtract">("add");
 
+  const { data: classrooms, isLoading: classroomsLoading } = useQuery<Classroom[]>({
+    queryKey: ["/api/classrooms"],
+    retry: false,
+  });
+
+  const selectedClassroom = classrooms?.find(classroom => classroom.id === classroomId) || null;
+  // Co-teachers and school admins only get some of a teacher's powers, and only in some classes
+  const classroomCan = (permission: Permission) => !!selectedClassroom?.permissions.includes(permission);
+  // Student bankers reach this dashboard as the "Bank Desk" and can't act on their own account
+  const isStudentBanker = user?.role === "student";
+
+  // Fall back to the first class when nothing (or a class that no longer exists) is selected
+  useEffect(() => {
+    if (classrooms && classrooms.length > 0 && !selectedClassroom) {
+      setClassroomId(classrooms[0].id);
+    }
+  }, [classrooms, selectedClassroom]);
+
+  useEffect(() => {
+    if (classroomId !== null) {
+      localStorage.setItem("selectedClassroomId", String(classroomId));
+    }
+  }, [classroomId]);
+
   const { data: students, isLoading: studentsLoading } = useQuery<Student[]>({
-    queryKey: ["/api/students"],
+    queryKey: ["/api/students", { classroomId }],
+    enabled: !!selectedClassroom,
     retry: false,
   });
 
   const { data: pendingRequests, isLoading: requestsLoading } = useQuery<WithdrawalRequest[]>({
-    queryKey: ["/api/pending-requests"],
+    queryKey: ["/api/pending-requests", { classroomId }],
+    enabled: classroomCan("approve_withdrawals"),
     retry: false,
   });
 
   const { data: stats, isLoading: statsLoading } = useQuery<Stats>({
-    queryKey: ["/api/stats"],
+    queryKey: ["/api/stats", { classroomId }],
+    enabled: !!selectedClassroom,
+    retry: false,
+  });
+
+  const { data: payrollSchedules } = useQuery<PayrollSchedules>({
+    queryKey: ["/api/payroll-schedules", { classroomId }],
+    enabled: classroomCan("run_payroll"),
     retry: false,
   });
+  const failedSchedules = payrollSchedules?.schedules.filter(schedule => schedule.lastError) || [];
+  const nextScheduledRun = payrollSchedules?.schedules
+    .flatMap(schedule => schedule.upcomingRuns.slice(0, 1).map(run => ({ date: run.runOn, schedule })))
+    .sort((a, b) => a.date.localeCompare(b.date))[0];
 
   const approveRequestMutation = useMutation({
     mutationFn: async (requestId: number) => {
@@ -81,6 +172,8 @@ export default function TeacherDashboard() {
       queryClient.invalidateQueries({ queryKey: ["/api/pending-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/students"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/store-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory-items"] });
       toast({
         title: "Success",
         description: "Withdrawal request approved! 💰",
@@ -100,7 +193,7 @@ export default function TeacherDashboard() {
       }
       toast({
         title: "Error",
-        description: "Failed to approve request",
+        description: error.message || "Failed to approve request",
         variant: "destructive",
       });
     },
@@ -139,9 +232,9 @@ export default function TeacherDashboard() {
     },
   });
 
-  // Redirect to home if not authenticated or not a teacher
+  // Redirect to home if not authenticated or not allowed to see the teacher dashboard
   useEffect(() => {
-    if (!authLoading && (!user || user.role !== "teacher")) {
+    if (!authLoading && (!user || !can("view_students"))) {
       toast({
         title: "Unauthorized",
         description: "You are logged out. Logging in again...",
@@ -152,7 +245,7 @@ export default function TeacherDashboard() {
       }, 500);
       return;
     }
-  }, [user, authLoading, toast]);
+  }, [user, authLoading, can, toast]);
 
   if (authLoading || !user) {
     return (
@@ -182,6 +275,40 @@ export default function TeacherDashboard() {
     setShowQuickActionsModal(true);
   };
 
+  const handleViewHistory = (student: Student) => {
+    setSelectedStudent(student);
+    setShowHistoryModal(true);
+  };
+
+  const handleManageLogin = (student: Student) => {
+    setSelectedStudent(student);
+    setShowLoginModal(true);
+  };
+
+  const handleManagePin = (student: Student) => {
+    setSelectedStudent(student);
+    setShowPinModal(true);
+  };
+
+  // The tab is opened before the request so popup blockers still treat it as part of the click
+  const handleOpenClassLogin = async () => {
+    const loginTab = window.open("", "_blank");
+    try {
+      const response = await apiRequest("POST", `/api/classrooms/${classroomId}/login-key`);
+      const { loginKey } = await response.json();
+      if (loginTab) {
+        loginTab.location.href = `/class-login/${loginKey}`;
+      }
+    } catch (error) {
+      loginTab?.close();
+      toast({
+        title: "Error",
+        description: "Failed to open class login",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filteredStudents = students?.filter(student => {
     const fullName = `${student.firstName} ${student.lastName}`.toLowerCase();
     return fullName.includes(searchTerm.toLowerCase());
@@ -199,6 +326,16 @@ export default function TeacherDashboard() {
     });
   };
 
+  const getApprovalBlocker = (request: WithdrawalRequest) => {
+    if (request.account.userId === user?.id) {
+      return "This is your own request";
+    }
+    if (selectedClassroom?.withdrawalLimit && parseFloat(request.amount) > parseFloat(selectedClassroom.withdrawalLimit)) {
+      return `Over your $${selectedClassroom.withdrawalLimit} limit`;
+    }
+    return null;
+  };
+
   const getTimeAgo = (dateString: string) => {
     const now = new Date();
     const date = new Date(dateString);
@@ -221,26 +358,79 @@ export default function TeacherDashboard() {
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-purple-600 rounded-full flex items-center justify-center">
-                <span className="text-2xl">👨‍🏫</span>
+                <span className="text-2xl">{isStudentBanker ? "🏦" : "👨‍🏫"}</span>
               </div>
               <div>
-                <h1 className="text-2xl font-bold text-gray-800">Teacher Dashboard</h1>
+                <h1 className="text-2xl font-bold text-gray-800">{isStudentBanker ? "Bank Desk" : "Teacher Dashboard"}</h1>
                 <p className="text-gray-600">Manage Student Accounts</p>
               </div>
+              {classrooms && classrooms.length > 0 && (
+                <Select
+                  value={classroomId !== null ? String(classroomId) : undefined}
+                  onValueChange={(value) => setClassroomId(parseInt(value))}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Choose a class" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classrooms.map((classroom) => (
+                      <SelectItem key={classroom.id} value={String(classroom.id)}>
+                        {classroom.name}{classroom.period ? ` (${classroom.period})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {(can("manage_classrooms") || classroomCan("manage_students")) && (
+                <Button
+                  onClick={() => setShowClassroomModal(true)}
+                  variant="outline"
+                  className="font-semibold"
+                >
+                  🏫 Classes
+                </Button>
+              )}
+              {classroomCan("manage_classrooms") && (
+                <Button
+                  onClick={() => setShowJoinCodeModal(true)}
+                  variant="outline"
+                  className="font-semibold"
+                >
+                  🔑 Join Code
+                </Button>
+              )}
+              {classroomCan("manage_students") && (
+                <Button
+                  onClick={handleOpenClassLogin}
+                  variant="outline"
+                  className="font-semibold"
+                >
+                  🧒 Class Login
+                </Button>
+              )}
             </div>
             <div className="flex items-center space-x-3">
-              <Button 
-                onClick={() => setShowPaycheckModal(true)}
-                className="bg-secondary hover:bg-green-600 text-white font-semibold"
-              >
-                💰 Paycheck
-              </Button>
-              <Button 
-                onClick={() => setShowRentModal(true)}
-                className="bg-orange-500 hover:bg-orange-600 text-white font-semibold"
-              >
-                🏠 Collect Rent
-              </Button>
+              {isStudentBanker && (
+                <Button asChild variant="outline" className="font-semibold">
+                  <Link href="/">🐷 My Account</Link>
+                </Button>
+              )}
+              {classroomCan("run_payroll") && (
+                <>
+                  <Button 
+                    onClick={() => setShowPaycheckModal(true)}
+                    className="bg-secondary hover:bg-green-600 text-white font-semibold"
+                  >
+                    💰 Paycheck
+                  </Button>
+                  <Button 
+                    onClick={() => setShowRentModal(true)}
+                    className="bg-orange-500 hover:bg-orange-600 text-white font-semibold"
+                  >
+                    🏠 Collect Rent
+                  </Button>
+                </>
+              )}
               <Button 
                 onClick={handleLogout}
                 variant="destructive"
@@ -254,267 +444,631 @@ export default function TeacherDashboard() {
       </header>
 
       <main className="max-w-7xl mx-auto p-4">
-        {/* Stats Overview */}
-        <div className="grid md:grid-cols-4 gap-6 mb-8">
+        {!classroomsLoading && classrooms?.length === 0 ? (
           <Card className="rounded-2xl shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-gray-600 font-semibold">Total Students</p>
-                  <p className="text-3xl font-bold text-gray-800">
-                    {statsLoading ? "..." : stats?.totalStudents || 0}
-                  </p>
-                </div>
-                <span className="text-4xl">👥</span>
-              </div>
+            <CardContent className="p-8 text-center">
+              <span className="text-5xl mb-4 block">🏫</span>
+              {can("manage_classrooms") ? (
+                <>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">Create your first class</h3>
+                  <p className="text-gray-600 mb-6">Set up a class period, then add your students to it.</p>
+                  <Button
+                    onClick={() => setShowClassroomModal(true)}
+                    className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
+                  >
+                    🏫 Create Class
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">No classes yet</h3>
+                  <p className="text-gray-600">Ask a teacher to add you to their class.</p>
+                </>
+              )}
             </CardContent>
           </Card>
+        ) : (
+          <>
+            {/* Stats Overview */}
+            <div className="grid md:grid-cols-4 gap-6 mb-8">
+              <Card className="rounded-2xl shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-gray-600 font-semibold">Total Students</p>
+                      <p className="text-3xl font-bold text-gray-800">
+                        {statsLoading ? "..." : stats?.totalStudents || 0}
+                      </p>
+                    </div>
+                    <span className="text-4xl">👥</span>
+                  </div>
+                </CardContent>
+              </Card>
 
-          <Card className="rounded-2xl shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-gray-600 font-semibold">Total Balance</p>
-                  <p className="text-3xl font-bold text-secondary">
-                    {statsLoading ? "..." : `$${stats?.totalBalance || "0.00"}`}
-                  </p>
-                </div>
-                <span className="text-4xl">💰</span>
-              </div>
-            </CardContent>
-          </Card>
+              <Card className="rounded-2xl shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-gray-600 font-semibold">Total Balance</p>
+                      <p className="text-3xl font-bold text-secondary">
+                        {statsLoading ? "..." : `$${stats?.totalBalance || "0.00"}`}
+                      </p>
+                    </div>
+                    <span className="text-4xl">💰</span>
+                  </div>
+                </CardContent>
+              </Card>
 
-          <Card className="rounded-2xl shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-gray-600 font-semibold">Pending Requests</p>
-                  <p className="text-3xl font-bold text-accent">
-                    {statsLoading ? "..." : stats?.pendingRequests || 0}
-                  </p>
-                </div>
-                <span className="text-4xl">⏳</span>
-              </div>
-            </CardContent>
-          </Card>
+              <Card className="rounded-2xl shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-gray-600 font-semibold">Pending Requests</p>
+                      <p className="text-3xl font-bold text-accent">
+                        {statsLoading ? "..." : stats?.pendingRequests || 0}
+                      </p>
+                    </div>
+                    <span className="text-4xl">⏳</span>
+                  </div>
+                </CardContent>
+              </Card>
 
-          <Card className="rounded-2xl shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
+              <Card className="rounded-2xl shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-gray-600 font-semibold">This Week</p>
+                      <p className="text-3xl font-bold text-blue-600">
+                        {statsLoading ? "..." : `$${stats?.weeklyTotal || "0.00"}`}
+                      </p>
+                    </div>
+                    <span className="text-4xl">📊</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Scheduled Runs */}
+            {failedSchedules.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-2xl p-4 mb-4 flex items-center justify-between">
                 <div>
-                  <p className="text-gray-600 font-semibold">This Week</p>
-                  <p className="text-3xl font-bold text-blue-600">
-                    {statsLoading ? "..." : `$${stats?.weeklyTotal || "0.00"}`}
-                  </p>
+                  {failedSchedules.map((schedule) => (
+                    <p key={schedule.id} className="text-gray-700">
+                      ⚠️ {describeSchedule(schedule)} failed on {schedule.lastRunOn}: {schedule.lastError}
+                    </p>
+                  ))}
                 </div>
-                <span className="text-4xl">📊</span>
+                <Button onClick={() => setActiveTab("schedules")} variant="outline" size="sm">
+                  View Schedules
+                </Button>
               </div>
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* Navigation Tabs */}
-        <Card className="rounded-2xl shadow-lg mb-8">
-          <div className="border-b border-gray-200">
-            <nav className="flex space-x-8 px-6">
-              <button 
-                onClick={() => setActiveTab("students")}
-                className={`py-4 border-b-2 font-semibold ${
-                  activeTab === "students"
-                    ? "border-purple-500 text-purple-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700"
-                }`}
-              >
-                👨‍🎓 Student Accounts
-              </button>
-              <button 
-                onClick={() => setActiveTab("requests")}
-                className={`py-4 border-b-2 font-semibold ${
-                  activeTab === "requests"
-                    ? "border-purple-500 text-purple-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700"
-                }`}
-              >
-                📝 Withdrawal Requests
-              </button>
-            </nav>
-          </div>
+            )}
+            {nextScheduledRun && (
+              <p className="text-gray-600 mb-8">
+                ⏰ Next scheduled run: {describeSchedule(nextScheduledRun.schedule)} on {nextScheduledRun.date}
+              </p>
+            )}
 
-          {/* Student Accounts Tab */}
-          {activeTab === "students" && (
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between mb-6">
-                <h3 className="text-2xl font-bold text-gray-800">Student Accounts</h3>
-                <Input 
-                  type="text" 
-                  placeholder="Search students..." 
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="max-w-sm"
-                />
+            {/* Navigation Tabs */}
+            <Card className="rounded-2xl shadow-lg mb-8">
+              <div className="border-b border-gray-200">
+                <nav className="flex space-x-8 px-6">
+                  <button 
+                    onClick={() => setActiveTab("students")}
+                    className={`py-4 border-b-2 font-semibold ${
+                      activeTab === "students"
+                        ? "border-purple-500 text-purple-600"
+                        : "border-transparent text-gray-500 hover:text-gray-700"
+                    }`}
+                  >
+                    👨‍🎓 Student Accounts
+                  </button>
+                  {classroomCan("approve_withdrawals") && (
+                    <button 
+                      onClick={() => setActiveTab("requests")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "requests"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      📝 Withdrawal Requests
+                    </button>
+                  )}
+                  {classroomCan("manage_students") && (
+                    <button 
+                      onClick={() => setActiveTab("jobs")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "jobs"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      💼 Jobs
+                    </button>
+                  )}
+                  {classroomCan("manage_students") && (
+                    <button 
+                      onClick={() => setActiveTab("applications")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "applications"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      📋 Applications
+                    </button>
+                  )}
+                  {classroomCan("manage_students") && (
+                    <button 
+                      onClick={() => setActiveTab("housing")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "housing"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🏠 Housing
+                    </button>
+                  )}
+                  {classroomCan("manage_students") && (
+                    <button 
+                      onClick={() => setActiveTab("store")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "store"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🛍️ Store
+                    </button>
+                  )}
+                  {classroomCan("manage_students") && (
+                    <button 
+                      onClick={() => setActiveTab("inventory")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "inventory"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🎒 Inventory
+                    </button>
+                  )}
+                  {classroomCan("manage_students") && (
+                    <button 
+                      onClick={() => setActiveTab("auctions")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "auctions"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🔨 Auctions
+                    </button>
+                  )}
+                  {classroomCan("view_reports") && (
+                    <>
+                      <button 
+                        onClick={() => setActiveTab("batches")}
+                        className={`py-4 border-b-2 font-semibold ${
+                          activeTab === "batches"
+                            ? "border-purple-500 text-purple-600"
+                            : "border-transparent text-gray-500 hover:text-gray-700"
+                        }`}
+                      >
+                        📦 Paycheck & Rent History
+                      </button>
+                      <button 
+                        onClick={() => setActiveTab("reconciliation")}
+                        className={`py-4 border-b-2 font-semibold ${
+                          activeTab === "reconciliation"
+                            ? "border-purple-500 text-purple-600"
+                            : "border-transparent text-gray-500 hover:text-gray-700"
+                        }`}
+                      >
+                        🧮 Reconciliation
+                      </button>
+                      <button 
+                        onClick={() => setActiveTab("arrears")}
+                        className={`py-4 border-b-2 font-semibold ${
+                          activeTab === "arrears"
+                            ? "border-purple-500 text-purple-600"
+                            : "border-transparent text-gray-500 hover:text-gray-700"
+                        }`}
+                      >
+                        🧾 Owed Rent
+                      </button>
+                    </>
+                  )}
+                  {classroomCan("run_payroll") && (
+                    <button 
+                      onClick={() => setActiveTab("schedules")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "schedules"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      ⏰ Schedules
+                    </button>
+                  )}
+                  {classroomCan("run_payroll") && (
+                    <button 
+                      onClick={() => setActiveTab("savings")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "savings"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🐖 Savings
+                    </button>
+                  )}
+                  {classroomCan("run_payroll") && (
+                    <button 
+                      onClick={() => setActiveTab("cds")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "cds"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🔒 CDs
+                    </button>
+                  )}
+                  {classroomCan("view_students") && (
+                    <button 
+                      onClick={() => setActiveTab("calendar")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "calendar"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      📅 Calendar
+                    </button>
+                  )}
+                  {classroomCan("manage_classrooms") && (
+                    <button 
+                      onClick={() => setActiveTab("bankers")}
+                      className={`py-4 border-b-2 font-semibold ${
+                        activeTab === "bankers"
+                          ? "border-purple-500 text-purple-600"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      🏦 Student Bankers
+                    </button>
+                  )}
+                </nav>
               </div>
 
-              {studentsLoading ? (
-                <div className="grid gap-4">
-                  {[...Array(5)].map((_, i) => (
-                    <div key={i} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl animate-pulse">
-                      <div className="flex items-center space-x-4">
-                        <div className="w-12 h-12 bg-gray-200 rounded-full"></div>
-                        <div>
-                          <div className="h-4 bg-gray-200 rounded w-32 mb-2"></div>
-                          <div className="h-3 bg-gray-200 rounded w-24"></div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-4">
-                        <div className="h-6 bg-gray-200 rounded w-16"></div>
-                        <div className="flex space-x-2">
-                          <div className="w-8 h-8 bg-gray-200 rounded"></div>
-                          <div className="w-8 h-8 bg-gray-200 rounded"></div>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              ) : filteredStudents && filteredStudents.length > 0 ? (
-                <div className="grid gap-4">
-                  {filteredStudents.map((student) => (
-                    <div key={student.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl hover:bg-gray-100 transition-colors">
-                      <div className="flex items-center space-x-4">
-                        <div className="w-12 h-12 bg-gradient-to-br from-blue-400 to-blue-600 rounded-full flex items-center justify-center text-white font-bold">
-                          <span>{getInitials(student.firstName, student.lastName)}</span>
-                        </div>
-                        <div>
-                          <p className="font-semibold text-gray-800">
-                            {student.firstName} {student.lastName}
-                          </p>
-                          <p className="text-gray-600 text-sm">{student.email}</p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-4">
-                        <span className="font-bold text-2xl text-secondary">
-                          ${student.account.balance}
-                        </span>
-                        <div className="flex space-x-2">
-                          <Button 
-                            onClick={() => handleQuickActions(student)}
-                            size="sm"
-                            className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg transition-colors"
-                            title="Quick rewards and fines"
+              {/* Student Accounts Tab */}
+              {activeTab === "students" && (
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-2xl font-bold text-gray-800">Student Accounts</h3>
+                    <div className="flex items-center space-x-3">
+                      <Input 
+                        type="text" 
+                        placeholder="Search students..." 
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="max-w-sm"
+                      />
+                      {classroomCan("manage_students") && (
+                        <>
+                          <Button
+                            onClick={() => setShowAddStudentModal(true)}
+                            className="bg-purple-500 hover:bg-purple-600 text-white font-semibold"
                           >
-                            ⚡
+                            ➕ Add Student
                           </Button>
-                          <Button 
-                            onClick={() => handleAdjustBalance(student, "add")}
-                            size="sm"
-                            className="bg-green-500 hover:bg-green-600 text-white p-2 rounded-lg transition-colors"
+                          <Button
+                            onClick={() => setShowRosterImportModal(true)}
+                            variant="outline"
+                            className="font-semibold"
                           >
-                            +
+                            📋 Import
                           </Button>
-                          <Button 
-                            onClick={() => handleAdjustBalance(student, "subtract")}
-                            size="sm"
-                            className="bg-red-500 hover:bg-red-600 text-white p-2 rounded-lg transition-colors"
-                          >
-                            -
+                          <Button asChild variant="outline" className="font-semibold">
+                            <a href={`/api/roster/export?classroomId=${classroomId}`} download>
+                              📤 Export
+                            </a>
                           </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {studentsLoading ? (
+                    <div className="grid gap-4">
+                      {[...Array(5)].map((_, i) => (
+                        <div key={i} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl animate-pulse">
+                          <div className="flex items-center space-x-4">
+                            <div className="w-12 h-12 bg-gray-200 rounded-full"></div>
+                            <div>
+                              <div className="h-4 bg-gray-200 rounded w-32 mb-2"></div>
+                              <div className="h-3 bg-gray-200 rounded w-24"></div>
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-4">
+                            <div className="h-6 bg-gray-200 rounded w-16"></div>
+                            <div className="flex space-x-2">
+                              <div className="w-8 h-8 bg-gray-200 rounded"></div>
+                              <div className="w-8 h-8 bg-gray-200 rounded"></div>
+                            </div>
+                          </div>
                         </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8 text-gray-500">
-                  <span className="text-4xl mb-4 block">👥</span>
-                  <p className="text-lg">No students found</p>
-                  {searchTerm && <p>Try adjusting your search term.</p>}
-                </div>
+                  ) : filteredStudents && filteredStudents.length > 0 ? (
+                    <div className="grid gap-4">
+                      {filteredStudents.map((student) => (
+                        <div key={student.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl hover:bg-gray-100 transition-colors">
+                          <div className="flex items-center space-x-4">
+                            <div className="w-12 h-12 bg-gradient-to-br from-blue-400 to-blue-600 rounded-full flex items-center justify-center text-white font-bold">
+                              <span>{getInitials(student.firstName, student.lastName)}</span>
+                            </div>
+                            <div>
+                              <p className="font-semibold text-gray-800">
+                                {student.firstName} {student.lastName}
+                              </p>
+                              <p className="text-gray-600 text-sm">
+                                {student.email}
+                                {student.email && student.isPlaceholder && " • "}
+                                {student.isPlaceholder && "Hasn't logged in yet"}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-4">
+                            <span className="font-bold text-2xl text-secondary">
+                              ${student.account.balance}
+                            </span>
+                            <div className="flex space-x-2">
+                              {classroomCan("post_quick_actions") && student.id !== user.id && (
+                                <Button 
+                                  onClick={() => handleQuickActions(student)}
+                                  size="sm"
+                                  className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg transition-colors"
+                                  title="Quick rewards and fines"
+                                >
+                                  ⚡
+                                </Button>
+                              )}
+                              <Button 
+                                onClick={() => handleViewHistory(student)}
+                                size="sm"
+                                className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded-lg transition-colors"
+                                title="Transaction history"
+                              >
+                                📜
+                              </Button>
+                              {classroomCan("manage_students") && (
+                                <Button 
+                                  onClick={() => handleManagePin(student)}
+                                  size="sm"
+                                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-2 rounded-lg transition-colors"
+                                  title="PIN or picture login"
+                                >
+                                  🔢
+                                </Button>
+                              )}
+                              {authProvider === "local" && classroomCan("manage_students") && (
+                                <Button 
+                                  onClick={() => handleManageLogin(student)}
+                                  size="sm"
+                                  className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded-lg transition-colors"
+                                  title="Username and password"
+                                >
+                                  🔐
+                                </Button>
+                              )}
+                              {classroomCan("adjust_balances") && (
+                                <>
+                                  <Button 
+                                    onClick={() => handleAdjustBalance(student, "add")}
+                                    size="sm"
+                                    className="bg-green-500 hover:bg-green-600 text-white p-2 rounded-lg transition-colors"
+                                  >
+                                    +
+                                  </Button>
+                                  <Button 
+                                    onClick={() => handleAdjustBalance(student, "subtract")}
+                                    size="sm"
+                                    className="bg-red-500 hover:bg-red-600 text-white p-2 rounded-lg transition-colors"
+                                  >
+                                    -
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-gray-500">
+                      <span className="text-4xl mb-4 block">👥</span>
+                      <p className="text-lg">No students found</p>
+                      {searchTerm && <p>Try adjusting your search term.</p>}
+                    </div>
+                  )}
+                </CardContent>
               )}
-            </CardContent>
-          )}
 
-          {/* Withdrawal Requests Tab */}
-          {activeTab === "requests" && (
-            <CardContent className="p-6">
-              <h3 className="text-2xl font-bold text-gray-800 mb-6">Pending Withdrawal Requests</h3>
+              {/* Withdrawal Requests Tab */}
+              {activeTab === "requests" && classroomCan("approve_withdrawals") && (
+                <CardContent className="p-6">
+                  <h3 className="text-2xl font-bold text-gray-800 mb-6">Pending Withdrawal Requests</h3>
               
-              {requestsLoading ? (
-                <div className="space-y-4">
-                  {[...Array(3)].map((_, i) => (
-                    <div key={i} className="bg-yellow-50 border border-yellow-200 rounded-xl p-6 animate-pulse">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                          <div className="w-12 h-12 bg-yellow-200 rounded-full"></div>
-                          <div>
-                            <div className="h-4 bg-yellow-200 rounded w-48 mb-2"></div>
-                            <div className="h-3 bg-yellow-200 rounded w-32 mb-1"></div>
-                            <div className="h-3 bg-yellow-200 rounded w-40"></div>
+                  {requestsLoading ? (
+                    <div className="space-y-4">
+                      {[...Array(3)].map((_, i) => (
+                        <div key={i} className="bg-yellow-50 border border-yellow-200 rounded-xl p-6 animate-pulse">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-4">
+                              <div className="w-12 h-12 bg-yellow-200 rounded-full"></div>
+                              <div>
+                                <div className="h-4 bg-yellow-200 rounded w-48 mb-2"></div>
+                                <div className="h-3 bg-yellow-200 rounded w-32 mb-1"></div>
+                                <div className="h-3 bg-yellow-200 rounded w-40"></div>
+                              </div>
+                            </div>
+                            <div className="flex space-x-3">
+                              <div className="w-20 h-8 bg-yellow-200 rounded"></div>
+                              <div className="w-20 h-8 bg-yellow-200 rounded"></div>
+                            </div>
                           </div>
                         </div>
-                        <div className="flex space-x-3">
-                          <div className="w-20 h-8 bg-yellow-200 rounded"></div>
-                          <div className="w-20 h-8 bg-yellow-200 rounded"></div>
-                        </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              ) : pendingRequests && pendingRequests.length > 0 ? (
-                <div className="space-y-4">
-                  {pendingRequests.map((request) => (
-                    <div key={request.id} className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                          <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center">
-                            <span className="text-xl">💸</span>
-                          </div>
-                          <div>
-                            <p className="font-semibold text-gray-800">
-                              {request.user.firstName} {request.user.lastName} wants to withdraw ${request.amount}
-                            </p>
-                            <p className="text-gray-600 text-sm">
-                              Requested {getTimeAgo(request.createdAt)} • Current balance: ${request.account.balance}
-                            </p>
-                            <p className="text-gray-600 text-sm">
-                              Reason: "{request.reason}"
-                            </p>
+                  ) : pendingRequests && pendingRequests.length > 0 ? (
+                    <div className="space-y-4">
+                      {pendingRequests.map((request) => (
+                        <div key={request.id} className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-4">
+                              <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center">
+                                <span className="text-xl">{request.storeItem ? "🛍️" : "💸"}</span>
+                              </div>
+                              <div>
+                                <p className="font-semibold text-gray-800">
+                                  {request.storeItem
+                                    ? `${request.user.firstName} ${request.user.lastName} wants to buy ${request.quantity > 1 ? `${request.quantity} × ` : ""}${request.storeItem.name} for $${request.amount}`
+                                    : `${request.user.firstName} ${request.user.lastName} wants to withdraw $${request.amount}`}
+                                </p>
+                                <p className="text-gray-600 text-sm">
+                                  Requested {getTimeAgo(request.createdAt)} • Current balance: ${request.account.balance}
+                                </p>
+                                {!request.storeItem && (
+                                  <p className="text-gray-600 text-sm">
+                                    Reason: "{request.reason}"
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              {getApprovalBlocker(request) && (
+                                <span className="text-sm text-gray-500">{getApprovalBlocker(request)}</span>
+                              )}
+                              <Button 
+                                onClick={() => approveRequestMutation.mutate(request.id)}
+                                disabled={approveRequestMutation.isPending || !!getApprovalBlocker(request)}
+                                className="bg-green-500 hover:bg-green-600 text-white font-semibold"
+                              >
+                                ✓ Approve
+                              </Button>
+                              <Button 
+                                onClick={() => denyRequestMutation.mutate(request.id)}
+                                disabled={denyRequestMutation.isPending}
+                                variant="destructive"
+                                className="font-semibold"
+                              >
+                                ✗ Deny
+                              </Button>
+                            </div>
                           </div>
                         </div>
-                        <div className="flex space-x-3">
-                          <Button 
-                            onClick={() => approveRequestMutation.mutate(request.id)}
-                            disabled={approveRequestMutation.isPending}
-                            className="bg-green-500 hover:bg-green-600 text-white font-semibold"
-                          >
-                            ✓ Approve
-                          </Button>
-                          <Button 
-                            onClick={() => denyRequestMutation.mutate(request.id)}
-                            disabled={denyRequestMutation.isPending}
-                            variant="destructive"
-                            className="font-semibold"
-                          >
-                            ✗ Deny
-                          </Button>
-                        </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8 text-gray-500">
-                  <span className="text-4xl mb-4 block">📭</span>
-                  <p className="text-lg">No pending withdrawal requests</p>
-                  <p>All caught up! New requests will appear here.</p>
-                </div>
+                  ) : (
+                    <div className="text-center py-8 text-gray-500">
+                      <span className="text-4xl mb-4 block">📭</span>
+                      <p className="text-lg">No pending withdrawal requests</p>
+                      <p>All caught up! New requests will appear here.</p>
+                    </div>
+                  )}
+
+                  {classroomId !== null && (
+                    <HousingPurchaseRequests classroomId={classroomId} withdrawalLimit={selectedClassroom?.withdrawalLimit ?? null} />
+                  )}
+                </CardContent>
               )}
-            </CardContent>
-          )}
-        </Card>
+
+              {/* Jobs Tab */}
+              {activeTab === "jobs" && classroomId !== null && classroomCan("manage_students") && (
+                <JobsTab classroomId={classroomId} />
+              )}
+
+              {/* Job Applications Tab */}
+              {activeTab === "applications" && classroomId !== null && classroomCan("manage_students") && (
+                <JobApplicationsTab classroomId={classroomId} />
+              )}
+
+              {/* Housing Tab */}
+              {activeTab === "housing" && classroomId !== null && classroomCan("manage_students") && (
+                <HousingTab classroomId={classroomId} />
+              )}
+
+              {/* Store Tab */}
+              {activeTab === "store" && classroomId !== null && classroomCan("manage_students") && (
+                <StoreTab classroomId={classroomId} />
+              )}
+
+              {/* Inventory Tab */}
+              {activeTab === "inventory" && classroomId !== null && classroomCan("manage_students") && (
+                <InventoryTab classroomId={classroomId} />
+              )}
+
+              {/* Auctions Tab */}
+              {activeTab === "auctions" && classroomId !== null && classroomCan("manage_students") && (
+                <AuctionsTab classroomId={classroomId} />
+              )}
+
+              {/* Batch History Tab */}
+              {activeTab === "batches" && classroomId !== null && classroomCan("view_reports") && (
+                <BatchHistoryTab classroomId={classroomId} canRollBack={classroomCan("run_payroll")} />
+              )}
+
+              {/* Reconciliation Tab */}
+              {activeTab === "reconciliation" && classroomId !== null && classroomCan("view_reports") && (
+                <ReconciliationTab
+                  classroomId={classroomId}
+                  canRepair={classroomCan("adjust_balances")}
+                  canRepairTreasury={user?.role === "school-admin"}
+                />
+              )}
+
+              {/* Owed Rent Tab */}
+              {activeTab === "arrears" && classroomId !== null && classroomCan("view_reports") && (
+                <RentArrearsTab classroomId={classroomId} />
+              )}
+
+              {/* Schedules Tab */}
+              {activeTab === "schedules" && classroomId !== null && classroomCan("run_payroll") && (
+                <SchedulesTab classroomId={classroomId} canChangeTimeZone={classroomCan("manage_classrooms")} />
+              )}
+
+              {/* Savings Tab */}
+              {activeTab === "savings" && classroomId !== null && classroomCan("run_payroll") && (
+                <SavingsTab classroomId={classroomId} />
+              )}
+
+              {/* CDs Tab */}
+              {activeTab === "cds" && classroomId !== null && classroomCan("run_payroll") && (
+                <CdsTab classroomId={classroomId} />
+              )}
+
+              {/* School Calendar Tab */}
+              {activeTab === "calendar" && classroomId !== null && classroomCan("view_students") && (
+                <SchoolCalendarTab classroomId={classroomId} canEdit={classroomCan("run_payroll")} />
+              )}
+
+              {/* Student Bankers Tab */}
+              {activeTab === "bankers" && classroomId !== null && classroomCan("manage_classrooms") && (
+                <BankerTab classroomId={classroomId} canReverse={classroomCan("adjust_balances")} />
+              )}
+            </Card>
+          </>
+        )}
       </main>
 
       <PaycheckModal
         isOpen={showPaycheckModal}
         onClose={() => setShowPaycheckModal(false)}
+        classroomId={classroomId}
       />
 
       <AdjustBalanceModal
@@ -528,11 +1082,58 @@ export default function TeacherDashboard() {
         isOpen={showQuickActionsModal}
         onClose={() => setShowQuickActionsModal(false)}
         student={selectedStudent}
+        classroomId={classroomId}
+        canAdjust={classroomCan("adjust_balances")}
       />
 
       <RentCollectionModal
         isOpen={showRentModal}
         onClose={() => setShowRentModal(false)}
+        classroomId={classroomId}
+      />
+
+      <StudentHistoryModal
+        isOpen={showHistoryModal}
+        onClose={() => setShowHistoryModal(false)}
+        student={selectedStudent}
+        canReverse={classroomCan("adjust_balances")}
+      />
+
+      <ClassroomModal
+        isOpen={showClassroomModal}
+        onClose={() => setShowClassroomModal(false)}
+        classroom={selectedClassroom}
+        onCreated={(classroom) => setClassroomId(classroom.id)}
+      />
+
+      <AddStudentModal
+        isOpen={showAddStudentModal}
+        onClose={() => setShowAddStudentModal(false)}
+        classroomId={classroomId}
+      />
+
+      <StudentPinModal
+        isOpen={showPinModal}
+        onClose={() => setShowPinModal(false)}
+        student={selectedStudent}
+      />
+
+      <StudentLoginModal
+        isOpen={showLoginModal}
+        onClose={() => setShowLoginModal(false)}
+        student={selectedStudent}
+      />
+
+      <RosterImportModal
+        isOpen={showRosterImportModal}
+        onClose={() => setShowRosterImportModal(false)}
+        classroomId={classroomId}
+      />
+
+      <JoinCodeModal
+        isOpen={showJoinCodeModal}
+        onClose={() => setShowJoinCodeModal(false)}
+        classroom={selectedClassroom}
       />
     </div>
   );
@@ -1,7 +1,27 @@
 import { useQuery } from "@tanstack/react-query";
+import type { Account, User } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+
+export interface AuthClassroom {
+  id: number;
+  name: string;
+  period: string | null;
+  enrollmentStatus: string;
+}
+
+// Students also get their account and class memberships; both are null for teachers. The account's `balance` is
+// the ledger balance; `available` is what's left after `held`, the amount pending requests and leading bids hold.
+// `permissions` is everything the user may do in at least one classroom; per-classroom permissions come with
+// /api/classrooms. `pinLogin` marks a session started from the class PIN/picture login page.
+export type AuthUser = User & {
+  account: (Account & { held: string; available: string }) | null;
+  classrooms: AuthClassroom[] | null;
+  permissions: Permission[];
+  pinLogin: boolean;
+};
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -10,5 +30,17 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    permissions: user?.permissions ?? [],
+    can: (permission: Permission) => !!user?.permissions.includes(permission),
   };
 }
+
+// Which login flow the server is configured for: "local" uses the username/password form, the others redirect
+export function useAuthProvider() {
+  const { data } = useQuery<{ provider: "replit" | "oidc" | "local" }>({
+    queryKey: ["/api/auth/config"],
+    staleTime: Infinity,
+  });
+
+  return data?.provider;
+}
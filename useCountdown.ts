@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+
+// The current time on the server's clock, ticking every second. `serverTime` is the time the server reported
+// with its last response, so countdowns agree between student devices and the projector.
+export function useServerNow(serverTime: string | undefined) {
+  const [now, setNow] = useState(Date.now());
+  const [offset, setOffset] = useState(0);
+
+  useEffect(() => {
+    if (serverTime) {
+      setOffset(new Date(serverTime).getTime() - Date.now());
+    }
+  }, [serverTime]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return now + offset;
+}
+
+// "1:05:09" or "4:32"; zero once the time has passed
+export function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -29,9 +29,10 @@ export default function WithdrawalModal({ isOpen, onClose, currentBalance }: Wit
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       toast({
         title: "Success",
-        description: "Withdrawal request submitted! Your teacher will review it soon. 🏦",
+        description: "Withdrawal request submitted! The money is on hold until your teacher reviews it. 🏦",
       });
       handleClose();
     },